@@ -0,0 +1,185 @@
+/**
+ * PRIMEAPE Service Worker
+ *
+ * - App shell: precached on install from /precache-manifest.json (written at
+ *   build time by the precacheManifest plugin in vite.config.ts)
+ * - Lyrics (.lrc), artwork and waveform peaks: cached as they are fetched,
+ *   refreshed in the background
+ * - Music: only served from cache when the listener saved the album for
+ *   offline (the page fills the audio cache itself, see
+ *   src/utils/offlineStorage.ts). Range requests are answered from the cached
+ *   file so <audio> can seek offline.
+ *
+ * Cache names must stay in sync with src/utils/offlineStorage.ts.
+ */
+
+const SHELL_CACHE = 'primeape-shell-v1';
+const CONTENT_CACHE = 'primeape-content-v1';
+const AUDIO_CACHE = 'primeape-audio-v1';
+const KNOWN_CACHES = [SHELL_CACHE, CONTENT_CACHE, AUDIO_CACHE];
+
+// Always precached, even if the build manifest is missing
+const STATIC_SHELL = [
+  '/',
+  '/favicon/site.webmanifest',
+  '/favicon/favicon.ico',
+  '/favicon/web-app-manifest-192x192.png',
+  '/favicon/web-app-manifest-512x512.png',
+];
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      let buildFiles = [];
+      try {
+        const response = await fetch('/precache-manifest.json', { cache: 'no-store' });
+        if (response.ok) buildFiles = await response.json();
+      } catch (error) {
+        console.warn('[SW] Precache manifest unavailable:', error);
+      }
+      await cache.addAll([...new Set([...STATIC_SHELL, ...buildFiles])]);
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      // Drop caches from older service worker versions
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith('primeape-') && !KNOWN_CACHES.includes(name))
+          .map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+// ============================================================================
+// FETCH ROUTING
+// ============================================================================
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.pathname.startsWith('/music/')) {
+    event.respondWith(handleAudio(request));
+  } else if (
+    url.pathname.startsWith('/lyrics/') ||
+    url.pathname.startsWith('/artwork/') ||
+    url.pathname.startsWith('/waveforms/')
+  ) {
+    event.respondWith(staleWhileRevalidate(request, CONTENT_CACHE));
+  } else if (url.pathname.startsWith('/assets/')) {
+    // Hashed build output never changes
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
+
+/**
+ * Pages: network first so deploys show up, cached shell when offline
+ * (every route, e.g. /track/vice, renders the same index.html)
+ */
+async function handleNavigation(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put('/', response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match('/', { cacheName: SHELL_CACHE });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request, { cacheName });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+
+  const refresh = fetch(request)
+    .then((response) => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch((error) => {
+      if (!cached) throw error;
+      return cached;
+    });
+
+  return cached || refresh;
+}
+
+/**
+ * Music: saved files come from the audio cache (with Range support),
+ * everything else streams from the network untouched
+ */
+async function handleAudio(request) {
+  const url = new URL(request.url);
+  const cached = await caches.match(url.pathname, { cacheName: AUDIO_CACHE });
+  if (!cached) return fetch(request);
+
+  const range = request.headers.get('range');
+  if (!range) return cached;
+
+  // Blob slices are read lazily, so a seek doesn't load the whole file
+  const body = await cached.blob();
+  const size = body.size;
+  const match = /bytes=(\d*)-(\d*)/.exec(range);
+  if (!match) return cached;
+
+  let start = match[1] ? parseInt(match[1], 10) : 0;
+  let end = match[2] ? parseInt(match[2], 10) : size - 1;
+  if (!match[1] && match[2]) {
+    // Suffix range: last N bytes
+    start = Math.max(0, size - parseInt(match[2], 10));
+    end = size - 1;
+  }
+
+  if (start >= size || start > end) {
+    return new Response(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${size}` },
+    });
+  }
+
+  end = Math.min(end, size - 1);
+  return new Response(body.slice(start, end + 1), {
+    status: 206,
+    statusText: 'Partial Content',
+    headers: {
+      'Content-Type': cached.headers.get('Content-Type') || 'audio/mpeg',
+      'Content-Length': String(end - start + 1),
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
@@ -0,0 +1,266 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import type { Logger, Plugin } from 'vite';
+import { computePeaks } from '../src/utils/waveformPeaks';
+
+/**
+ * Waveform Peaks Plugin
+ *
+ * Decodes every MP3 under public/music at build time and emits peaks JSON
+ * for the waveform seek bar, so the browser doesn't have to download and
+ * decode a whole track just to draw it.
+ *
+ *   /music/vocal/05-VICE-vocal.mp3 -> /waveforms/vocal/05-VICE-vocal.json
+ *
+ * Each file holds the peaks at several resolutions (WAVEFORM_RESOLUTIONS).
+ * Decoding uses the ffmpeg CLI; without it (or without music files) nothing
+ * is emitted and the player decodes in the browser as before.
+ *
+ * Results are cached in .cache/waveforms and only regenerated when an MP3
+ * changes. The dev server serves them from there.
+ *
+ * The catalog also imports `virtual:waveform-peaks` - the DEFAULT_BARS
+ * resolution keyed by MP3 path - for getTrackWaveform, so the seek bar
+ * draws without any request at all.
+ *
+ * URL mapping and file format must stay in sync with src/utils/waveformPeaks.ts.
+ */
+
+const WAVEFORM_RESOLUTIONS = [100, 200, 400];
+const DEFAULT_BARS = 100; // what WaveformBar draws
+
+const VIRTUAL_MODULE_ID = 'virtual:waveform-peaks';
+const RESOLVED_VIRTUAL_MODULE_ID = '\0' + VIRTUAL_MODULE_ID;
+
+const PEAKS_FORMAT_VERSION = 1;
+const DECODE_SAMPLE_RATE = 8000; // plenty for a few hundred bars
+const CACHE_DIR = '.cache/waveforms';
+const WAVEFORMS_URL_PREFIX = '/waveforms/';
+
+interface WaveformPeaksFile {
+  formatVersion: number;
+  duration: number; // seconds
+  peaks: Record<string, number[]>; // keyed by bar count
+  source: { size: number; mtimeMs: number };
+}
+
+/**
+ * Decode an audio file to mono 32-bit float samples with ffmpeg
+ */
+function decodeToMono(file: string): Promise<Float32Array> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', [
+      '-v', 'error',
+      '-i', file,
+      '-f', 'f32le',
+      '-ac', '1',
+      '-ar', String(DECODE_SAMPLE_RATE),
+      '-',
+    ]);
+
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    ffmpeg.stderr.on('data', (chunk: Buffer) => (stderr += chunk.toString()));
+    ffmpeg.on('error', reject);
+    ffmpeg.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(stderr.trim() || `ffmpeg exited with code ${code}`));
+        return;
+      }
+      // Copy into an aligned buffer (Buffer.concat may return a pooled slice)
+      const data = Buffer.concat(chunks);
+      const byteLength = data.byteLength - (data.byteLength % 4);
+      resolve(new Float32Array(data.buffer.slice(data.byteOffset, data.byteOffset + byteLength)));
+    });
+  });
+}
+
+/**
+ * Peaks for one resolution, rounded to keep the JSON small
+ */
+function roundedPeaks(samples: Float32Array, bars: number): number[] {
+  return computePeaks(samples, bars).map((value) => Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Find MP3s under public/music (one folder per version)
+ * @returns Paths relative to public/music, e.g. "vocal/05-VICE-vocal.mp3"
+ */
+async function findAudioFiles(musicDir: string): Promise<string[]> {
+  const files: string[] = [];
+  const versions = await fs.readdir(musicDir, { withFileTypes: true }).catch(() => []);
+
+  for (const version of versions) {
+    if (!version.isDirectory()) continue;
+    const entries = await fs.readdir(path.join(musicDir, version.name));
+    for (const entry of entries) {
+      if (entry.toLowerCase().endsWith('.mp3')) {
+        files.push(`${version.name}/${entry}`);
+      }
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Read cached peaks if they were generated from the same file
+ */
+async function readCached(
+  cacheFile: string,
+  source: WaveformPeaksFile['source']
+): Promise<WaveformPeaksFile | null> {
+  try {
+    const cached = JSON.parse(await fs.readFile(cacheFile, 'utf-8')) as WaveformPeaksFile;
+    const isCurrent =
+      cached.formatVersion === PEAKS_FORMAT_VERSION &&
+      cached.source?.size === source.size &&
+      cached.source?.mtimeMs === source.mtimeMs;
+    return isCurrent ? cached : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Generate (or reuse) peaks for every MP3
+ * @returns Map of public URL (/waveforms/...) to cached JSON file
+ */
+async function generateAll(
+  publicDir: string,
+  cacheRoot: string,
+  logger: Logger
+): Promise<Map<string, string>> {
+  const musicDir = path.join(publicDir, 'music');
+  const generated = new Map<string, string>();
+  const files = await findAudioFiles(musicDir);
+
+  for (const file of files) {
+    const jsonPath = file.replace(/\.mp3$/i, '.json');
+    const cacheFile = path.join(cacheRoot, jsonPath);
+    const stats = await fs.stat(path.join(musicDir, file));
+    const source = { size: stats.size, mtimeMs: stats.mtimeMs };
+
+    if (!(await readCached(cacheFile, source))) {
+      let samples: Float32Array;
+      try {
+        samples = await decodeToMono(path.join(musicDir, file));
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ENOENT') {
+          logger.warn('[waveform-peaks] ffmpeg not found - waveforms will be decoded in the browser');
+          break;
+        }
+        logger.warn(`[waveform-peaks] Could not decode ${file}: ${(error as Error).message}`);
+        continue;
+      }
+
+      const peaksFile: WaveformPeaksFile = {
+        formatVersion: PEAKS_FORMAT_VERSION,
+        duration: Math.round((samples.length / DECODE_SAMPLE_RATE) * 100) / 100,
+        peaks: Object.fromEntries(
+          WAVEFORM_RESOLUTIONS.map((bars) => [String(bars), roundedPeaks(samples, bars)])
+        ),
+        source,
+      };
+
+      await fs.mkdir(path.dirname(cacheFile), { recursive: true });
+      await fs.writeFile(cacheFile, JSON.stringify(peaksFile));
+    }
+
+    generated.set(`${WAVEFORMS_URL_PREFIX}${jsonPath}`, cacheFile);
+  }
+
+  if (generated.size > 0) {
+    logger.info(`[waveform-peaks] ${generated.size} of ${files.length} waveforms ready`);
+  }
+
+  return generated;
+}
+
+/**
+ * Source of `virtual:waveform-peaks`: DEFAULT_BARS peaks per MP3 path
+ */
+async function buildPeaksModule(generated: Map<string, string>): Promise<string> {
+  const peaksByFile: Record<string, number[]> = {};
+
+  for (const [url, cacheFile] of generated) {
+    const peaksFile = JSON.parse(await fs.readFile(cacheFile, 'utf-8')) as WaveformPeaksFile;
+    const peaks = peaksFile.peaks[String(DEFAULT_BARS)];
+    if (peaks) {
+      peaksByFile[url.replace(/^\/waveforms\//, '/music/').replace(/\.json$/, '.mp3')] = peaks;
+    }
+  }
+
+  return `export default ${JSON.stringify(peaksByFile)};`;
+}
+
+export function waveformPeaks(): Plugin {
+  let publicDir = '';
+  let cacheRoot = '';
+  let logger: Logger;
+  let ready: Promise<Map<string, string>> = Promise.resolve(new Map());
+
+  return {
+    name: 'primeape-waveform-peaks',
+
+    configResolved(config) {
+      publicDir = config.publicDir;
+      cacheRoot = path.resolve(config.root, CACHE_DIR);
+      logger = config.logger;
+    },
+
+    buildStart() {
+      if (!publicDir) return;
+      // Awaited by the virtual module, so the dev server can start meanwhile
+      ready = generateAll(publicDir, cacheRoot, logger);
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_MODULE_ID ? RESOLVED_VIRTUAL_MODULE_ID : undefined;
+    },
+
+    async load(id) {
+      if (id !== RESOLVED_VIRTUAL_MODULE_ID) return undefined;
+      return buildPeaksModule(await ready);
+    },
+
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const url = req.url?.split('?')[0];
+        // Everything else is served while the peaks are still being generated
+        if (!url?.startsWith(WAVEFORMS_URL_PREFIX)) {
+          next();
+          return;
+        }
+
+        try {
+          const cacheFile = (await ready).get(url);
+          if (!cacheFile) {
+            next();
+            return;
+          }
+          const data = await fs.readFile(cacheFile);
+          res.setHeader('Content-Type', 'application/json');
+          res.end(data);
+        } catch (error) {
+          next(error);
+        }
+      });
+    },
+
+    async generateBundle() {
+      for (const [url, cacheFile] of await ready) {
+        const peaksFile = JSON.parse(await fs.readFile(cacheFile, 'utf-8')) as Partial<WaveformPeaksFile>;
+        delete peaksFile.source; // only needed for the cache
+
+        this.emitFile({
+          type: 'asset',
+          fileName: url.slice(1),
+          source: JSON.stringify(peaksFile),
+        });
+      }
+    },
+  };
+}
@@ -4,12 +4,13 @@ import PlayerSection from './components/PlayerSection/PlayerSection';
 import ContentSections from './components/ContentSections/ContentSections';
 import './styles/global.css';
 import { trackSectionView, initializeAnalytics } from '@/utils/analytics';
+import type { QueueActions, QueueItem, TrackId } from '@/types';
 
 /**
  * App Component
  *
  * Root component of the application.
- * Manages shared player state for PlayerSection and ContentSections (mobile tracklist).
+ * Manages shared player state for PlayerSection and ContentSections (mobile tracklist and queue).
  *
  * Phase 1: ✓ Basic layout structure
  * Phase 2: ✓ Music player with playback controls
@@ -23,17 +24,24 @@ import { trackSectionView, initializeAnalytics } from '@/utils/analytics';
 const App: React.FC = () => {
   // State lifted from PlayerSection for sharing with mobile tracklist
   const [playerState, setPlayerState] = React.useState<{
-    currentTrackId: number | null;
+    currentTrackId: TrackId | null;
     isPlaying: boolean;
     isLoading: boolean;
+    queue: QueueItem[];
+    upcomingTrackIds: TrackId[];
   }>({
     currentTrackId: null,
     isPlaying: false,
     isLoading: false,
+    queue: [],
+    upcomingTrackIds: [],
   });
 
   // Ref to store the Player's track selection handler
-  const trackSelectHandlerRef = React.useRef<((trackId: number) => void) | null>(null);
+  const trackSelectHandlerRef = React.useRef<((trackId: TrackId, startTime?: number) => void) | null>(null);
+
+  // Ref to store the Player's queue controls
+  const queueActionsRef = React.useRef<QueueActions | null>(null);
 
   // Track which sections have been viewed (prevent duplicate events)
   const viewedSectionsRef = useRef<Set<string>>(new Set());
@@ -73,25 +81,39 @@ const App: React.FC = () => {
     return () => observer.disconnect();
   }, []);
 
-  // Callback for track selection from mobile tracklist
-  const handleTrackSelect = React.useCallback((trackId: number) => {
+  // Callback for track selection (and lyric search hits) from mobile tracklist
+  const handleTrackSelect = React.useCallback((trackId: TrackId, startTime?: number) => {
     // Call the Player's actual track selection handler
     if (trackSelectHandlerRef.current) {
-      trackSelectHandlerRef.current(trackId);
+      trackSelectHandlerRef.current(trackId, startTime);
     }
   }, []);
 
+  // Queue controls for the mobile tracklist, forwarded to the Player's
+  const queueActions = React.useMemo<QueueActions>(() => ({
+    playNext: (trackId) => queueActionsRef.current?.playNext(trackId),
+    addToQueue: (trackId) => queueActionsRef.current?.addToQueue(trackId),
+    playQueueItem: (key) => queueActionsRef.current?.playQueueItem(key),
+    removeFromQueue: (key) => queueActionsRef.current?.removeFromQueue(key),
+    moveQueueItem: (fromIndex, toIndex) => queueActionsRef.current?.moveQueueItem(fromIndex, toIndex),
+    clearQueue: () => queueActionsRef.current?.clearQueue(),
+  }), []);
+
   return (
     <Layout>
       <PlayerSection 
         onPlayerStateChange={setPlayerState}
         trackSelectHandlerRef={trackSelectHandlerRef}
+        queueActionsRef={queueActionsRef}
       />
       <ContentSections 
         currentTrackId={playerState.currentTrackId}
         isPlaying={playerState.isPlaying}
         isLoading={playerState.isLoading}
+        queue={playerState.queue}
+        upcomingTrackIds={playerState.upcomingTrackIds}
         onTrackSelect={handleTrackSelect}
+        queueActions={queueActions}
       />
     </Layout>
   );
@@ -4,21 +4,27 @@ import MerchSection from '../Merch/MerchSection';
 import ShowsSection from './ShowsSection';
 import ContactSection from './ContactSection';
 import Tracklist from '../Tracklist/Tracklist';
-import { FOUNDATION_ALBUM } from '../../data/album';
+import QueueView from '../Queue/QueueView';
+import ListTabs, { type ListView } from '../Queue/ListTabs';
+import { getAlbumForTrack, getTrackById, DEFAULT_ALBUM } from '../../data/catalog';
+import type { QueueActions, QueueItem, TrackId } from '@/types';
 import './ContentSections.css';
 
 interface ContentSectionsProps {
-  currentTrackId: number | null;
+  currentTrackId: TrackId | null;
   isPlaying: boolean;
   isLoading: boolean;
-  onTrackSelect: (trackId: number) => void;
+  queue: QueueItem[];
+  upcomingTrackIds: TrackId[];
+  onTrackSelect: (trackId: TrackId, startTime?: number) => void; // startTime: lyric search hit
+  queueActions: QueueActions;
 }
 
 /**
  * ContentSections Component
  *
  * Wrapper for all content sections below the player.
- * Renders sections in order: Tracklist (mobile only) → Media Links → About → Merch → Shows → Contact → Footer
+ * Renders sections in order: Tracklist / Queue (mobile only) → Media Links → About → Merch → Shows → Contact → Footer
  *
  * Phase 6A: ✓ Basic structure
  * Phase 6B: ✓ MediaLinksBar
@@ -27,13 +33,24 @@ interface ContentSectionsProps {
  * Phase 6E: ✓ ContactSection with Netlify Forms
  * Phase 7: ✓ MerchSection with product grid and purchase flow
  * Mobile Enhancement: ✓ Tracklist visible below player on mobile
+ * Mobile Enhancement: ✓ Play queue tab next to the mobile tracklist
  */
 const ContentSections: React.FC<ContentSectionsProps> = ({
   currentTrackId,
   isPlaying,
   isLoading,
+  queue,
+  upcomingTrackIds,
   onTrackSelect,
+  queueActions,
 }) => {
+  // Mobile tracklist follows whichever release the player has loaded
+  const currentAlbum = (currentTrackId && getAlbumForTrack(currentTrackId)) || DEFAULT_ALBUM;
+  const currentTrack = (currentTrackId && getTrackById(currentTrackId)) || null;
+
+  // Mobile box shows either the release tracklist or the play queue
+  const [listView, setListView] = React.useState<ListView>('tracklist');
+
   // Ref for scroll target (contact section)
   const contactRef = React.useRef<HTMLElement>(null);
 
@@ -51,15 +68,36 @@ const ContentSections: React.FC<ContentSectionsProps> = ({
 
   return (
     <div className="content-sections">
-      {/* Mobile Tracklist - only visible on tablet/mobile */}
+      {/* Mobile Tracklist / Queue - only visible on tablet/mobile */}
       <div className="content-sections__mobile-tracklist">
-        <Tracklist
-          tracks={FOUNDATION_ALBUM.tracks}
-          currentTrackId={currentTrackId}
-          isPlaying={isPlaying}
-          isLoading={isLoading}
-          onTrackSelect={onTrackSelect}
-        />
+        <ListTabs view={listView} queueLength={queue.length} onChange={setListView} />
+
+        <div className="content-sections__list-panel" role="tabpanel">
+          {listView === 'tracklist' ? (
+            <Tracklist
+              tracks={currentAlbum.tracks}
+              currentTrackId={currentTrackId}
+              isPlaying={isPlaying}
+              isLoading={isLoading}
+              onTrackSelect={onTrackSelect}
+              onPlayNext={queueActions.playNext}
+              onAddToQueue={queueActions.addToQueue}
+              onLyricSelect={onTrackSelect}
+            />
+          ) : (
+            <QueueView
+              currentTrack={currentTrack}
+              queue={queue}
+              upcomingTrackIds={upcomingTrackIds}
+              contextTitle={currentAlbum.title}
+              onPlayQueueItem={queueActions.playQueueItem}
+              onRemove={queueActions.removeFromQueue}
+              onMove={queueActions.moveQueueItem}
+              onClear={queueActions.clearQueue}
+              onTrackSelect={onTrackSelect}
+            />
+          )}
+        </div>
       </div>
 
       <MediaLinksBar />
@@ -102,6 +102,54 @@ const KeyboardShortcutsHelp: React.FC = () => {
               <span>Cycle repeat</span>
             </div>
           </div>
+
+          <div className="keyboard-shortcuts-help__section">
+            <h3>Lyrics</h3>
+            <div className="keyboard-shortcuts-help__item">
+              <kbd>[</kbd>
+              <span>Sync earlier 0.1s</span>
+            </div>
+            <div className="keyboard-shortcuts-help__item">
+              <kbd>]</kbd>
+              <span>Sync later 0.1s</span>
+            </div>
+          </div>
+
+          <div className="keyboard-shortcuts-help__section">
+            <h3>Loop &amp; Bookmarks</h3>
+            <div className="keyboard-shortcuts-help__item">
+              <kbd>A / B</kbd>
+              <span>Loop start / end here</span>
+            </div>
+            <div className="keyboard-shortcuts-help__item">
+              <kbd>L</kbd>
+              <span>Clear loop</span>
+            </div>
+            <div className="keyboard-shortcuts-help__item">
+              <kbd>Shift + drag</kbd>
+              <span>Loop a section on the waveform</span>
+            </div>
+            <div className="keyboard-shortcuts-help__item">
+              <kbd>K</kbd>
+              <span>Bookmark this position</span>
+            </div>
+            <div className="keyboard-shortcuts-help__item">
+              <kbd>1–9</kbd>
+              <span>Jump to bookmark</span>
+            </div>
+          </div>
+
+          <div className="keyboard-shortcuts-help__section">
+            <h3>Queue</h3>
+            <div className="keyboard-shortcuts-help__item">
+              <kbd>Alt + ↑/↓</kbd>
+              <span>Move focused entry</span>
+            </div>
+            <div className="keyboard-shortcuts-help__item">
+              <kbd>Del</kbd>
+              <span>Remove focused entry</span>
+            </div>
+          </div>
         </div>
 
         <p className="keyboard-shortcuts-help__footer">
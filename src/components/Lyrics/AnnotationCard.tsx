@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import type { LyricAnnotation } from '@/types';
+import { buildDeepLink } from '@/utils/deepLink';
+import './AnnotationCard.css';
+
+interface AnnotationCardProps {
+  annotation: LyricAnnotation;
+  lineText?: string;
+  onClose: () => void;
+  onJumpToLine?: () => void;
+}
+
+/**
+ * AnnotationCard Component
+ *
+ * Liner-notes card over the lyrics panel: the annotated line, the
+ * explanation, sources and an optional image. The link opens the same card
+ * for whoever it is shared with (?note=<line>).
+ *
+ * @param annotation - Annotation to show
+ * @param lineText - Text of the annotated lyric line
+ * @param onClose - Close the card (also on Escape)
+ * @param onJumpToLine - Seek to the annotated line
+ */
+const AnnotationCard: React.FC<AnnotationCardProps> = ({
+  annotation,
+  lineText,
+  onClose,
+  onJumpToLine,
+}) => {
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+
+  // New annotation - reset the copy feedback
+  useEffect(() => {
+    setCopyState('idle');
+  }, [annotation]);
+
+  // Close on escape key
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildDeepLink({ trackId: annotation.trackId, note: annotation.line }));
+      setCopyState('copied');
+    } catch (error) {
+      console.error('Copy failed:', error);
+      setCopyState('failed');
+    }
+  };
+
+  return (
+    <aside className="annotation-card" aria-label={`Note: ${annotation.title}`}>
+      <div className="annotation-card__header">
+        <h4 className="annotation-card__title">{annotation.title}</h4>
+        <button className="annotation-card__close" onClick={onClose} aria-label="Close note">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <line x1="18" y1="6" x2="6" y2="18" />
+            <line x1="6" y1="6" x2="18" y2="18" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="annotation-card__body">
+        {lineText && <blockquote className="annotation-card__quote">{lineText}</blockquote>}
+
+        {annotation.body.split(/\n\s*\n/).map((paragraph, index) => (
+          <p key={index} className="annotation-card__text">
+            {paragraph}
+          </p>
+        ))}
+
+        {annotation.image && (
+          <figure className="annotation-card__figure">
+            <img src={annotation.image.src} alt={annotation.image.alt} loading="lazy" />
+            {annotation.image.caption && <figcaption>{annotation.image.caption}</figcaption>}
+          </figure>
+        )}
+
+        {annotation.references && annotation.references.length > 0 && (
+          <ul className="annotation-card__references">
+            {annotation.references.map((reference) => (
+              <li key={reference.label}>
+                {reference.url ? (
+                  <a href={reference.url} target="_blank" rel="noopener noreferrer">
+                    {reference.label}
+                  </a>
+                ) : (
+                  reference.label
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="annotation-card__actions">
+        {onJumpToLine && (
+          <button className="annotation-card__action" onClick={onJumpToLine}>
+            Play line {annotation.line}
+          </button>
+        )}
+        <button className="annotation-card__action" onClick={handleCopyLink}>
+          {copyState === 'copied' ? 'Copied!' : copyState === 'failed' ? 'Copy failed' : 'Copy link'}
+        </button>
+      </div>
+    </aside>
+  );
+};
+
+export default AnnotationCard;
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import type { LyricAnnotation } from '@/types';
+import { searchAnnotations } from '@/data/annotations';
+import { getTrackById } from '@/data/catalog';
+import './AnnotationIndex.css';
+
+interface AnnotationIndexProps {
+  onSelect: (annotation: LyricAnnotation) => void;
+}
+
+/**
+ * AnnotationIndex Component
+ *
+ * Searchable list of every liner note in the catalog, shown in the lyrics
+ * panel. Picking one opens its track and card.
+ *
+ * @param onSelect - Called with the chosen annotation
+ */
+const AnnotationIndex: React.FC<AnnotationIndexProps> = ({ onSelect }) => {
+  const [query, setQuery] = useState('');
+  const results = searchAnnotations(query);
+
+  return (
+    <div className="annotation-index">
+      <input
+        className="annotation-index__search"
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search notes…"
+        aria-label="Search notes"
+      />
+
+      {results.length === 0 ? (
+        <p className="annotation-index__empty">No notes match “{query}”</p>
+      ) : (
+        <ul className="annotation-index__list">
+          {results.map((annotation) => (
+            <li key={`${annotation.trackId}-${annotation.line}`}>
+              <button className="annotation-index__item" onClick={() => onSelect(annotation)}>
+                <span className="annotation-index__title">{annotation.title}</span>
+                <span className="annotation-index__meta">
+                  {getTrackById(annotation.trackId)?.title ?? annotation.trackId} · line {annotation.line}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationIndex;
@@ -0,0 +1,41 @@
+import React from 'react';
+import type { LyricWord } from '@/types';
+import { getWordProgress } from '@/utils/lrcParser';
+import './KaraokeWords.css';
+
+interface KaraokeWordsProps {
+  words: LyricWord[];
+  lineEnd?: number; // next line's time
+  currentTime: number;
+}
+
+/**
+ * KaraokeWords Component
+ * 
+ * Renders an Enhanced LRC line word by word, filling each word with the
+ * active color as it is sung. Only used for the current line.
+ */
+const KaraokeWords: React.FC<KaraokeWordsProps> = ({
+  words,
+  lineEnd,
+  currentTime,
+}) => {
+  return (
+    <>
+      {words.map((word, index) => {
+        const progress = getWordProgress(words, index, lineEnd, currentTime);
+        return (
+          <span
+            key={index}
+            className={`karaoke-word ${progress >= 1 ? 'karaoke-word--sung' : ''}`}
+            style={{ backgroundSize: `${(progress * 100).toFixed(1)}% 100%, 100% 100%` }}
+          >
+            {word.text}
+          </span>
+        );
+      })}
+    </>
+  );
+};
+
+export default KaraokeWords;
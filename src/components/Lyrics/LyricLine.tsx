@@ -1,5 +1,6 @@
 import React from 'react';
-import type { LyricLine as LyricLineType } from '@/types';
+import type { LyricAnnotation, LyricLine as LyricLineType } from '@/types';
+import KaraokeWords from './KaraokeWords';
 import './LyricLine.css';
 
 interface LyricLineProps {
@@ -7,25 +8,60 @@ interface LyricLineProps {
   isCurrent: boolean;
   isUpcoming: boolean;
   onClick?: () => void;
+  currentTime?: number; // only passed to the current line (word fill)
+  lineEnd?: number; // next line's time
+  translation?: string; // dual-line mode: shown under the original
+  annotation?: LyricAnnotation;
+  onAnnotationClick?: () => void;
 }
 
 /**
  * LyricLine Component
  * 
  * Single line of lyrics with highlighting
+ * Enhanced LRC lines fill word by word while current.
+ * Annotated lines get a note button that opens the annotation card.
+ * In dual-line mode the translation sits underneath.
  */
 const LyricLine: React.FC<LyricLineProps> = ({
   line,
   isCurrent,
   isUpcoming,
   onClick,
+  currentTime,
+  lineEnd,
+  translation,
+  annotation,
+  onAnnotationClick,
 }) => {
   return (
     <div
-      className={`lyric-line ${isCurrent ? 'lyric-line--current' : ''} ${isUpcoming ? 'lyric-line--upcoming' : ''}`}
+      className={`lyric-line ${isCurrent ? 'lyric-line--current' : ''} ${isUpcoming ? 'lyric-line--upcoming' : ''} ${annotation ? 'lyric-line--annotated' : ''}`}
       onClick={onClick}
     >
-      {line.text || '\u00A0'} {/* Non-breaking space for empty lines */}
+      {isCurrent && line.words && currentTime !== undefined ? (
+        <KaraokeWords words={line.words} lineEnd={lineEnd} currentTime={currentTime} />
+      ) : (
+        line.text || '\u00A0' /* Non-breaking space for empty lines */
+      )}
+      {annotation && (
+        <button
+          className="lyric-line__note"
+          onClick={(e) => {
+            e.stopPropagation(); // don't seek
+            onAnnotationClick?.();
+          }}
+          aria-label={`Note: ${annotation.title}`}
+          title={annotation.title}
+        >
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <circle cx="12" cy="12" r="10" />
+            <line x1="12" y1="16" x2="12" y2="12" />
+            <line x1="12" y1="8" x2="12.01" y2="8" />
+          </svg>
+        </button>
+      )}
+      {translation && <span className="lyric-line__translation">{translation}</span>}
     </div>
   );
 };
@@ -0,0 +1,70 @@
+import React from 'react';
+import { LYRIC_OFFSET_STEP } from '@/hooks/useLyricOffset';
+import './LyricOffsetControl.css';
+
+interface LyricOffsetControlProps {
+  offset: number; // seconds, positive = lyrics later
+  isPerTrack: boolean;
+  onAdjust: (delta: number) => void;
+  onReset: () => void;
+  onPerTrackChange: (perTrack: boolean) => void;
+}
+
+const formatOffset = (offset: number): string =>
+  `${offset > 0 ? '+' : offset < 0 ? '−' : '±'}${Math.abs(offset).toFixed(1)}s`;
+
+/**
+ * LyricOffsetControl Component
+ *
+ * Sync calibration at the foot of the lyrics panel: nudge the lyrics
+ * earlier or later ([ and ] on the keyboard), for this device or just
+ * this track.
+ */
+const LyricOffsetControl: React.FC<LyricOffsetControlProps> = ({
+  offset,
+  isPerTrack,
+  onAdjust,
+  onReset,
+  onPerTrackChange,
+}) => {
+  return (
+    <div className="lyric-offset" role="group" aria-label="Lyrics sync">
+      <span className="lyric-offset__label">Sync</span>
+      <button
+        className="lyric-offset__button"
+        onClick={() => onAdjust(-LYRIC_OFFSET_STEP)}
+        aria-label="Show lyrics earlier"
+        title="Lyrics earlier ([)"
+      >
+        −
+      </button>
+      <button
+        className="lyric-offset__value"
+        onClick={onReset}
+        disabled={offset === 0}
+        aria-label={`Lyrics offset ${formatOffset(offset)}, reset`}
+        title="Reset"
+      >
+        {formatOffset(offset)}
+      </button>
+      <button
+        className="lyric-offset__button"
+        onClick={() => onAdjust(LYRIC_OFFSET_STEP)}
+        aria-label="Show lyrics later"
+        title="Lyrics later (])"
+      >
+        +
+      </button>
+      <label className="lyric-offset__scope">
+        <input
+          type="checkbox"
+          checked={isPerTrack}
+          onChange={(e) => onPerTrackChange(e.target.checked)}
+        />
+        This track only
+      </label>
+    </div>
+  );
+};
+
+export default LyricOffsetControl;
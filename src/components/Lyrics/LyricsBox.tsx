@@ -1,6 +1,7 @@
 import React, { useRef, useEffect } from 'react';
 import type { LyricLine as LyricLineType } from '@/types';
 import { useLyricsSync, smoothScrollToElement } from '@/hooks/useLyricsSync';
+import KaraokeWords from './KaraokeWords';
 import './LyricsBox.css';
 
 interface LyricsBoxProps {
@@ -8,24 +9,40 @@ interface LyricsBoxProps {
   currentTime: number;
   isPlaying: boolean;
   isVisible: boolean;
+  lyricsOffset?: number; // listener's sync correction (seconds)
+  isPracticeMode?: boolean; // large text with a count-in before each line
 }
 
+// Practice mode count-in length (seconds = dots)
+const COUNT_IN_SECONDS = 3;
+
 /**
  * LyricsBox Component
  * 
  * Compact lyrics display between artwork and controls
  * Shows 3-4 lines with current line centered
+ * (during instrumental breaks, a marker takes the current line's place)
+ * In practice mode the text is larger and, whenever nothing is being sung,
+ * dots count down the last seconds to the next line.
  */
 const LyricsBox: React.FC<LyricsBoxProps> = ({
   lines,
   currentTime,
   isPlaying,
   isVisible,
+  lyricsOffset = 0,
+  isPracticeMode = false,
 }) => {
   const boxRef = useRef<HTMLDivElement>(null);
 
   // Use sync hook (auto-scroll always enabled for box)
-  const { currentLineIndex } = useLyricsSync(lines, currentTime, isPlaying);
+  const {
+    lyricsTime,
+    currentLineIndex,
+    upcomingLineIndex,
+    lineEnds,
+    isInstrumentalBreak,
+  } = useLyricsSync(lines, currentTime, isPlaying, lyricsOffset);
 
   // Auto-scroll to keep current line centered
   useEffect(() => {
@@ -37,26 +54,64 @@ const LyricsBox: React.FC<LyricsBoxProps> = ({
     if (box && currentLine) {
       smoothScrollToElement(currentLine, box);
     }
-  }, [currentLineIndex, isVisible]);
+  }, [currentLineIndex, isInstrumentalBreak, isVisible]);
 
   if (!isVisible || lines.length === 0) return null;
 
+  // During a break, center on the gap before the next line
+  const breakBeforeIndex = isInstrumentalBreak
+    ? (upcomingLineIndex === -1 ? lines.length : upcomingLineIndex)
+    : null;
+  const centerIndex = breakBeforeIndex ?? currentLineIndex;
+
+  // Count in to the next line (only after the current one has ended)
+  const isIdle = currentLineIndex === -1 || lyricsTime >= lineEnds[currentLineIndex];
+  const untilNext = upcomingLineIndex === -1 ? Infinity : lines[upcomingLineIndex].time - lyricsTime;
+  const countIn = isPracticeMode && isIdle && untilNext > 0 && untilNext <= COUNT_IN_SECONDS
+    ? Math.ceil(untilNext)
+    : 0;
+
   // Show 2 lines before and after current (5 total)
   const visibleLines = [];
-  for (let i = Math.max(0, currentLineIndex - 2); i <= Math.min(lines.length - 1, currentLineIndex + 2); i++) {
+  for (let i = Math.max(0, centerIndex - 2); i <= Math.min(lines.length - 1, centerIndex + 2); i++) {
     visibleLines.push({ ...lines[i], index: i });
   }
+  const breakMarker = (
+    <div key="instrumental-break" className="lyrics-box__line lyrics-box__line--current lyrics-box__line--break">
+      ♪ Instrumental
+    </div>
+  );
 
   return (
-    <div ref={boxRef} className="lyrics-box">
-      {visibleLines.map((line, _idx) => (
+    <div ref={boxRef} className={`lyrics-box ${isPracticeMode ? 'lyrics-box--practice' : ''}`}>
+      {visibleLines.map((line) => [
+        line.index === breakBeforeIndex && breakMarker,
+        line.index === upcomingLineIndex && countIn > 0 && (
+          <div key="count-in" className="lyrics-box__count-in" aria-hidden="true">
+            {Array.from({ length: COUNT_IN_SECONDS }, (_, i) => (
+              <span
+                key={i}
+                className={`lyrics-box__count-in-dot ${i < countIn ? 'lyrics-box__count-in-dot--lit' : ''}`}
+              />
+            ))}
+          </div>
+        ),
         <div
           key={line.index}
           className={`lyrics-box__line ${line.index === currentLineIndex ? 'lyrics-box__line--current' : ''}`}
         >
-          {line.text || '\u00A0'}
-        </div>
-      ))}
+          {line.index === currentLineIndex && line.words ? (
+            <KaraokeWords
+              words={line.words}
+              lineEnd={lineEnds[line.index]}
+              currentTime={lyricsTime}
+            />
+          ) : (
+            line.text || '\u00A0'
+          )}
+        </div>,
+      ])}
+      {breakBeforeIndex === lines.length && breakMarker}
     </div>
   );
 };
@@ -1,7 +1,10 @@
-import React, { useRef, useEffect } from 'react';
-import type { LyricLine as LyricLineType } from '@/types';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import type { LyricAnnotation, LyricLine as LyricLineType } from '@/types';
 import { useLyricsSync, smoothScrollToElement } from '@/hooks/useLyricsSync';
 import LyricLine from './LyricLine';
+import AnnotationCard from './AnnotationCard';
+import AnnotationIndex from './AnnotationIndex';
+import LyricOffsetControl from './LyricOffsetControl';
 import './LyricsPanel.css';
 
 interface LyricsPanelProps {
@@ -16,6 +19,15 @@ interface LyricsPanelProps {
   onPrevious?: () => void;
   onNext?: () => void;
   playbackState?: 'playing' | 'paused' | 'loading' | 'stopped';
+  translations?: (string | undefined)[]; // dual-line mode: one per line
+  lyricsOffset?: number; // listener's sync correction (seconds)
+  isLyricsOffsetPerTrack?: boolean;
+  onLyricsOffsetAdjust?: (delta: number) => void; // shows the sync controls
+  onLyricsOffsetReset?: () => void;
+  onLyricsOffsetPerTrackChange?: (perTrack: boolean) => void;
+  annotations?: ReadonlyMap<number, LyricAnnotation>; // keyed by 1-based line
+  openAnnotation?: LyricAnnotation | null;
+  onAnnotationOpen?: (annotation: LyricAnnotation | null) => void; // null closes the card
 }
 
 /**
@@ -23,6 +35,11 @@ interface LyricsPanelProps {
  * 
  * Side panel (desktop) or bottom panel (mobile) with full lyrics
  * Auto-scrolls to current line
+ * Dual-line mode shows each line's translation underneath.
+ * Sync controls at the bottom shift the lyrics against the audio.
+ * Long gaps between lines show an "Instrumental" marker instead.
+ * Annotated lines open a liner-notes card; "Notes" lists and searches
+ * every annotation in the catalog.
  */
 const LyricsPanel: React.FC<LyricsPanelProps> = ({
   lines,
@@ -36,7 +53,17 @@ const LyricsPanel: React.FC<LyricsPanelProps> = ({
   onPrevious,
   onNext,
   playbackState = 'paused',
+  translations,
+  lyricsOffset = 0,
+  isLyricsOffsetPerTrack = false,
+  onLyricsOffsetAdjust,
+  onLyricsOffsetReset,
+  onLyricsOffsetPerTrackChange,
+  annotations,
+  openAnnotation = null,
+  onAnnotationOpen,
 }) => {
+  const [showNotes, setShowNotes] = useState(false);
   const panelRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null); // Add ref for scrollable content
   const isUserScrollingRef = useRef(false);
@@ -44,11 +71,14 @@ const LyricsPanel: React.FC<LyricsPanelProps> = ({
 
   // Use sync hook
   const {
+    lyricsTime,
     currentLineIndex,
     upcomingLineIndex,
+    lineEnds,
+    isInstrumentalBreak,
     isAutoScrollEnabled,
     setAutoScrollEnabled,
-  } = useLyricsSync(lines, currentTime, isPlaying);
+  } = useLyricsSync(lines, currentTime, isPlaying, lyricsOffset);
 
   // Detect user scroll
   const handleScroll = () => {
@@ -66,17 +96,17 @@ const LyricsPanel: React.FC<LyricsPanelProps> = ({
     }, 3000);
   };
 
-  // Auto-scroll to current line
+  // Auto-scroll to current line (or the break marker)
   useEffect(() => {
-    if (!isVisible || currentLineIndex === -1 || !isAutoScrollEnabled) return;
+    if (!isVisible || (currentLineIndex === -1 && !isInstrumentalBreak) || !isAutoScrollEnabled) return;
 
     const content = contentRef.current; // Use content ref instead of panel ref
-    const currentLine = content?.querySelector('.lyric-line--current') as HTMLElement;
+    const currentLine = content?.querySelector('.lyric-line--current, .lyrics-panel__break') as HTMLElement;
 
     if (content && currentLine && !isUserScrollingRef.current) {
       smoothScrollToElement(currentLine, content); // Pass the scrollable container
     }
-  }, [currentLineIndex, isVisible, isAutoScrollEnabled]);
+  }, [currentLineIndex, isInstrumentalBreak, isVisible, isAutoScrollEnabled]);
 
   // Cleanup
   useEffect(() => {
@@ -87,8 +117,27 @@ const LyricsPanel: React.FC<LyricsPanelProps> = ({
     };
   }, []);
 
+  const closeAnnotation = useCallback(() => onAnnotationOpen?.(null), [onAnnotationOpen]);
+
+  const handleNoteSelect = (annotation: LyricAnnotation) => {
+    setShowNotes(false);
+    onAnnotationOpen?.(annotation);
+  };
+
   if (!isVisible) return null;
 
+  const annotatedLine = openAnnotation ? lines[openAnnotation.line - 1] : undefined;
+
+  // During a break the marker sits before the next line (after the last at the outro)
+  const breakBeforeIndex = isInstrumentalBreak
+    ? (upcomingLineIndex === -1 ? lines.length : upcomingLineIndex)
+    : null;
+  const breakMarker = (
+    <div key="instrumental-break" className="lyrics-panel__break" aria-live="polite">
+      ♪ Instrumental
+    </div>
+  );
+
   return (
     <>
       {/* Overlay backdrop (mobile) */}
@@ -98,7 +147,16 @@ const LyricsPanel: React.FC<LyricsPanelProps> = ({
       <div ref={panelRef} className={`lyrics-panel ${isMobile ? 'lyrics-panel--mobile' : ''}`}>
         {/* Header with optional mobile controls */}
         <div className="lyrics-panel__header">
-          <h3 className="lyrics-panel__title">Lyrics</h3>
+          <h3 className="lyrics-panel__title">{showNotes ? 'Notes' : 'Lyrics'}</h3>
+          {onAnnotationOpen && (
+            <button
+              className={`lyrics-panel__notes-toggle ${showNotes ? 'lyrics-panel__notes-toggle--active' : ''}`}
+              onClick={() => setShowNotes((prev) => !prev)}
+              aria-pressed={showNotes}
+            >
+              Notes
+            </button>
+          )}
           <button
             className="lyrics-panel__close"
             onClick={onClose}
@@ -157,20 +215,49 @@ const LyricsPanel: React.FC<LyricsPanelProps> = ({
 
         {/* Lyrics content */}
         <div ref={contentRef} className="lyrics-panel__content" onScroll={handleScroll}>
-          {lines.length === 0 ? (
+          {showNotes ? (
+            <AnnotationIndex onSelect={handleNoteSelect} />
+          ) : lines.length === 0 ? (
             <p className="lyrics-panel__empty">No lyrics available</p>
           ) : (
-            lines.map((line, index) => (
+            lines.map((line, index) => [
+              index === breakBeforeIndex && breakMarker,
               <LyricLine
                 key={index}
                 line={line}
                 isCurrent={index === currentLineIndex}
                 isUpcoming={index === upcomingLineIndex}
                 onClick={() => onLineClick?.(line.time)}
-              />
-            ))
+                currentTime={index === currentLineIndex && line.words ? lyricsTime : undefined}
+                lineEnd={lineEnds[index]}
+                translation={translations?.[index]}
+                annotation={annotations?.get(index + 1)}
+                onAnnotationClick={() => onAnnotationOpen?.(annotations?.get(index + 1) ?? null)}
+              />,
+            ]).concat(breakBeforeIndex === lines.length ? [breakMarker] : [])
           )}
         </div>
+
+        {/* Sync calibration */}
+        {onLyricsOffsetAdjust && onLyricsOffsetReset && onLyricsOffsetPerTrackChange && !showNotes && lines.length > 0 && (
+          <LyricOffsetControl
+            offset={lyricsOffset}
+            isPerTrack={isLyricsOffsetPerTrack}
+            onAdjust={onLyricsOffsetAdjust}
+            onReset={onLyricsOffsetReset}
+            onPerTrackChange={onLyricsOffsetPerTrackChange}
+          />
+        )}
+
+        {/* Liner notes */}
+        {openAnnotation && !showNotes && (
+          <AnnotationCard
+            annotation={openAnnotation}
+            lineText={annotatedLine?.text}
+            onClose={closeAnnotation}
+            onJumpToLine={annotatedLine && onLineClick ? () => onLineClick(annotatedLine.time) : undefined}
+          />
+        )}
       </div>
     </>
   );
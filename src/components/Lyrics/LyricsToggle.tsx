@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import type { LyricsDisplayState } from '@/types';
 import './LyricsToggle.css';
 
@@ -6,19 +6,80 @@ interface LyricsToggleProps {
   displayState: LyricsDisplayState;
   hasLyrics: boolean;
   onToggle: () => void;
+  languages?: string[]; // original first; the picker shows with 2+
+  language?: string | null;
+  onLanguageChange?: (language: string) => void;
+  isDualLine?: boolean;
+  onDualLineToggle?: () => void;
 }
 
+/**
+ * Language name in that language (e.g. 'es' -> "español")
+ */
+const getLanguageName = (code: string): string => {
+  try {
+    return new Intl.DisplayNames([code], { type: 'language' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+};
+
 /**
  * LyricsToggle Component
  * 
  * Button to toggle between lyrics display states
  * Shows current state with visual indicator
+ * Tracks with translations get a language picker next to it, with the
+ * option to show the original and the translation together.
  */
 const LyricsToggle: React.FC<LyricsToggleProps> = ({
   displayState,
   hasLyrics,
   onToggle,
+  languages = [],
+  language = null,
+  onLanguageChange,
+  isDualLine = false,
+  onDualLineToggle,
 }) => {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const pickerRef = useRef<HTMLDivElement>(null);
+  const hasTranslations = hasLyrics && languages.length > 1 && !!onLanguageChange;
+
+  // Close picker when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
+        setIsPickerOpen(false);
+      }
+    };
+
+    if (isPickerOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isPickerOpen]);
+
+  // Close picker on escape key
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsPickerOpen(false);
+      }
+    };
+
+    if (isPickerOpen) {
+      document.addEventListener('keydown', handleEscape);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isPickerOpen]);
+
   const getTitle = () => {
     if (!hasLyrics) return 'No lyrics available';
     
@@ -36,42 +97,90 @@ const LyricsToggle: React.FC<LyricsToggleProps> = ({
     }
   };
 
+  const isTranslated = !!language && language !== languages[0];
+
   return (
-    <button
-      className={`lyrics-toggle ${displayState !== 'hidden' ? 'lyrics-toggle--active' : ''}`}
-      onClick={onToggle}
-      disabled={!hasLyrics}
-      aria-label={getTitle()}
-      title={getTitle()}
-    >
-      <svg
-        width="20"
-        height="20"
-        viewBox="0 0 24 24"
-        fill="none"
-        stroke="currentColor"
-        strokeWidth="2"
-        strokeLinecap="round"
-        strokeLinejoin="round"
+    <div className="lyrics-toggle__wrapper" ref={pickerRef}>
+      <button
+        className={`lyrics-toggle ${displayState !== 'hidden' ? 'lyrics-toggle--active' : ''}`}
+        onClick={onToggle}
+        disabled={!hasLyrics}
+        aria-label={getTitle()}
+        title={getTitle()}
       >
-        <path d="M12 19l7-7 3 3-7 7-3-3z" />
-        <path d="M18 13l-1.5-7.5L2 2l3.5 14.5L13 18l5-5z" />
-        <path d="M2 2l7.586 7.586" />
-        <circle cx="11" cy="11" r="2" />
-      </svg>
-      
-      {/* State indicator dots */}
-      <span className="lyrics-toggle__indicator">
-        {displayState === 'panel' && <span className="lyrics-toggle__dot" />}
-        {displayState === 'integrated' && (
-          <>
-            <span className="lyrics-toggle__dot" />
-            <span className="lyrics-toggle__dot" />
-          </>
-        )}
-      </span>
-    </button>
+        <svg
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M12 19l7-7 3 3-7 7-3-3z" />
+          <path d="M18 13l-1.5-7.5L2 2l3.5 14.5L13 18l5-5z" />
+          <path d="M2 2l7.586 7.586" />
+          <circle cx="11" cy="11" r="2" />
+        </svg>
+        
+        {/* State indicator dots */}
+        <span className="lyrics-toggle__indicator">
+          {displayState === 'panel' && <span className="lyrics-toggle__dot" />}
+          {displayState === 'integrated' && (
+            <>
+              <span className="lyrics-toggle__dot" />
+              <span className="lyrics-toggle__dot" />
+            </>
+          )}
+        </span>
+      </button>
+
+      {hasTranslations && (
+        <button
+          className={`lyrics-toggle__language ${isTranslated ? 'lyrics-toggle__language--active' : ''}`}
+          onClick={() => setIsPickerOpen(!isPickerOpen)}
+          aria-label={`Lyrics language: ${getLanguageName(language ?? languages[0])}`}
+          aria-expanded={isPickerOpen}
+          aria-haspopup="dialog"
+          title="Lyrics language"
+        >
+          {(language ?? languages[0]).toUpperCase()}
+        </button>
+      )}
+
+      {hasTranslations && isPickerOpen && (
+        <div className="lyrics-toggle__popover" role="dialog" aria-label="Lyrics language">
+          <div role="radiogroup" aria-label="Language">
+            {languages.map((code, index) => (
+              <label key={code} className="lyrics-toggle__option">
+                <input
+                  type="radio"
+                  name="lyrics-language"
+                  checked={code === (language ?? languages[0])}
+                  onChange={() => onLanguageChange?.(code)}
+                />
+                {getLanguageName(code)}
+                {index === 0 && <span className="lyrics-toggle__hint">original</span>}
+              </label>
+            ))}
+          </div>
+
+          {onDualLineToggle && (
+            <label className="lyrics-toggle__option lyrics-toggle__option--divided">
+              <input
+                type="checkbox"
+                checked={isDualLine}
+                disabled={!isTranslated}
+                onChange={onDualLineToggle}
+              />
+              Show original above translation
+            </label>
+          )}
+        </div>
+      )}
+    </div>
   );
 };
 
-export default LyricsToggle;
\ No newline at end of file
+export default LyricsToggle;
@@ -0,0 +1,56 @@
+import React from 'react';
+import type { Album } from '@/types';
+import './AlbumSwitcher.css';
+
+interface AlbumSwitcherProps {
+  albums: Album[];
+  currentAlbumId: string;
+  onSelect: (albumId: string) => void;
+}
+
+const RELEASE_TYPE_LABELS: Record<Album['type'], string> = {
+  album: 'Album',
+  ep: 'EP',
+  single: 'Single',
+};
+
+/**
+ * AlbumSwitcher Component
+ *
+ * Row of release buttons for moving between albums, EPs and singles
+ * in the catalog. Renders nothing while only one release is hosted.
+ *
+ * @param albums - Releases to choose from
+ * @param currentAlbumId - ID of the release currently loaded
+ * @param onSelect - Callback with the chosen release ID
+ */
+const AlbumSwitcher: React.FC<AlbumSwitcherProps> = ({
+  albums,
+  currentAlbumId,
+  onSelect,
+}) => {
+  if (albums.length < 2) return null;
+
+  return (
+    <div className="album-switcher" role="group" aria-label="Choose release">
+      {albums.map((album) => {
+        const isCurrent = album.id === currentAlbumId;
+
+        return (
+          <button
+            key={album.id}
+            className={`album-switcher__option ${isCurrent ? 'album-switcher__option--current' : ''}`}
+            onClick={() => onSelect(album.id)}
+            aria-pressed={isCurrent}
+            title={`${album.title} (${RELEASE_TYPE_LABELS[album.type]}, ${album.releaseYear})`}
+          >
+            <span className="album-switcher__title">{album.title}</span>
+            <span className="album-switcher__type">{RELEASE_TYPE_LABELS[album.type]}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AlbumSwitcher;
@@ -1,13 +1,15 @@
 import React from 'react';
-import { FOUNDATION_ALBUM } from '@/data/album';
+import type { Album, VisualizerMode } from '@/types';
 import Equalizer from './Equalizer';
 import './Artwork.css';
 
 interface ArtworkProps {
+  album: Album;
   isPlaying: boolean;
   audioContext: AudioContext | null;
-  sourceNode: MediaElementAudioSourceNode | null;
+  sourceNode: AudioNode | null;
   showEqualizer: boolean;
+  visualizerMode: VisualizerMode;
 }
 
 /**
@@ -18,21 +20,25 @@ interface ArtworkProps {
  * Phase 2: Simple artwork display
  * Phase 3: Will add visual equalizer overlay
  * 
+ * @param album - Release whose cover is shown
  * @param isPlaying - Whether audio is currently playing
+ * @param visualizerMode - Style of the equalizer overlay
  */
 const Artwork: React.FC<ArtworkProps> = ({ 
+  album,
   isPlaying,
   audioContext,
   sourceNode,
-  showEqualizer
+  showEqualizer,
+  visualizerMode
 }) => {
   return (
     <div className={`artwork ${isPlaying ? 'artwork--playing' : ''}`}>
       <div className="artwork__animation-wrapper">
         <div className="artwork__container">
           <img
-            src={FOUNDATION_ALBUM.artworkUrl}
-            alt={`${FOUNDATION_ALBUM.title} album cover`}
+            src={album.artworkUrl}
+            alt={`${album.title} album cover`}
             className="artwork__image"
             onError={(e) => {
               // Fallback if image fails to load
@@ -48,6 +54,7 @@ const Artwork: React.FC<ArtworkProps> = ({
             sourceNode={sourceNode}
             isPlaying={isPlaying}
             isVisible={showEqualizer}
+            mode={visualizerMode}
           />
         </div>
       </div>
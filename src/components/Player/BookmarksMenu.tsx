@@ -0,0 +1,181 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { Bookmark } from '@/types';
+import { formatTime } from '@/utils/formatTime';
+import { MAX_BOOKMARK_SHORTCUTS } from '@/hooks/useBookmarks';
+import './BookmarksMenu.css';
+
+interface BookmarksMenuProps {
+  bookmarks: Bookmark[];
+  currentTime: number;
+  hasTrack: boolean;
+  onAdd: (time: number, name?: string) => void;
+  onRename: (id: string, name: string) => void;
+  onRemove: (id: string) => void;
+  onJump: (time: number) => void;
+}
+
+/**
+ * BookmarksMenu Component
+ *
+ * Button with dropdown listing the current track's bookmarks: jump to one,
+ * rename it in place or delete it, and add a new one at the current
+ * position. The first nine are also on the number keys.
+ *
+ * @param bookmarks - Current track's bookmarks in time order
+ * @param currentTime - Position a new bookmark is added at (seconds)
+ * @param hasTrack - Whether a track is loaded (nothing to bookmark otherwise)
+ * @param onAdd - Callback to add a bookmark (name optional)
+ * @param onRename - Callback to rename a bookmark
+ * @param onRemove - Callback to delete a bookmark
+ * @param onJump - Callback to seek to a bookmark (seconds)
+ */
+const BookmarksMenu: React.FC<BookmarksMenuProps> = ({
+  bookmarks,
+  currentTime,
+  hasTrack,
+  onAdd,
+  onRename,
+  onRemove,
+  onJump,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  // Close dropdown on escape key
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    onAdd(currentTime, newName);
+    setNewName('');
+  };
+
+  // Rename on blur/Enter; an emptied name goes back to the saved one
+  const commitRename = (bookmark: Bookmark, input: HTMLInputElement) => {
+    if (input.value.trim() && input.value.trim() !== bookmark.name) {
+      onRename(bookmark.id, input.value);
+    } else {
+      input.value = bookmark.name;
+    }
+  };
+
+  return (
+    <div className="bookmarks-menu" ref={dropdownRef}>
+      <button
+        className={`bookmarks-menu__button ${bookmarks.length > 0 ? 'bookmarks-menu__button--active' : ''}`}
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!hasTrack}
+        aria-label={`Bookmarks (${bookmarks.length})`}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+        title="Bookmarks"
+      >
+        <svg
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M19 21l-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z" />
+        </svg>
+        {bookmarks.length > 0 && (
+          <span className="bookmarks-menu__badge">{bookmarks.length}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="bookmarks-menu__dropdown">
+          {bookmarks.length === 0 ? (
+            <p className="bookmarks-menu__empty">No bookmarks on this track yet</p>
+          ) : (
+            <ul className="bookmarks-menu__list">
+              {bookmarks.map((bookmark, index) => (
+                <li key={bookmark.id} className="bookmarks-menu__item">
+                  <button
+                    className="bookmarks-menu__time"
+                    onClick={() => onJump(bookmark.time)}
+                    aria-label={`Jump to ${bookmark.name} (${formatTime(bookmark.time)})`}
+                    title={index < MAX_BOOKMARK_SHORTCUTS ? `Jump here (${index + 1})` : 'Jump here'}
+                  >
+                    {formatTime(bookmark.time)}
+                  </button>
+                  <input
+                    key={bookmark.name}
+                    className="bookmarks-menu__name"
+                    defaultValue={bookmark.name}
+                    onBlur={(e) => commitRename(bookmark, e.currentTarget)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                    }}
+                    aria-label={`Rename bookmark at ${formatTime(bookmark.time)}`}
+                    maxLength={40}
+                  />
+                  <button
+                    className="bookmarks-menu__remove"
+                    onClick={() => onRemove(bookmark.id)}
+                    aria-label={`Delete ${bookmark.name}`}
+                    title="Delete"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form className="bookmarks-menu__add" onSubmit={handleAdd}>
+            <input
+              className="bookmarks-menu__name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Name (optional)"
+              aria-label="New bookmark name"
+              maxLength={40}
+            />
+            <button type="submit" className="bookmarks-menu__add-button">
+              Add at {formatTime(currentTime)}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BookmarksMenu;
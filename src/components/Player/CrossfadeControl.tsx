@@ -0,0 +1,114 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { CROSSFADE_OPTIONS } from '@/hooks/useAudioPlayer';
+import './CrossfadeControl.css';
+
+interface CrossfadeControlProps {
+  crossfadeDuration: number; // seconds, 0 = gapless
+  onChange: (seconds: number) => void;
+}
+
+/**
+ * CrossfadeControl Component
+ *
+ * Button with dropdown for choosing how tracks hand over:
+ * gapless (no fade) or a crossfade of a few seconds.
+ *
+ * @param crossfadeDuration - Current crossfade length in seconds
+ * @param onChange - Callback with the new length in seconds
+ */
+const CrossfadeControl: React.FC<CrossfadeControlProps> = ({
+  crossfadeDuration,
+  onChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  // Close dropdown on escape key
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  const formatOption = (seconds: number) => (seconds === 0 ? 'Gapless' : `Crossfade ${seconds}s`);
+
+  const handleSelect = (seconds: number) => {
+    onChange(seconds);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="crossfade-control" ref={dropdownRef}>
+      <button
+        className={`crossfade-control__button ${crossfadeDuration > 0 ? 'crossfade-control__button--active' : ''}`}
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={`Track transitions: ${formatOption(crossfadeDuration)}`}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+        title={`Transitions: ${formatOption(crossfadeDuration)}`}
+      >
+        <svg
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M2 18C8 18 10 6 16 6h6" />
+          <path d="M2 6c6 0 8 12 14 12h6" />
+        </svg>
+        {crossfadeDuration > 0 && (
+          <span className="crossfade-control__badge">{crossfadeDuration}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="crossfade-control__dropdown" role="menu">
+          {CROSSFADE_OPTIONS.map((seconds) => (
+            <button
+              key={seconds}
+              className={`crossfade-control__option ${seconds === crossfadeDuration ? 'crossfade-control__option--selected' : ''}`}
+              onClick={() => handleSelect(seconds)}
+              role="menuitemradio"
+              aria-checked={seconds === crossfadeDuration}
+            >
+              {formatOption(seconds)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CrossfadeControl;
@@ -1,11 +1,11 @@
 import React, { useState, useRef, useEffect } from 'react';
 import JSZip from 'jszip';
-import { Track } from '@/types';
-import { FOUNDATION_ALBUM } from '@/data/album';
+import { Album, Track } from '@/types';
 import './DownloadVocalButton.css';
 
 interface DownloadVocalButtonProps {
   track: Track | null;
+  album: Album;
 }
 
 /**
@@ -15,8 +15,9 @@ interface DownloadVocalButtonProps {
  * Options: Download current track or full album as ZIP.
  *
  * @param track - Current track object
+ * @param album - Release the current track belongs to (zipped by "Download Album")
  */
-const DownloadVocalButton: React.FC<DownloadVocalButtonProps> = ({ track }) => {
+const DownloadVocalButton: React.FC<DownloadVocalButtonProps> = ({ track, album }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -60,7 +61,7 @@ const DownloadVocalButton: React.FC<DownloadVocalButtonProps> = ({ track }) => {
 
     const link = document.createElement('a');
     link.href = track.vocalFile;
-    link.download = `${track.title} - PRIMEAPE.mp3`;
+    link.download = `${track.title} - ${album.artist}.mp3`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -73,17 +74,17 @@ const DownloadVocalButton: React.FC<DownloadVocalButtonProps> = ({ track }) => {
 
     try {
       const zip = new JSZip();
-      const albumFolder = zip.folder(`PRIMEAPE - ${FOUNDATION_ALBUM.title}`);
+      const albumFolder = zip.folder(`${album.artist} - ${album.title}`);
 
       if (!albumFolder) {
         throw new Error('Failed to create album folder');
       }
 
       // Get all tracks with vocals
-      const vocalTracks = FOUNDATION_ALBUM.tracks.filter(t => t.hasVocals);
+      const vocalTracks = album.tracks.filter(t => t.hasVocals);
 
       // Fetch all vocal files and add to ZIP
-      const fetchPromises = vocalTracks.map(async (t, index) => {
+      const fetchPromises = vocalTracks.map(async (t) => {
         try {
           const response = await fetch(t.vocalFile);
           if (!response.ok) {
@@ -91,7 +92,7 @@ const DownloadVocalButton: React.FC<DownloadVocalButtonProps> = ({ track }) => {
             return;
           }
           const blob = await response.blob();
-          const trackNumber = String(index + 1).padStart(2, '0');
+          const trackNumber = String(t.trackNumber).padStart(2, '0');
           albumFolder.file(`${trackNumber} - ${t.title}.mp3`, blob);
         } catch (error) {
           console.warn(`Error fetching ${t.title}:`, error);
@@ -104,7 +105,7 @@ const DownloadVocalButton: React.FC<DownloadVocalButtonProps> = ({ track }) => {
       const zipBlob = await zip.generateAsync({ type: 'blob' });
       const link = document.createElement('a');
       link.href = URL.createObjectURL(zipBlob);
-      link.download = `PRIMEAPE - ${FOUNDATION_ALBUM.title}.zip`;
+      link.download = `${album.artist} - ${album.title}.zip`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
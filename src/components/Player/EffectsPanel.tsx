@@ -0,0 +1,233 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { EffectsPreset, EffectsSettings } from '@/types';
+import { EQ_BANDS, EQ_GAIN_RANGE, MAX_STEREO_WIDTH } from '@/utils/audioEffects';
+import './EffectsPanel.css';
+
+interface EffectsPanelProps {
+  settings: EffectsSettings;
+  presets: EffectsPreset[];
+  activePreset: EffectsPreset | null;
+  onEnabledChange: (enabled: boolean) => void;
+  onBandChange: (index: number, gain: number) => void;
+  onCompressorChange: (enabled: boolean) => void;
+  onStereoWidthChange: (width: number) => void;
+  onPresetSelect: (preset: EffectsPreset) => void;
+  onPresetSave: (name: string) => void;
+  onPresetDelete: (id: string) => void;
+}
+
+/**
+ * EffectsPanel Component
+ *
+ * Button with panel for the sound settings: multi-band EQ with presets,
+ * compressor and stereo width. Sits next to EqualizerToggle.
+ *
+ * @param settings - Current effects settings
+ * @param presets - Built-in and saved presets
+ * @param activePreset - Preset matching the current settings, if any
+ */
+const EffectsPanel: React.FC<EffectsPanelProps> = ({
+  settings,
+  presets,
+  activePreset,
+  onEnabledChange,
+  onBandChange,
+  onCompressorChange,
+  onStereoWidthChange,
+  onPresetSelect,
+  onPresetSave,
+  onPresetDelete,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Close panel when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  // Close panel on escape key
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const preset = presets.find((p) => p.id === e.target.value);
+    if (preset) onPresetSelect(preset);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!presetName.trim()) return;
+    onPresetSave(presetName);
+    setPresetName('');
+  };
+
+  const isActive = settings.enabled;
+
+  return (
+    <div className="effects-panel" ref={panelRef}>
+      <button
+        className={`effects-panel__button ${isActive ? 'effects-panel__button--active' : ''}`}
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label="Sound settings"
+        aria-expanded={isOpen}
+        aria-haspopup="dialog"
+        title={`Sound: ${isActive ? activePreset?.name ?? 'Custom' : 'Off'}`}
+      >
+        <svg
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <line x1="4" y1="21" x2="4" y2="14" />
+          <line x1="4" y1="10" x2="4" y2="3" />
+          <line x1="12" y1="21" x2="12" y2="12" />
+          <line x1="12" y1="8" x2="12" y2="3" />
+          <line x1="20" y1="21" x2="20" y2="16" />
+          <line x1="20" y1="12" x2="20" y2="3" />
+          <line x1="1" y1="14" x2="7" y2="14" />
+          <line x1="9" y1="8" x2="15" y2="8" />
+          <line x1="17" y1="16" x2="23" y2="16" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="effects-panel__panel" role="dialog" aria-label="Sound settings">
+          {/* Header: on/off + preset */}
+          <div className="effects-panel__header">
+            <label className="effects-panel__switch">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                onChange={(e) => onEnabledChange(e.target.checked)}
+              />
+              Effects {settings.enabled ? 'on' : 'off'}
+            </label>
+
+            <select
+              className="effects-panel__select"
+              value={activePreset?.id ?? 'custom'}
+              onChange={handlePresetChange}
+              aria-label="Preset"
+            >
+              {!activePreset && <option value="custom">Custom</option>}
+              {presets.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* EQ bands */}
+          <div className={`effects-panel__eq ${settings.enabled ? '' : 'effects-panel__eq--bypassed'}`}>
+            {EQ_BANDS.map((band, index) => (
+              <label key={band.frequency} className="effects-panel__band">
+                <span className="effects-panel__band-gain">
+                  {settings.eqGains[index] > 0 ? '+' : ''}{settings.eqGains[index]}
+                </span>
+                <input
+                  type="range"
+                  className="effects-panel__band-slider"
+                  min={-EQ_GAIN_RANGE}
+                  max={EQ_GAIN_RANGE}
+                  step={1}
+                  value={settings.eqGains[index]}
+                  onChange={(e) => onBandChange(index, Number(e.target.value))}
+                  aria-label={`${band.label} Hz gain`}
+                  aria-valuetext={`${settings.eqGains[index]} dB`}
+                />
+                <span className="effects-panel__band-label">{band.label}</span>
+              </label>
+            ))}
+          </div>
+
+          {/* Dynamics + width */}
+          <label className="effects-panel__row">
+            <input
+              type="checkbox"
+              checked={settings.compressor}
+              onChange={(e) => onCompressorChange(e.target.checked)}
+            />
+            Compressor
+          </label>
+
+          <label className="effects-panel__row">
+            Stereo width
+            <input
+              type="range"
+              className="effects-panel__width-slider"
+              min={0}
+              max={MAX_STEREO_WIDTH}
+              step={0.1}
+              value={settings.stereoWidth}
+              onChange={(e) => onStereoWidthChange(Number(e.target.value))}
+              aria-valuetext={`${Math.round(settings.stereoWidth * 100)}%`}
+            />
+            <span className="effects-panel__width-value">
+              {Math.round(settings.stereoWidth * 100)}%
+            </span>
+          </label>
+
+          {/* Presets */}
+          <form className="effects-panel__save" onSubmit={handleSave}>
+            <input
+              type="text"
+              className="effects-panel__save-input"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Preset name"
+              maxLength={24}
+              aria-label="New preset name"
+            />
+            <button type="submit" className="effects-panel__action" disabled={!presetName.trim()}>
+              Save
+            </button>
+            {activePreset?.isCustom && (
+              <button
+                type="button"
+                className="effects-panel__action"
+                onClick={() => onPresetDelete(activePreset.id)}
+              >
+                Delete
+              </button>
+            )}
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EffectsPanel;
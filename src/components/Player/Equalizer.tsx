@@ -1,157 +1,182 @@
 import React, { useRef, useEffect } from 'react';
+import type { VisualizerMode } from '@/types';
 import { useEqualizer } from '@/hooks/useEqualizer';
+import {
+  drawRadialBars,
+  drawCircularSpectrum,
+  drawOscilloscope,
+  drawSpectrogramColumn,
+  type VisualizerFrame,
+} from '@/utils/visualizers';
 import './Equalizer.css';
 
 interface EqualizerProps {
   audioContext: AudioContext | null;
-  sourceNode: MediaElementAudioSourceNode | null;
+  sourceNode: AudioNode | null;
   isPlaying: boolean;
   isVisible: boolean;
+  mode?: VisualizerMode;
+  variant?: 'overlay' | 'fullscreen';
 }
 
+// Drawing time per frame we allow before skipping frames (ms)
+const FRAME_BUDGET_MS = 8;
+// Never fall below a quarter of the display refresh rate
+const MAX_FRAME_INTERVAL = 4;
+
+// Artwork radius relative to the smaller canvas side (circular mode)
+const INNER_RADIUS_RATIO = {
+  overlay: 0.34, // canvas extends past the artwork, see .equalizer--around
+  fullscreen: 0.21,
+};
+
 /**
  * Equalizer Component
- * 
- * Visual frequency equalizer that displays animated bars
- * responding to audio frequencies. Rendered on Canvas.
- * 
+ *
+ * Visual frequency equalizer that responds to the audio, rendered on Canvas.
+ * Modes: radial bars over the artwork, circular spectrum around it,
+ * oscilloscope and spectrogram waterfall.
+ *
+ * Draws in its own animation loop straight from the analyser. If drawing
+ * takes longer than FRAME_BUDGET_MS the loop skips frames, so slow devices
+ * keep playback and the rest of the UI smooth.
+ *
  * @param audioContext - Web Audio API context
  * @param sourceNode - Audio source node
  * @param isPlaying - Whether audio is playing
  * @param isVisible - Whether equalizer should be visible
+ * @param mode - Visualizer style (default: radial)
+ * @param variant - Artwork overlay or fullscreen visualizer
  */
 const Equalizer: React.FC<EqualizerProps> = ({
   audioContext,
   sourceNode,
   isPlaying,
   isVisible,
+  mode = 'radial',
+  variant = 'overlay',
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  
-  // Get frequency data
-  const { frequencyData } = useEqualizer(audioContext, sourceNode, isPlaying);
+  const sizeRef = useRef({ width: 0, height: 0 });
 
-  // Render inverted radial equalizer (bars extend inward)
+  const { analyserNode } = useEqualizer(audioContext, sourceNode);
+
+  // Match the canvas resolution to its display size
   useEffect(() => {
     if (!isVisible) return;
-    
+
     const canvas = canvasRef.current;
-    if (!canvas || frequencyData.length === 0) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Set canvas size
-    const dpr = window.devicePixelRatio || 1;
-    const rect = canvas.getBoundingClientRect();
-    canvas.width = rect.width * dpr;
-    canvas.height = rect.height * dpr;
-    ctx.scale(dpr, dpr);
-
-    // Clear canvas
-    ctx.clearRect(0, 0, rect.width, rect.height);
-
-    if (!isPlaying) return; // Don't draw if not playing
-
-    // Configuration
-    const barCount = 288; // Number of bars radiating (increased for smoother circle)
-    const centerX = rect.width / 2;
-    const centerY = rect.height / 2;
-    // Use full diagonal distance for corners to extend properly
-    const maxDimension = Math.sqrt(rect.width * rect.width + rect.height * rect.height) / 2;
-    const outerRadius = maxDimension * 0.98; // Maximum extension (reaches corners)
-    const maxBarLength = maxDimension * 0.32; // Longer bars for better visibility
-    // Get color from CSS variable
-    const styles = getComputedStyle(canvas);
-    const barColor = styles.getPropertyValue('--color-active').trim() || '#fff';
-
-    // Draw inverted radial bars
-    for (let i = 0; i < barCount; i++) {
-      // Calculate angle for this bar (in radians)
-      // Start at bottom (π/2 = 90° in canvas coordinates where Y increases downward)
-      // This positions bass frequencies at the bottom
-      const angleOffset = Math.PI / 2; // Start at bottom (90° in canvas Y-down coordinates)
-      const angle = angleOffset + (i / barCount) * Math.PI * 2;
-
-      // Create mirrored frequency distribution for symmetry
-      // Map bars to frequency spectrum with mirroring around vertical axis
-      
-      // Normalize bar position to 0-1 (where we are in the circle)
-      const normalizedPosition = i / barCount;
-      
-      // Create symmetrical distribution:
-      // - Bottom (0.0) = Bass (low frequencies)
-      // - Sides (0.25, 0.75) = Mids (medium frequencies)
-      // - Top (0.5) = Highs (high frequencies)
-      // - Mirror left and right sides for balance
-      
-      let frequencyPosition;
-      if (normalizedPosition <= 0.5) {
-        // First half: bottom → top (0 to 0.5)
-        // Maps to frequencies: bass → highs
-        // Use logarithmic scale for better frequency separation
-        frequencyPosition = Math.pow(normalizedPosition * 2, 1.5); // Emphasize bass
-      } else {
-        // Second half: top → bottom (0.5 to 1.0)
-        // Mirror the first half for symmetry
-        frequencyPosition = Math.pow((1.0 - normalizedPosition) * 2, 1.5);
+    if (!canvas) return;
+
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      const rect = canvas.getBoundingClientRect();
+      canvas.width = Math.round(rect.width * dpr);
+      canvas.height = Math.round(rect.height * dpr);
+      canvas.getContext('2d')?.setTransform(dpr, 0, 0, dpr, 0, 0);
+      sizeRef.current = { width: rect.width, height: rect.height };
+    };
+
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+
+    return () => observer.disconnect();
+  }, [isVisible, mode]);
+
+  // Render loop
+  useEffect(() => {
+    if (!isVisible) return;
+
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    // Paused: clear, except the spectrogram which keeps its history
+    if (!isPlaying || !analyserNode) {
+      if (mode !== 'spectrogram') {
+        ctx.clearRect(0, 0, sizeRef.current.width, sizeRef.current.height);
       }
-      
-      // Map to frequency array (use lower 50% of spectrum for better visualization)
-      const dataIndex = Math.floor(frequencyPosition * frequencyData.length * 0.5);
-      let amplitude = frequencyData[dataIndex] / 255; // Normalize to 0-1
-      
-      // Amplify high frequencies for better visibility
-      // High frequencies (top of circle) naturally have lower amplitude than bass
-      // Apply frequency-dependent gain to make them visible
-      const frequencyGain = 1.0 + (frequencyPosition * 2.5); // 1x at bass, 3.5x at highs
-      amplitude = Math.min(1.0, amplitude * frequencyGain); // Clamp to 1.0 max
-      
-      // Calculate bar length based on amplitude
-      // Bars extend INWARD from outer edge
-      // Calculate frequency-dependent minimum length
-      // Bass can disappear fully when silent, highs stay more visible
-      const frequencyMinMultiplier = 0.15 + (frequencyPosition * 0.10); // 15% bass, 25% highs
-      const minLength = maxBarLength * frequencyMinMultiplier;
-      const barLength = minLength + (amplitude * (maxBarLength - minLength));
-      
-      // Calculate bar endpoints (FROM outer radius TOWARD center)
-      const startX = centerX + Math.cos(angle) * outerRadius;
-      const startY = centerY + Math.sin(angle) * outerRadius;
-      const endX = centerX + Math.cos(angle) * (outerRadius - barLength);
-      const endY = centerY + Math.sin(angle) * (outerRadius - barLength);
-
-      // Draw bar with gradient (from outer edge toward center)
-      const gradient = ctx.createLinearGradient(startX, startY, endX, endY);
-      gradient.addColorStop(0, barColor + '80'); // More transparent at outer edge
-      gradient.addColorStop(1, barColor); // Solid at inner edge (near artwork)
-
-      ctx.strokeStyle = gradient;
-      ctx.lineWidth = Math.max(2.5, (Math.PI * 2 * outerRadius) / barCount * 0.65); // Bar width
-      ctx.lineCap = 'round'; // Rounded bar ends
-
-      // Draw the bar
-      ctx.beginPath();
-      ctx.moveTo(startX, startY);
-      ctx.lineTo(endX, endY);
-      ctx.stroke();
+      return;
     }
 
-    // Optional: Draw subtle outer ring for visual frame
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, outerRadius, 0, Math.PI * 2);
-    ctx.strokeStyle = barColor + '20'; // Very subtle
-    ctx.lineWidth = 1;
-    ctx.stroke();
-  }, [frequencyData, isPlaying, isVisible]);
+    // Get color from CSS variable
+    const color = getComputedStyle(canvas).getPropertyValue('--color-active').trim() || '#ffffff';
+    const frequencyData = new Uint8Array(analyserNode.frequencyBinCount);
+    const timeDomainData = new Uint8Array(analyserNode.fftSize);
+
+    let animationFrame = 0;
+    let frameCount = 0;
+    let frameInterval = 1;
+    let averageDrawTime = 0;
+
+    const render = () => {
+      animationFrame = requestAnimationFrame(render);
+      if (frameCount++ % frameInterval !== 0) return;
+
+      const { width, height } = sizeRef.current;
+      if (width === 0 || height === 0) return;
+
+      const start = performance.now();
+
+      const frame: VisualizerFrame = {
+        ctx,
+        width,
+        height,
+        frequencyData,
+        timeDomainData,
+        color,
+        innerRadius: Math.min(width, height) * INNER_RADIUS_RATIO[variant],
+      };
+
+      switch (mode) {
+        case 'circular':
+          analyserNode.getByteFrequencyData(frequencyData);
+          drawCircularSpectrum(frame);
+          break;
+        case 'oscilloscope':
+          analyserNode.getByteTimeDomainData(timeDomainData);
+          drawOscilloscope(frame);
+          break;
+        case 'spectrogram':
+          analyserNode.getByteFrequencyData(frequencyData);
+          drawSpectrogramColumn(frame, canvas);
+          break;
+        default:
+          analyserNode.getByteFrequencyData(frequencyData);
+          drawRadialBars(frame);
+      }
+
+      // Adapt to the frame budget (moving average of draw time)
+      averageDrawTime = averageDrawTime * 0.9 + (performance.now() - start) * 0.1;
+      if (averageDrawTime > FRAME_BUDGET_MS && frameInterval < MAX_FRAME_INTERVAL) {
+        frameInterval++;
+        averageDrawTime = FRAME_BUDGET_MS / 2;
+      } else if (averageDrawTime < FRAME_BUDGET_MS / 4 && frameInterval > 1) {
+        frameInterval--;
+      }
+    };
+
+    animationFrame = requestAnimationFrame(render);
+
+    return () => cancelAnimationFrame(animationFrame);
+  }, [analyserNode, isPlaying, isVisible, mode, variant]);
 
   if (!isVisible) return null;
 
+  const className = [
+    'equalizer',
+    `equalizer--${mode}`,
+    variant === 'fullscreen' ? 'equalizer--fullscreen' : '',
+    variant === 'overlay' && mode === 'circular' ? 'equalizer--around' : '',
+  ].filter(Boolean).join(' ');
+
   return (
-    <div className="equalizer">
-      <canvas ref={canvasRef} className="equalizer__canvas" />
+    <div className={className}>
+      {/* Keyed by mode so switching starts from a blank canvas */}
+      <canvas key={mode} ref={canvasRef} className="equalizer__canvas" />
     </div>
   );
 };
 
-export default Equalizer;
\ No newline at end of file
+export default Equalizer;
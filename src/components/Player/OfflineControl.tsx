@@ -0,0 +1,183 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { Album } from '@/types';
+import { useOfflineAlbum } from '@/hooks/useOfflineAlbum';
+import { formatBytes } from '@/utils/offlineStorage';
+import './OfflineControl.css';
+
+interface OfflineControlProps {
+  album: Album;
+}
+
+/**
+ * OfflineControl Component
+ *
+ * Button with panel for offline listening: save the current release's
+ * MP3s to the device, see how much storage they use, and purge it all.
+ * Hidden in browsers without service worker / Cache Storage support.
+ *
+ * @param album - Release to save
+ */
+const OfflineControl: React.FC<OfflineControlProps> = ({ album }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const {
+    isSupported,
+    isSaved,
+    savedFiles,
+    totalFiles,
+    isSaving,
+    isBusy,
+    progress,
+    usage,
+    error,
+    save,
+    remove,
+    purge,
+    refresh,
+  } = useOfflineAlbum(album);
+
+  // Close panel when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  // Close panel on escape key
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  if (!isSupported) {
+    return null;
+  }
+
+  const handleToggle = () => {
+    if (!isOpen) refresh(); // Usage may have changed since last open
+    setIsOpen(!isOpen);
+  };
+
+  const handlePurge = () => {
+    if (window.confirm('Remove all music, lyrics and artwork saved on this device?')) {
+      purge();
+    }
+  };
+
+  const statusText = isSaving
+    ? `Saving… ${Math.round((progress ?? 0) * 100)}%`
+    : isSaved
+      ? 'Saved on this device'
+      : savedFiles > 0
+        ? `${savedFiles} of ${totalFiles} files saved`
+        : 'Not saved';
+
+  return (
+    <div className="offline-control" ref={panelRef}>
+      <button
+        className={`offline-control__button ${isSaved ? 'offline-control__button--active' : ''}`}
+        onClick={handleToggle}
+        aria-label={`Offline listening: ${statusText}`}
+        aria-expanded={isOpen}
+        aria-haspopup="dialog"
+        title="Offline listening"
+      >
+        <svg
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M20 16.58A5 5 0 0 0 18 7h-1.26A8 8 0 1 0 4 15.25" />
+          {isSaved ? (
+            <polyline points="9 17 12 20 17 14" />
+          ) : (
+            <>
+              <line x1="12" y1="12" x2="12" y2="21" />
+              <polyline points="8 17 12 21 16 17" />
+            </>
+          )}
+        </svg>
+        {isSaving && (
+          <span
+            className="offline-control__progress"
+            style={{ width: `${Math.round((progress ?? 0) * 100)}%` }}
+          />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="offline-control__panel" role="dialog" aria-label="Offline listening">
+          <p className="offline-control__title">{album.title}</p>
+          <p className="offline-control__status" aria-live="polite">{statusText}</p>
+
+          {isSaved ? (
+            <button
+              className="offline-control__action"
+              onClick={remove}
+              disabled={isBusy}
+            >
+              Remove from device
+            </button>
+          ) : (
+            <button
+              className="offline-control__action offline-control__action--primary"
+              onClick={save}
+              disabled={isBusy}
+            >
+              {savedFiles > 0 ? 'Finish saving for offline' : 'Save album for offline'}
+            </button>
+          )}
+
+          {error && <p className="offline-control__error">{error}</p>}
+
+          {usage && (
+            <div className="offline-control__usage">
+              <p>Saved music: {formatBytes(usage.audioBytes)}</p>
+              {usage.quota > 0 && (
+                <p>
+                  Site storage: {formatBytes(usage.usage)} of {formatBytes(usage.quota)}
+                </p>
+              )}
+            </div>
+          )}
+
+          <button
+            className="offline-control__purge"
+            onClick={handlePurge}
+            disabled={isBusy}
+          >
+            Clear all offline data
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfflineControl;
@@ -1,7 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useAudioPlayer } from '@/hooks/useAudioPlayer';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
-import { getTrackById, FOUNDATION_ALBUM } from '@/data/album';
+import { useMediaSession } from '@/hooks/useMediaSession';
+import { useAudioEffects } from '@/hooks/useAudioEffects';
+import { getTrackById, getTrackFile, getTrackWaveform, CATALOG } from '@/data/catalog';
+import { getAnnotation, getAnnotationsForTrack } from '@/data/annotations';
+import { parseDeepLink, buildDeepLink } from '@/utils/deepLink';
+import { alignTranslation } from '@/utils/lrcParser';
+import type { LyricAnnotation, QueueActions, QueueItem, TrackId, VisualizerMode } from '@/types';
+import AlbumSwitcher from './AlbumSwitcher';
 import Artwork from './Artwork';
 import TrackInfo from './TrackInfo';
 import TimeDisplay from './TimeDisplay';
@@ -10,24 +17,42 @@ import Controls from './Controls';
 import VolumeControl from './VolumeControl';
 import ShuffleButton from './ShuffleButton';
 import RepeatButton from './RepeatButton';
+import CrossfadeControl from './CrossfadeControl';
+import SpeedControl from './SpeedControl';
+import ResumePrompt from './ResumePrompt';
+import OfflineControl from './OfflineControl';
 import DownloadVocalButton from './DownloadVocalButton';
 import EqualizerToggle from './EqualizerToggle';
+import VisualizerMenu from './VisualizerMenu';
+import VisualizerFullscreen from './VisualizerFullscreen';
+import EffectsPanel from './EffectsPanel';
 import VersionToggle from './VersionToggle';
+import PracticePanel from './PracticePanel';
+import BookmarksMenu from './BookmarksMenu';
 import LyricsToggle from '../Lyrics/LyricsToggle';
 import LyricsPanel from '../Lyrics/LyricsPanel';
 import LyricsBox from '../Lyrics/LyricsBox';
 import Tracklist from '../Tracklist/Tracklist';
+import QueueView from '../Queue/QueueView';
+import ListTabs, { type ListView } from '../Queue/ListTabs';
 import { useLyrics } from '@/hooks/useLyrics';
+import { useLyricsTrack } from '@/hooks/useLyricsTrack';
+import { useLyricOffset, LYRIC_OFFSET_STEP } from '@/hooks/useLyricOffset';
+import { usePracticeMode } from '@/hooks/usePracticeMode';
+import { useBookmarks } from '@/hooks/useBookmarks';
 import KeyboardShortcutsHelp from '../KeyboardShortcutsHelp/KeyboardShortcutsHelp';
 import './Player.css';
 
 interface PlayerProps {
   onStateChange?: (state: {
-    currentTrackId: number | null;
+    currentTrackId: TrackId | null;
     isPlaying: boolean;
     isLoading: boolean;
+    queue: QueueItem[];
+    upcomingTrackIds: TrackId[];
   }) => void;
-  trackSelectHandlerRef?: React.MutableRefObject<((trackId: number) => void) | null>;
+  trackSelectHandlerRef?: React.MutableRefObject<((trackId: TrackId, startTime?: number) => void) | null>;
+  queueActionsRef?: React.MutableRefObject<QueueActions | null>;
 }
 
 /**
@@ -35,7 +60,9 @@ interface PlayerProps {
  * 
  * Main music player component that orchestrates all player sub-components.
  * Manages audio playback state via useAudioPlayer hook.
- * Exposes player state to parent for mobile tracklist integration.
+ * Exposes player state and queue controls to parent for mobile tracklist integration.
+ * Starts from a deep link when the page was opened with one, and keeps the
+ * address bar pointing at the current track once the listener navigates.
  * 
  * Phase 2: Basic playback with simple progress bar
  * Phase 3: Will add waveform, equalizer, volume, shuffle, repeat
@@ -45,6 +72,7 @@ interface PlayerProps {
 const Player: React.FC<PlayerProps> = ({
   onStateChange,
   trackSelectHandlerRef,
+  queueActionsRef,
 }) => {
   // Equalizer state
   const [showEqualizer, setShowEqualizer] = useState(() => {
@@ -58,20 +86,50 @@ const Player: React.FC<PlayerProps> = ({
   }, [showEqualizer]);
 
   const toggleEqualizer = () => setShowEqualizer(prev => !prev);
+
+  // Visualizer style
+  const [visualizerMode, setVisualizerMode] = useState<VisualizerMode>(() => {
+    const saved = localStorage.getItem('primeape_visualizer_mode');
+    return saved === 'circular' || saved === 'oscilloscope' || saved === 'spectrogram' ? saved : 'radial';
+  });
+
+  // Save visualizer preference
+  useEffect(() => {
+    localStorage.setItem('primeape_visualizer_mode', visualizerMode);
+  }, [visualizerMode]);
+
+  const [isVisualizerFullscreen, setIsVisualizerFullscreen] = useState(false);
+
+  // Deep link the page was opened with (read once)
+  const [initialDeepLink] = useState(() => parseDeepLink(window.location));
+
+  // Left floating box shows either the release tracklist or the play queue
+  const [listView, setListView] = useState<ListView>('tracklist');
   const {
     currentTrackId,
+    currentAlbum,
     playbackState,
     currentTime,
     duration,
     audioVersion,
+    vocalLevel,
     volume,
     isMuted,
     isShuffled,
     repeatMode,
+    crossfadeDuration,
+    playbackRate,
+    loop,
+    queue,
+    upcomingTrackIds,
+    resumePoint,
+    activeDeck,
     error,
     play,
+    pause,
     togglePlayPause,
     loadTrack,
+    selectAlbum,
     nextTrack,
     prevTrack,
     seek,
@@ -80,14 +138,32 @@ const Player: React.FC<PlayerProps> = ({
     toggleShuffle,
     toggleRepeat,
     toggleVersion,
+    setVocalLevel,
+    setCrossfadeDuration,
+    setPlaybackRate,
+    setLoop,
+    setLoopStart,
+    setLoopEnd,
+    holdListeningSettings,
+    restoreListeningSettings,
+    playNext,
+    addToQueue,
+    removeFromQueue,
+    moveQueueItem,
+    clearQueue,
+    playFromQueue,
+    dismissResume,
     audioRef,
+    deckRefs,
+    stemRefs,
     audioContext,
     sourceNode,
-  } = useAudioPlayer();
+    effectsChain,
+  } = useAudioPlayer({ startAt: initialDeepLink ?? undefined });
 
   // Get current track data
   const currentTrack = currentTrackId ? getTrackById(currentTrackId) || null : null;
-  const trackIndex = currentTrack ? FOUNDATION_ALBUM.tracks.findIndex(track => track.id === currentTrack.id) : 0;
+  const trackIndex = currentTrack ? currentTrack.trackNumber - 1 : 0;
   const isPlaying = playbackState === 'playing';
 
   // Notify parent of player state changes (for mobile tracklist)
@@ -97,9 +173,11 @@ const Player: React.FC<PlayerProps> = ({
         currentTrackId,
         isPlaying: playbackState === 'playing',
         isLoading: playbackState === 'loading',
+        queue,
+        upcomingTrackIds,
       });
     }
-  }, [currentTrackId, playbackState, onStateChange]);
+  }, [currentTrackId, playbackState, queue, upcomingTrackIds, onStateChange]);
 
   // Note: External track selection now handled via trackSelectHandlerRef
   // No additional effect needed - the ref is set in the effect above
@@ -107,16 +185,73 @@ const Player: React.FC<PlayerProps> = ({
   // Lyrics
   const {
     lyrics,
+    translation,
     displayState: lyricsDisplayState,
     toggleDisplayState: toggleLyrics,
-  } = useLyrics(currentTrack?.lyricsFile || null);
+    languages: lyricsLanguages,
+    language: lyricsLanguage,
+    setLanguage: setLyricsLanguage,
+    isDualLine: isDualLineLyrics,
+    toggleDualLine: toggleDualLineLyrics,
+  } = useLyrics(currentTrack?.lyrics ?? null);
+
+  // Karaoke/practice: instrumental, large lyrics, tempo and A-B loop
+  const { isPracticeMode, togglePracticeMode } = usePracticeMode({
+    setVocalLevel,
+    setLoop,
+    holdListeningSettings,
+    restoreListeningSettings,
+  });
+
+  // Listener's named positions in the current track
+  const { bookmarks, addBookmark, renameBookmark, removeBookmark } = useBookmarks(currentTrackId);
+
+  // Listener's lyric sync correction (device-wide or per track)
+  const lyricOffset = useLyricOffset(currentTrackId);
+
+  // Lines shown in the panel and box: the translation replaces the original
+  // unless dual-line mode puts it underneath (liner notes follow the
+  // original's line numbers, so they only show alongside it)
+  const showTranslationOnly = !!translation && !isDualLineLyrics;
+  const displayedLines = (showTranslationOnly ? translation : lyrics)?.lines ?? [];
+  const lineTranslations = React.useMemo(
+    () => (lyrics && translation && isDualLineLyrics ? alignTranslation(lyrics.lines, translation.lines) : undefined),
+    [lyrics, translation, isDualLineLyrics]
+  );
+
+  // Liner notes: the open annotation card (from a ?note= link, a lyric line
+  // or the notes index) - closed when the listener moves to another track
+  const [openAnnotation, setOpenAnnotation] = useState<LyricAnnotation | null>(() =>
+    initialDeepLink?.note ? getAnnotation(initialDeepLink.trackId, initialDeepLink.note) ?? null : null
+  );
+  const trackAnnotations = currentTrackId ? getAnnotationsForTrack(currentTrackId) : undefined;
+  const visibleAnnotation = openAnnotation?.trackId === currentTrackId ? openAnnotation : null;
+
+  useEffect(() => {
+    setOpenAnnotation((prev) => (prev && prev.trackId !== currentTrackId ? null : prev));
+  }, [currentTrackId]);
+
+  const handleAnnotationOpen = React.useCallback((annotation: LyricAnnotation | null) => {
+    if (annotation && annotation.trackId !== currentTrackId) {
+      loadTrack(annotation.trackId);
+    }
+    setOpenAnnotation(annotation);
+  }, [currentTrackId, loadTrack]);
+
+  // Lyrics as a caption track on the playing deck (follows deck swaps on
+  // track and version changes)
+  const lyricsTrackUrl = useLyricsTrack(lyrics);
+  const renderLyricsTrack = (deck: 0 | 1) =>
+    lyricsTrackUrl && deck === activeDeck && (
+      <track key={lyricsTrackUrl} kind="captions" label="Lyrics" srcLang={lyricsLanguages[0]} src={lyricsTrackUrl} default />
+    );
 
   // DEBUG: Log lyrics state whenever it changes
   useEffect(() => {
     console.log('🎵 Player Component State:', {
       trackId: currentTrackId,
       trackTitle: currentTrack?.title,
-      lyricsFile: currentTrack?.lyricsFile,
+      lyricsFiles: currentTrack?.lyrics,
       hasLyrics: !!lyrics,
       linesCount: lyrics?.lines?.length || 0,
       displayState: lyricsDisplayState,
@@ -125,6 +260,55 @@ const Player: React.FC<PlayerProps> = ({
     });
   }, [lyrics, lyricsDisplayState, currentTrack, currentTrackId]);
 
+  // Deep-linked lyric line: seek once the linked track and its lyrics are loaded
+  const pendingLineRef = useRef(initialDeepLink?.line ?? null);
+  useEffect(() => {
+    const line = pendingLineRef.current;
+    if (!line || !lyrics || duration <= 0 || currentTrackId !== initialDeepLink?.trackId) return;
+
+    pendingLineRef.current = null;
+    const target = lyrics.lines[Math.min(line, lyrics.lines.length) - 1];
+    if (target) seek(target.time);
+  }, [lyrics, duration, currentTrackId, initialDeepLink, seek]);
+
+  // Deep-linked clip: stop once playback reaches the end time
+  // (dropped if the listener moves to another track first)
+  const clipEndRef = useRef(initialDeepLink?.end ?? null);
+  useEffect(() => {
+    const end = clipEndRef.current;
+    if (end === null) return;
+
+    if (currentTrackId !== initialDeepLink?.trackId) {
+      clipEndRef.current = null;
+    } else if (isPlaying && currentTime >= end) {
+      clipEndRef.current = null;
+      pause();
+    }
+  }, [currentTime, currentTrackId, isPlaying, initialDeepLink, pause]);
+
+  // Keep the address bar shareable once the listener starts navigating
+  // (the position is included while paused)
+  const isUrlSyncedRef = useRef(!!initialDeepLink);
+  useEffect(() => {
+    if (playbackState === 'playing') isUrlSyncedRef.current = true;
+    if (!isUrlSyncedRef.current || !currentTrackId || pendingLineRef.current) return;
+
+    // While a clip is pending, keep its range in the URL
+    const clip = clipEndRef.current !== null && initialDeepLink
+      ? { time: initialDeepLink.time, end: clipEndRef.current }
+      : null;
+    const url = buildDeepLink({
+      trackId: currentTrackId,
+      time: clip ? clip.time : playbackState === 'paused' ? currentTime : undefined,
+      end: clip?.end,
+      version: audioVersion,
+      note: visibleAnnotation?.line,
+    });
+    if (url !== window.location.href) {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  }, [currentTrackId, audioVersion, playbackState, currentTime, initialDeepLink, visibleAnnotation]);
+
   // Keyboard shortcuts
   useKeyboardShortcuts({
     onPlayPause: togglePlayPause,
@@ -153,39 +337,83 @@ const Player: React.FC<PlayerProps> = ({
     onMute: toggleMute,
     onShuffle: toggleShuffle,
     onRepeat: toggleRepeat,
+    onLyricsEarlier: () => lyricOffset.adjust(-LYRIC_OFFSET_STEP),
+    onLyricsLater: () => lyricOffset.adjust(LYRIC_OFFSET_STEP),
+    onLoopStart: () => setLoopStart(currentTime),
+    onLoopEnd: () => setLoopEnd(currentTime),
+    onLoopClear: () => setLoop(null),
+    onAddBookmark: () => {
+      if (currentTrackId) addBookmark(currentTime);
+    },
+    onJumpToBookmark: (index) => {
+      if (bookmarks[index]) seek(bookmarks[index].time);
+    },
     isEnabled: true,
   });
 
+  // Start playback once the freshly loaded track is ready
+  const playWhenLoaded = React.useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const playWhenReady = () => {
+      // Use the play() function from useAudioPlayer which properly manages state
+      play();
+      audio.removeEventListener('canplay', playWhenReady);
+    };
+
+    // If already can play, play immediately
+    if (audio.readyState >= 2) { // HAVE_CURRENT_DATA or better
+      // Small delay to let the load complete
+      setTimeout(() => play(), 50);
+    } else {
+      // Otherwise wait for canplay event
+      audio.addEventListener('canplay', playWhenReady, { once: true });
+    }
+  }, [play, audioRef]);
+
+  // EQ / compressor / stereo width
+  const effects = useAudioEffects(effectsChain);
+
+  // Lock screen / hardware media keys
+  useMediaSession({
+    track: currentTrack,
+    album: currentAlbum,
+    playbackState,
+    currentTime,
+    duration,
+    playbackRate,
+    onPlay: play,
+    onPause: pause,
+    onNext: nextTrack,
+    onPrevious: prevTrack,
+    onSeek: seek,
+  });
+
   // Handle track selection from tracklist
-  const handleTrackSelect = React.useCallback((trackId: number) => {
+  // (startTime comes from lyric search hits: play from that line)
+  const handleTrackSelect = React.useCallback((trackId: TrackId, startTime?: number) => {
     // If clicking the same track that's already loaded
     if (trackId === currentTrackId) {
-      // Toggle play/pause
-      togglePlayPause();
-    } else {
-      // Load new track
-      loadTrack(trackId);
-      
-      // Wait for the audio to be ready, then play
-      const audio = audioRef.current;
-      if (!audio) return;
-      
-      const playWhenReady = () => {
-        // Use the play() function from useAudioPlayer which properly manages state
-        play();
-        audio.removeEventListener('canplay', playWhenReady);
-      };
-      
-      // If already can play, play immediately
-      if (audio.readyState >= 2) { // HAVE_CURRENT_DATA or better
-        // Small delay to let loadTrack complete
-        setTimeout(() => play(), 50);
+      if (startTime === undefined) {
+        // Toggle play/pause
+        togglePlayPause();
       } else {
-        // Otherwise wait for canplay event
-        audio.addEventListener('canplay', playWhenReady, { once: true });
+        seek(startTime);
+        if (!isPlaying) play();
       }
+    } else {
+      // Load new track, then play when ready
+      loadTrack(trackId, startTime);
+      playWhenLoaded();
     }
-  }, [currentTrackId, togglePlayPause, loadTrack, play, audioRef]);  
+  }, [currentTrackId, isPlaying, togglePlayPause, seek, play, loadTrack, playWhenLoaded]);
+
+  // Jump straight to an entry in the play queue
+  const handlePlayQueueItem = React.useCallback((key: string) => {
+    playFromQueue(key);
+    playWhenLoaded();
+  }, [playFromQueue, playWhenLoaded]);
   
   // Expose track selection handler to parent via ref
   React.useEffect(() => {
@@ -194,64 +422,122 @@ const Player: React.FC<PlayerProps> = ({
     }
   }, [handleTrackSelect, trackSelectHandlerRef]);
 
+  // Expose queue controls to parent via ref
+  React.useEffect(() => {
+    if (queueActionsRef) {
+      queueActionsRef.current = {
+        playNext,
+        addToQueue,
+        playQueueItem: handlePlayQueueItem,
+        removeFromQueue,
+        moveQueueItem,
+        clearQueue,
+      };
+    }
+  }, [playNext, addToQueue, handlePlayQueueItem, removeFromQueue, moveQueueItem, clearQueue, queueActionsRef]);
+
   return (
     <div className="player">
-      {/* Hidden audio element */}
-      <audio ref={audioRef} preload="metadata" />
+      {/* Hidden audio elements (two decks for gapless/crossfade playback) */}
+      <audio ref={deckRefs[0]} preload="metadata">{renderLyricsTrack(0)}</audio>
+      <audio ref={deckRefs[1]} preload="metadata">{renderLyricsTrack(1)}</audio>
+      {/* ...and the other version of each deck's track, played in sync for the vocal blend */}
+      <audio ref={stemRefs[0]} preload="none" />
+      <audio ref={stemRefs[1]} preload="none" />
 
       {/* Player Main Area with Floating Boxes */}
       <div className="player__main-area">
         {/* Tracklist (LEFT side, desktop only) */}
         <div className="player__floating-box player__floating-box--tracklist">
-          <Tracklist
-            tracks={FOUNDATION_ALBUM.tracks}
-            currentTrackId={currentTrackId}
-            isPlaying={isPlaying}
-            isLoading={playbackState === 'loading'}
-            onTrackSelect={handleTrackSelect}
-          />
+          {/* Tracklist / Queue tabs */}
+          <ListTabs view={listView} queueLength={queue.length} onChange={setListView} />
+
+          <div className="player__list-panel" role="tabpanel">
+            {listView === 'tracklist' ? (
+              <Tracklist
+                tracks={currentAlbum.tracks}
+                currentTrackId={currentTrackId}
+                isPlaying={isPlaying}
+                isLoading={playbackState === 'loading'}
+                onTrackSelect={handleTrackSelect}
+                onPlayNext={playNext}
+                onAddToQueue={addToQueue}
+                onLyricSelect={handleTrackSelect}
+              />
+            ) : (
+              <QueueView
+                currentTrack={currentTrack}
+                queue={queue}
+                upcomingTrackIds={upcomingTrackIds}
+                contextTitle={currentAlbum.title}
+                onPlayQueueItem={handlePlayQueueItem}
+                onRemove={removeFromQueue}
+                onMove={moveQueueItem}
+                onClear={clearQueue}
+                onTrackSelect={handleTrackSelect}
+              />
+            )}
+          </div>
         </div>
 
         {/* Center Column - Artwork + Track Info + Time + Waveform */}
         <div className="player__center-column">
+          {/* Release Switcher (only shown when the catalog has several releases) */}
+          <AlbumSwitcher
+            albums={CATALOG}
+            currentAlbumId={currentAlbum.id}
+            onSelect={selectAlbum}
+          />
+
           {/* Album Title Above Artwork */}
-          <h3 className="player__album-title">{FOUNDATION_ALBUM.title}</h3>
+          <h3 className="player__album-title">{currentAlbum.title}</h3>
           
           {/* Album Artwork with Equalizer */}
           <Artwork 
+            album={currentAlbum}
             isPlaying={isPlaying}
             audioContext={audioContext}
             sourceNode={sourceNode}
             showEqualizer={showEqualizer}
+            visualizerMode={visualizerMode}
           />
 
           {/* Track Information */}
           <TrackInfo 
             track={currentTrack} 
-            album={FOUNDATION_ALBUM}
+            album={currentAlbum}
             trackIndex={trackIndex}
             error={error} 
+            currentTime={currentTime}
+            duration={duration}
+            audioVersion={audioVersion}
           />
 
-          {/* Integrated Lyrics Box (appears between track info and time) */}
+          {/* Integrated Lyrics Box (appears between track info and time; always shown while practicing) */}
           {lyrics && (
             <LyricsBox
-              lines={lyrics.lines}
+              lines={displayedLines}
               currentTime={currentTime}
               isPlaying={isPlaying}
-              isVisible={lyricsDisplayState === 'integrated'}
+              isVisible={isPracticeMode || lyricsDisplayState === 'integrated'}
+              lyricsOffset={lyricOffset.offset}
+              isPracticeMode={isPracticeMode}
             />
           )}
 
           {/* Time Display */}
-          <TimeDisplay currentTime={currentTime} duration={duration} />
+          <TimeDisplay currentTime={currentTime} duration={duration} playbackRate={playbackRate} />
 
           {/* Waveform Progress Bar */}
           <WaveformBar
-            audioUrl={currentTrack ? (audioVersion === 'vocal' && currentTrack.hasVocals ? currentTrack.vocalFile : currentTrack.instrumentalFile) : null}
+            audioUrl={currentTrack ? getTrackFile(currentTrack, audioVersion) : null}
             currentTime={currentTime}
             duration={duration}
             onSeek={seek}
+            waveformData={currentTrack ? getTrackWaveform(currentTrack, audioVersion) : undefined}
+            loop={loop}
+            onLoopChange={setLoop}
+            bookmarks={bookmarks}
           />
         </div>
 
@@ -259,18 +545,54 @@ const Player: React.FC<PlayerProps> = ({
         {lyrics && (
           <div className="player__floating-box player__floating-box--lyrics">
             <LyricsPanel
-              lines={lyrics.lines}
+              lines={displayedLines}
               currentTime={currentTime}
               isPlaying={isPlaying}
               isVisible={true}
               onClose={toggleLyrics}
-              onLineClick={(time) => seek(time)}
+              onLineClick={(time) => seek(Math.max(0, time + lyricOffset.offset))}
               isMobile={false}
+              translations={lineTranslations}
+              lyricsOffset={lyricOffset.offset}
+              isLyricsOffsetPerTrack={lyricOffset.isPerTrack}
+              onLyricsOffsetAdjust={lyricOffset.adjust}
+              onLyricsOffsetReset={lyricOffset.reset}
+              onLyricsOffsetPerTrackChange={lyricOffset.setPerTrack}
+              annotations={showTranslationOnly ? undefined : trackAnnotations}
+              openAnnotation={showTranslationOnly ? null : visibleAnnotation}
+              onAnnotationOpen={handleAnnotationOpen}
             />
           </div>
         )}
       </div>
 
+      {/* Resume Previous Session */}
+      {resumePoint && currentTrack && (
+        <ResumePrompt
+          trackTitle={currentTrack.title}
+          time={resumePoint.time}
+          onResume={play}
+          onStartOver={() => {
+            seek(0);
+            dismissResume();
+          }}
+        />
+      )}
+
+      {/* Fullscreen Visualizer */}
+      {isVisualizerFullscreen && (
+        <VisualizerFullscreen
+          album={currentAlbum}
+          track={currentTrack}
+          isPlaying={isPlaying}
+          audioContext={audioContext}
+          sourceNode={sourceNode}
+          mode={visualizerMode}
+          onModeChange={setVisualizerMode}
+          onClose={() => setIsVisualizerFullscreen(false)}
+        />
+      )}
+
       {/* Playback Controls */}
       <Controls
         playbackState={playbackState}
@@ -279,11 +601,26 @@ const Player: React.FC<PlayerProps> = ({
         onNext={nextTrack}
       />
 
-      {/* Version Toggle (Vocal/Instrumental) */}
+      {/* Version Toggle (Vocal/Instrumental, locked while practicing) + Practice Mode */}
       <div className="player__version-row">
         <VersionToggle
           currentVersion={audioVersion}
           onToggle={toggleVersion}
+          vocalLevel={vocalLevel}
+          onVocalLevelChange={setVocalLevel}
+          hasVocals={currentTrack?.hasVocals ?? false}
+          disabled={isPracticeMode}
+        />
+        <PracticePanel
+          isActive={isPracticeMode}
+          onToggle={togglePracticeMode}
+          playbackRate={playbackRate}
+          onPlaybackRateChange={setPlaybackRate}
+          loop={loop}
+          onLoopStartChange={setLoopStart}
+          onLoopEndChange={setLoopEnd}
+          onLoopClear={() => setLoop(null)}
+          currentTime={currentTime}
         />
       </div>
 
@@ -301,11 +638,37 @@ const Player: React.FC<PlayerProps> = ({
           onToggle={toggleEqualizer}
         />
 
+        {/* Visualizer Style / Fullscreen */}
+        <VisualizerMenu
+          mode={visualizerMode}
+          onModeChange={setVisualizerMode}
+          onOpenFullscreen={() => setIsVisualizerFullscreen(true)}
+        />
+
+        {/* Sound Settings (EQ / Effects) */}
+        <EffectsPanel
+          settings={effects.settings}
+          presets={effects.presets}
+          activePreset={effects.activePreset}
+          onEnabledChange={effects.setEnabled}
+          onBandChange={effects.setBandGain}
+          onCompressorChange={effects.setCompressor}
+          onStereoWidthChange={effects.setStereoWidth}
+          onPresetSelect={effects.applyPreset}
+          onPresetSave={effects.savePreset}
+          onPresetDelete={effects.deletePreset}
+        />
+
         {/* Lyrics Toggle */}
         <LyricsToggle
           displayState={lyricsDisplayState}
           hasLyrics={!!lyrics}
           onToggle={toggleLyrics}
+          languages={lyricsLanguages}
+          language={lyricsLanguage}
+          onLanguageChange={setLyricsLanguage}
+          isDualLine={isDualLineLyrics}
+          onDualLineToggle={toggleDualLineLyrics}
         />
 
         {/* Volume Control */}
@@ -322,25 +685,61 @@ const Player: React.FC<PlayerProps> = ({
           onToggle={toggleRepeat}
         />
 
+        {/* Gapless / Crossfade Setting */}
+        <CrossfadeControl
+          crossfadeDuration={crossfadeDuration}
+          onChange={setCrossfadeDuration}
+        />
+
+        {/* Playback Speed (tempo slider takes over while practicing) */}
+        <SpeedControl
+          playbackRate={playbackRate}
+          onChange={setPlaybackRate}
+          disabled={isPracticeMode}
+        />
+
+        {/* Bookmarks (named positions in the track) */}
+        <BookmarksMenu
+          bookmarks={bookmarks}
+          currentTime={currentTime}
+          hasTrack={!!currentTrackId}
+          onAdd={addBookmark}
+          onRename={renameBookmark}
+          onRemove={removeBookmark}
+          onJump={seek}
+        />
+
+        {/* Save For Offline */}
+        <OfflineControl album={currentAlbum} />
+
         {/* Download Vocal Button */}
-        <DownloadVocalButton track={currentTrack} />
+        <DownloadVocalButton track={currentTrack} album={currentAlbum} />
       </div>
 
       {/* Mobile/Tablet Lyrics Panel (< 1100px) */}
       <div className="player__mobile-lyrics-panel">
         {lyrics && lyricsDisplayState === 'panel' && (
           <LyricsPanel
-            lines={lyrics.lines}
+            lines={displayedLines}
             currentTime={currentTime}
             isPlaying={isPlaying}
             isVisible={true}
             onClose={toggleLyrics}
-            onLineClick={(time) => seek(time)}
+            onLineClick={(time) => seek(Math.max(0, time + lyricOffset.offset))}
             isMobile={true}
             onPlayPause={togglePlayPause}
             onPrevious={prevTrack}
             onNext={nextTrack}
             playbackState={playbackState}
+            translations={lineTranslations}
+            lyricsOffset={lyricOffset.offset}
+            isLyricsOffsetPerTrack={lyricOffset.isPerTrack}
+            onLyricsOffsetAdjust={lyricOffset.adjust}
+            onLyricsOffsetReset={lyricOffset.reset}
+            onLyricsOffsetPerTrackChange={lyricOffset.setPerTrack}
+            annotations={showTranslationOnly ? undefined : trackAnnotations}
+            openAnnotation={showTranslationOnly ? null : visibleAnnotation}
+            onAnnotationOpen={handleAnnotationOpen}
           />
         )}
       </div>
@@ -0,0 +1,134 @@
+import React from 'react';
+import type { PlaybackLoop } from '@/types';
+import { formatTime } from '@/utils/formatTime';
+import './PracticePanel.css';
+
+interface PracticePanelProps {
+  isActive: boolean;
+  onToggle: () => void;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+  loop: PlaybackLoop | null;
+  onLoopStartChange: (time: number) => void;
+  onLoopEndChange: (time: number) => void;
+  onLoopClear: () => void;
+  currentTime: number;
+}
+
+// Tempo slider range (percent of normal speed)
+const MIN_TEMPO = 50;
+const MAX_TEMPO = 150;
+const TEMPO_STEP = 5;
+
+/**
+ * PracticePanel Component
+ *
+ * Practice mode button, and while practicing: a tempo slider (pitch stays
+ * the same) and A-B loop buttons that move the loop's start or end to the
+ * current position (the loop can also be dragged out on the waveform).
+ *
+ * @param isActive - Whether practice mode is on
+ * @param onToggle - Callback to enter/leave practice mode
+ * @param playbackRate - Current speed (1 = normal)
+ * @param onPlaybackRateChange - Callback with the new speed
+ * @param loop - Current A-B loop, if any
+ * @param onLoopStartChange - Callback to set A (seconds)
+ * @param onLoopEndChange - Callback to set B (seconds)
+ * @param onLoopClear - Callback to remove the loop
+ * @param currentTime - Playback position used for A and B (seconds)
+ */
+const PracticePanel: React.FC<PracticePanelProps> = ({
+  isActive,
+  onToggle,
+  playbackRate,
+  onPlaybackRateChange,
+  loop,
+  onLoopStartChange,
+  onLoopEndChange,
+  onLoopClear,
+  currentTime,
+}) => {
+  const tempo = Math.round(playbackRate * 100);
+
+  return (
+    <div className="practice-panel">
+      <button
+        className={`practice-panel__toggle ${isActive ? 'practice-panel__toggle--active' : ''}`}
+        onClick={onToggle}
+        aria-label="Practice mode"
+        aria-pressed={isActive}
+        title={isActive ? 'Leave practice mode' : 'Practice mode: sing along to the instrumental'}
+      >
+        <svg
+          width="16"
+          height="16"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <rect x="9" y="2" width="6" height="12" rx="3" />
+          <path d="M5 10v1a7 7 0 0 0 14 0v-1" />
+          <line x1="12" y1="18" x2="12" y2="22" />
+        </svg>
+        <span className="practice-panel__toggle-label">Practice</span>
+      </button>
+
+      {isActive && (
+        <>
+          <label className="practice-panel__tempo">
+            <span className="practice-panel__tempo-label">Tempo</span>
+            <input
+              type="range"
+              className="practice-panel__tempo-slider"
+              min={MIN_TEMPO}
+              max={MAX_TEMPO}
+              step={TEMPO_STEP}
+              value={tempo}
+              onChange={(e) => onPlaybackRateChange(Number(e.target.value) / 100)}
+              onDoubleClick={() => onPlaybackRateChange(1)}
+              aria-valuetext={`${tempo}% speed`}
+            />
+            <span className="practice-panel__tempo-value">{tempo}%</span>
+          </label>
+
+          <div className="practice-panel__loop" role="group" aria-label="A-B loop">
+            <button
+              className={`practice-panel__loop-button ${loop ? 'practice-panel__loop-button--set' : ''}`}
+              onClick={() => onLoopStartChange(currentTime)}
+              aria-label="Set loop start (A) here"
+              title={loop ? `A: ${formatTime(loop.start)}` : 'Loop from here (A)'}
+            >
+              A
+            </button>
+            <button
+              className={`practice-panel__loop-button ${loop ? 'practice-panel__loop-button--set' : ''}`}
+              onClick={() => onLoopEndChange(currentTime)}
+              aria-label="Set loop end (B) here"
+              title={loop ? `B: ${formatTime(loop.end)}` : 'Loop up to here (B)'}
+            >
+              B
+            </button>
+            <span className="practice-panel__loop-range" aria-live="polite">
+              {loop ? `${formatTime(loop.start)} – ${formatTime(loop.end)}` : 'No loop'}
+            </span>
+            {loop && (
+              <button
+                className="practice-panel__loop-clear"
+                onClick={onLoopClear}
+                aria-label="Clear loop"
+                title="Clear loop"
+              >
+                ×
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PracticePanel;
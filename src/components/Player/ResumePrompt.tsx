@@ -0,0 +1,52 @@
+import React from 'react';
+import { formatTime } from '@/utils/formatTime';
+import './ResumePrompt.css';
+
+interface ResumePromptProps {
+  trackTitle: string;
+  time: number; // saved position in seconds
+  onResume: () => void;
+  onStartOver: () => void;
+}
+
+/**
+ * ResumePrompt Component
+ * 
+ * Shown after a reload when the previous session stopped partway through
+ * a track. The saved position is already cued, so "Resume" just plays.
+ * 
+ * @param trackTitle - Title of the restored track
+ * @param time - Position the session was saved at
+ * @param onResume - Continue from the saved position
+ * @param onStartOver - Rewind to the start of the track
+ */
+const ResumePrompt: React.FC<ResumePromptProps> = ({
+  trackTitle,
+  time,
+  onResume,
+  onStartOver,
+}) => {
+  return (
+    <div className="resume-prompt" role="status">
+      <span className="resume-prompt__text">
+        Pick up <strong>{trackTitle}</strong> at {formatTime(time)}?
+      </span>
+      <div className="resume-prompt__actions">
+        <button
+          className="resume-prompt__button resume-prompt__button--primary"
+          onClick={onResume}
+        >
+          Resume
+        </button>
+        <button
+          className="resume-prompt__button"
+          onClick={onStartOver}
+        >
+          Start over
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ResumePrompt;
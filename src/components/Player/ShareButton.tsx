@@ -0,0 +1,255 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { AudioVersion, Track } from '@/types';
+import { buildDeepLink, toLinkTime } from '@/utils/deepLink';
+import { formatTime, parseTime } from '@/utils/formatTime';
+import { trackShareClick } from '@/utils/analytics';
+import './ShareButton.css';
+
+interface ShareButtonProps {
+  track: Track;
+  currentTime: number;
+  duration: number;
+  audioVersion: AudioVersion;
+}
+
+// Default clip length offered when "Stop at" is ticked (seconds)
+const DEFAULT_CLIP_LENGTH = 30;
+
+/**
+ * Parse a "1:23" or "83" time field into seconds
+ */
+const parseTimeField = (value: string): number => {
+  const trimmed = value.trim();
+  return trimmed.includes(':') ? parseTime(trimmed) : Number(trimmed);
+};
+
+/**
+ * ShareButton Component
+ * 
+ * Share icon with a popover for sharing a deep link to the current track.
+ * The link can start at the current position and optionally stop at an
+ * end time ("clip"). Uses the Web Share sheet where available, and always
+ * offers copying the link.
+ * 
+ * @param track - Track to share
+ * @param currentTime - Playback position (offered as the start time)
+ * @param duration - Track length, bounds the clip end
+ * @param audioVersion - Version included in the link
+ */
+const ShareButton: React.FC<ShareButtonProps> = ({
+  track,
+  currentTime,
+  duration,
+  audioVersion,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [startTime, setStartTime] = useState(0);
+  const [includeStart, setIncludeStart] = useState(false);
+  const [isClip, setIsClip] = useState(false);
+  const [clipEnd, setClipEnd] = useState('');
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const linkInputRef = useRef<HTMLInputElement>(null);
+
+  const canNativeShare = typeof navigator !== 'undefined' && typeof navigator.share === 'function';
+
+  // Close popover when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  // Close popover on escape key
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  // Close when the track changes underneath the popover
+  useEffect(() => {
+    setIsOpen(false);
+  }, [track.id]);
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      // Snapshot the position when the popover opens
+      const start = Math.floor(currentTime);
+      setStartTime(start);
+      setIncludeStart(start >= 1);
+      setIsClip(false);
+      setClipEnd(formatTime(Math.min(start + DEFAULT_CLIP_LENGTH, duration || start + DEFAULT_CLIP_LENGTH)));
+      setCopyState('idle');
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const clipStart = includeStart ? startTime : 0;
+  // Validated at the precision the link keeps, so a valid clip stays valid when opened
+  const clipEndTime = toLinkTime(parseTimeField(clipEnd));
+  const isClipValid =
+    isFinite(clipEndTime) && clipEndTime > clipStart && (duration <= 0 || clipEndTime <= duration);
+  const hasClip = isClip && isClipValid;
+
+  const link = buildDeepLink(
+    {
+      trackId: track.id,
+      time: hasClip || includeStart ? clipStart : undefined,
+      end: hasClip ? clipEndTime : undefined,
+      version: audioVersion,
+    },
+    new URL('/', window.location.origin)
+  );
+
+  const reportShare = (method: 'native' | 'copy') => {
+    trackShareClick({
+      track_id: track.id,
+      method,
+      start_time: hasClip || includeStart ? clipStart : 0,
+      is_clip: hasClip,
+    });
+  };
+
+  const handleNativeShare = async () => {
+    reportShare('native');
+    try {
+      await navigator.share({ title: track.title, url: link });
+      setIsOpen(false);
+    } catch (error) {
+      // AbortError just means the listener closed the share sheet
+      if ((error as Error).name !== 'AbortError') {
+        console.error('Share failed:', error);
+      }
+    }
+  };
+
+  const handleCopy = async () => {
+    reportShare('copy');
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopyState('copied');
+    } catch (error) {
+      // Clipboard blocked - select the link so it can be copied by hand
+      console.error('Copy failed:', error);
+      linkInputRef.current?.select();
+      setCopyState('failed');
+    }
+  };
+
+  return (
+    <div className="share-button" ref={popoverRef}>
+      <button
+        className={`share-button__trigger ${isOpen ? 'share-button__trigger--active' : ''}`}
+        onClick={handleToggle}
+        aria-label={`Share ${track.title}`}
+        aria-expanded={isOpen}
+        aria-haspopup="dialog"
+        title="Share"
+      >
+        <svg
+          width="18"
+          height="18"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <circle cx="18" cy="5" r="3" />
+          <circle cx="6" cy="12" r="3" />
+          <circle cx="18" cy="19" r="3" />
+          <line x1="8.59" y1="13.51" x2="15.42" y2="17.49" />
+          <line x1="15.41" y1="6.51" x2="8.59" y2="10.49" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="share-button__popover" role="dialog" aria-label={`Share ${track.title}`}>
+          <label className="share-button__option">
+            <input
+              type="checkbox"
+              checked={includeStart}
+              onChange={(e) => setIncludeStart(e.target.checked)}
+            />
+            Start at {formatTime(startTime)}
+          </label>
+
+          <label className="share-button__option">
+            <input
+              type="checkbox"
+              checked={isClip}
+              onChange={(e) => setIsClip(e.target.checked)}
+            />
+            Stop at
+            <input
+              type="text"
+              className="share-button__time-input"
+              value={clipEnd}
+              onChange={(e) => setClipEnd(e.target.value)}
+              onFocus={() => setIsClip(true)}
+              inputMode="decimal"
+              aria-label="Clip end time"
+              aria-invalid={isClip && !isClipValid}
+            />
+          </label>
+          {isClip && !isClipValid && (
+            <p className="share-button__hint">
+              End time must be after {formatTime(clipStart)}
+            </p>
+          )}
+
+          <input
+            ref={linkInputRef}
+            className="share-button__link"
+            type="text"
+            value={link}
+            readOnly
+            onFocus={(e) => e.target.select()}
+            aria-label="Share link"
+          />
+
+          <div className="share-button__actions">
+            {canNativeShare && (
+              <button
+                className="share-button__action share-button__action--primary"
+                onClick={handleNativeShare}
+              >
+                Share…
+              </button>
+            )}
+            <button
+              className={`share-button__action ${canNativeShare ? '' : 'share-button__action--primary'}`}
+              onClick={handleCopy}
+            >
+              {copyState === 'copied' ? 'Copied!' : copyState === 'failed' ? 'Press Ctrl+C' : 'Copy link'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShareButton;
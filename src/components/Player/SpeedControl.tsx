@@ -0,0 +1,110 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { PLAYBACK_RATE_OPTIONS } from '@/hooks/useAudioPlayer';
+import './SpeedControl.css';
+
+interface SpeedControlProps {
+  playbackRate: number; // 1 = normal speed
+  onChange: (rate: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * SpeedControl Component
+ *
+ * Button with dropdown for choosing the playback speed (0.5x-2x).
+ * Pitch stays the same at every speed.
+ *
+ * @param playbackRate - Current speed
+ * @param onChange - Callback with the new speed
+ * @param disabled - Whether the control is locked (practice mode has its own tempo slider)
+ */
+const SpeedControl: React.FC<SpeedControlProps> = ({
+  playbackRate,
+  onChange,
+  disabled = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  // Close dropdown on escape key
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  // Close if practice mode takes over while open
+  useEffect(() => {
+    if (disabled) setIsOpen(false);
+  }, [disabled]);
+
+  const formatRate = (rate: number) => `${rate}x`;
+
+  const handleSelect = (rate: number) => {
+    if (rate !== playbackRate) {
+      onChange(rate);
+    }
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="speed-control" ref={dropdownRef}>
+      <button
+        className={`speed-control__button ${playbackRate !== 1 ? 'speed-control__button--active' : ''}`}
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        aria-label={`Playback speed: ${formatRate(playbackRate)}`}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+        title={disabled ? 'Speed is set by the practice tempo' : `Speed: ${formatRate(playbackRate)}`}
+      >
+        <span className="speed-control__label">{formatRate(playbackRate)}</span>
+      </button>
+
+      {isOpen && (
+        <div className="speed-control__dropdown" role="menu">
+          {PLAYBACK_RATE_OPTIONS.map((rate) => (
+            <button
+              key={rate}
+              className={`speed-control__option ${rate === playbackRate ? 'speed-control__option--selected' : ''}`}
+              onClick={() => handleSelect(rate)}
+              role="menuitemradio"
+              aria-checked={rate === playbackRate}
+            >
+              {rate === 1 ? 'Normal' : formatRate(rate)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpeedControl;
@@ -5,24 +5,38 @@ import './TimeDisplay.css';
 interface TimeDisplayProps {
   currentTime: number;
   duration: number;
+  playbackRate?: number;
 }
 
 /**
  * TimeDisplay Component
  * 
  * Displays current playback time and total duration in MM:SS format.
+ * Away from normal speed it also shows how long the rest of the track
+ * actually takes to hear (track time divided by the speed).
  * 
  * @param currentTime - Current playback position in seconds
  * @param duration - Total track duration in seconds
+ * @param playbackRate - Current speed (1 = normal)
  */
-const TimeDisplay: React.FC<TimeDisplayProps> = ({ currentTime, duration }) => {
+const TimeDisplay: React.FC<TimeDisplayProps> = ({ currentTime, duration, playbackRate = 1 }) => {
+  const remaining = Math.max(0, duration - currentTime) / playbackRate;
+
   return (
     <div className="time-display">
       <span className="time-display__current">{formatTime(currentTime)}</span>
       <span className="time-display__divider">/</span>
       <span className="time-display__duration">{formatTime(duration)}</span>
+      {playbackRate !== 1 && duration > 0 && (
+        <span
+          className="time-display__remaining"
+          title={`Time left at ${playbackRate}x speed`}
+        >
+          −{formatTime(remaining)} @ {playbackRate}x
+        </span>
+      )}
     </div>
   );
 };
 
-export default TimeDisplay;
\ No newline at end of file
+export default TimeDisplay;
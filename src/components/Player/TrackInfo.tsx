@@ -1,5 +1,6 @@
 import React from 'react';
-import type { Track, Album } from '@/types';
+import type { Track, Album, AudioVersion } from '@/types';
+import ShareButton from './ShareButton';
 import './TrackInfo.css';
 
 interface TrackInfoProps {
@@ -7,6 +8,9 @@ interface TrackInfoProps {
   album: Album | null;
   trackIndex: number;
   error: string | null;
+  currentTime: number;
+  duration: number;
+  audioVersion: AudioVersion;
 }
 
 /**
@@ -14,13 +18,25 @@ interface TrackInfoProps {
  * 
  * Displays current track information (title, artist, track number).
  * Shows error message if track fails to load.
+ * Includes the share action for the current track and position.
  * 
  * @param track - Current track object
  * @param album - Current album object (for artist info)
  * @param trackIndex - Zero-based track index (for display as Track N)
  * @param error - Error message if any
+ * @param currentTime - Playback position (for share links)
+ * @param duration - Track length (for share clips)
+ * @param audioVersion - Current version (for share links)
  */
-const TrackInfo: React.FC<TrackInfoProps> = ({ track, album, trackIndex, error }) => {
+const TrackInfo: React.FC<TrackInfoProps> = ({
+  track,
+  album,
+  trackIndex,
+  error,
+  currentTime,
+  duration,
+  audioVersion,
+}) => {
   if (error) {
     return (
       <div className="track-info track-info--error">
@@ -45,6 +61,14 @@ const TrackInfo: React.FC<TrackInfoProps> = ({ track, album, trackIndex, error }
       </p>
       <h2 className="track-info__title">{track.title}</h2>
       <p className="track-info__artist">{album?.artist || 'Unknown Artist'}</p>
+      <div className="track-info__actions">
+        <ShareButton
+          track={track}
+          currentTime={currentTime}
+          duration={duration}
+          audioVersion={audioVersion}
+        />
+      </div>
     </div>
   );
 };
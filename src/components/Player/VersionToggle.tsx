@@ -5,6 +5,10 @@ import './VersionToggle.css';
 interface VersionToggleProps {
   currentVersion: AudioVersion;
   onToggle: () => void;
+  vocalLevel?: number; // 0-1 (1 = all vocal)
+  onVocalLevelChange?: (level: number) => void;
+  hasVocals?: boolean; // false disables the blend (nothing to blend with)
+  disabled?: boolean; // version is locked (practice mode)
 }
 
 /**
@@ -12,30 +16,61 @@ interface VersionToggleProps {
  * 
  * Button to toggle between vocal and instrumental versions.
  * Shows "V" for vocal, "I" for instrumental.
+ * Optionally followed by a "vocal level" slider that blends the two.
  * 
  * @param currentVersion - Current audio version ('vocal' | 'instrumental')
  * @param onToggle - Callback when button clicked
+ * @param vocalLevel - Current blend (0 = instrumental, 1 = vocal)
+ * @param onVocalLevelChange - Callback when the slider moves (omit to hide it)
+ * @param hasVocals - Whether the current track has a vocal version
+ * @param disabled - Lock the current version
  */
 const VersionToggle: React.FC<VersionToggleProps> = ({
   currentVersion,
   onToggle,
+  vocalLevel = currentVersion === 'vocal' ? 1 : 0,
+  onVocalLevelChange,
+  hasVocals = true,
+  disabled = false,
 }) => {
   const isVocal = currentVersion === 'vocal';
+  const vocalPercent = hasVocals ? Math.round(vocalLevel * 100) : 0;
 
   return (
-    <button
-      className={`version-toggle ${isVocal ? 'version-toggle--vocal' : 'version-toggle--instrumental'}`}
-      onClick={onToggle}
-      aria-label={`Switch to ${isVocal ? 'instrumental' : 'vocal'} version`}
-      title={`Current: ${isVocal ? 'Vocal' : 'Instrumental'}\nClick to switch`}
-    >
-      <span className="version-toggle__icon">
-        {isVocal ? 'V' : 'I'}
-      </span>
-      <span className="version-toggle__label">
-        {isVocal ? 'Vocal' : 'Instrumental'}
-      </span>
-    </button>
+    <div className="version-toggle-group">
+      <button
+        className={`version-toggle ${isVocal ? 'version-toggle--vocal' : 'version-toggle--instrumental'}`}
+        onClick={onToggle}
+        disabled={disabled}
+        aria-label={`Switch to ${isVocal ? 'instrumental' : 'vocal'} version`}
+        title={`Current: ${isVocal ? 'Vocal' : 'Instrumental'}${disabled ? '' : '\nClick to switch'}`}
+      >
+        <span className="version-toggle__icon">
+          {isVocal ? 'V' : 'I'}
+        </span>
+        <span className="version-toggle__label">
+          {isVocal ? 'Vocal' : 'Instrumental'}
+        </span>
+      </button>
+
+      {onVocalLevelChange && (
+        <label className="version-toggle__blend" title={hasVocals ? 'Vocal level' : 'No vocal version yet'}>
+          <span className="version-toggle__blend-label">Vocal level</span>
+          <input
+            type="range"
+            className="version-toggle__blend-slider"
+            min={0}
+            max={100}
+            step={1}
+            value={vocalPercent}
+            disabled={disabled || !hasVocals}
+            onChange={(e) => onVocalLevelChange(Number(e.target.value) / 100)}
+            aria-label="Vocal level"
+            aria-valuetext={`${vocalPercent}% vocal`}
+          />
+        </label>
+      )}
+    </div>
   );
 };
 
@@ -0,0 +1,163 @@
+import React, { useEffect, useRef } from 'react';
+import type { Album, Track, VisualizerMode } from '@/types';
+import { VISUALIZER_MODES } from '@/utils/visualizers';
+import Equalizer from './Equalizer';
+import './VisualizerFullscreen.css';
+
+interface VisualizerFullscreenProps {
+  album: Album;
+  track: Track | null;
+  isPlaying: boolean;
+  audioContext: AudioContext | null;
+  sourceNode: AudioNode | null;
+  mode: VisualizerMode;
+  onModeChange: (mode: VisualizerMode) => void;
+  onClose: () => void;
+}
+
+/**
+ * VisualizerFullscreen Component
+ *
+ * "Visualizer mode": covers the page with the visualizer around the
+ * artwork. Asks the browser for real fullscreen where allowed; leaving
+ * browser fullscreen or pressing Escape closes it.
+ *
+ * @param album - Release whose cover is shown
+ * @param track - Current track (title shown at the bottom)
+ * @param mode - Visualizer style
+ * @param onModeChange - Callback with the new mode
+ * @param onClose - Closes visualizer mode
+ */
+const VisualizerFullscreen: React.FC<VisualizerFullscreenProps> = ({
+  album,
+  track,
+  isPlaying,
+  audioContext,
+  sourceNode,
+  mode,
+  onModeChange,
+  onClose,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  // Enter browser fullscreen while open; leaving it closes visualizer mode
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) {
+        onCloseRef.current();
+      }
+    };
+
+    if (container.requestFullscreen && !document.fullscreenElement) {
+      container.requestFullscreen()
+        .then(() => document.addEventListener('fullscreenchange', handleFullscreenChange))
+        .catch(() => {
+          // Not allowed (e.g. iOS Safari) - the fixed overlay still covers the page
+        });
+    }
+
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      if (document.fullscreenElement === container) {
+        document.exitFullscreen().catch(() => {});
+      }
+    };
+  }, []);
+
+  // Close on escape key
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onCloseRef.current();
+      }
+    };
+
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, []);
+
+  // Stop the page behind from scrolling
+  useEffect(() => {
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = previousOverflow;
+    };
+  }, []);
+
+  return (
+    <div
+      className="visualizer-fullscreen"
+      ref={containerRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Visualizer"
+    >
+      <Equalizer
+        audioContext={audioContext}
+        sourceNode={sourceNode}
+        isPlaying={isPlaying}
+        isVisible={true}
+        mode={mode}
+        variant="fullscreen"
+      />
+
+      {(mode === 'radial' || mode === 'circular') && (
+        <img
+          src={album.artworkUrl}
+          alt={`${album.title} album cover`}
+          className={`visualizer-fullscreen__artwork ${isPlaying ? 'visualizer-fullscreen__artwork--playing' : ''}`}
+        />
+      )}
+
+      <div className="visualizer-fullscreen__bar">
+        <div className="visualizer-fullscreen__title">
+          {track && <span className="visualizer-fullscreen__track">{track.title}</span>}
+          <span className="visualizer-fullscreen__album">{album.artist} — {album.title}</span>
+        </div>
+
+        <div className="visualizer-fullscreen__modes" role="radiogroup" aria-label="Visualizer style">
+          {VISUALIZER_MODES.map((option) => (
+            <button
+              key={option.id}
+              className={`visualizer-fullscreen__mode ${option.id === mode ? 'visualizer-fullscreen__mode--active' : ''}`}
+              onClick={() => onModeChange(option.id)}
+              role="radio"
+              aria-checked={option.id === mode}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <button
+          className="visualizer-fullscreen__close"
+          onClick={onClose}
+          aria-label="Exit visualizer"
+          title="Exit visualizer (Esc)"
+        >
+          <svg
+            width="20"
+            height="20"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <line x1="18" y1="6" x2="6" y2="18" />
+            <line x1="6" y1="6" x2="18" y2="18" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VisualizerFullscreen;
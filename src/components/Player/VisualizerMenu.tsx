@@ -0,0 +1,127 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { VisualizerMode } from '@/types';
+import { VISUALIZER_MODES } from '@/utils/visualizers';
+import './VisualizerMenu.css';
+
+interface VisualizerMenuProps {
+  mode: VisualizerMode;
+  onModeChange: (mode: VisualizerMode) => void;
+  onOpenFullscreen: () => void;
+}
+
+/**
+ * VisualizerMenu Component
+ *
+ * Button with dropdown for choosing the equalizer visualizer style and
+ * opening the fullscreen visualizer. Sits next to EqualizerToggle.
+ *
+ * @param mode - Current visualizer mode
+ * @param onModeChange - Callback with the new mode
+ * @param onOpenFullscreen - Opens the fullscreen visualizer
+ */
+const VisualizerMenu: React.FC<VisualizerMenuProps> = ({
+  mode,
+  onModeChange,
+  onOpenFullscreen,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  // Close dropdown on escape key
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  const modeLabel = VISUALIZER_MODES.find((option) => option.id === mode)?.label ?? mode;
+
+  const handleSelect = (newMode: VisualizerMode) => {
+    onModeChange(newMode);
+    setIsOpen(false);
+  };
+
+  const handleFullscreen = () => {
+    onOpenFullscreen();
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="visualizer-menu" ref={dropdownRef}>
+      <button
+        className="visualizer-menu__button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={`Visualizer style: ${modeLabel}`}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+        title={`Visualizer: ${modeLabel}`}
+      >
+        <svg
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M2 12h3l3-7 4 14 4-10 2 3h4" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="visualizer-menu__dropdown" role="menu">
+          {VISUALIZER_MODES.map((option) => (
+            <button
+              key={option.id}
+              className={`visualizer-menu__option ${option.id === mode ? 'visualizer-menu__option--selected' : ''}`}
+              onClick={() => handleSelect(option.id)}
+              role="menuitemradio"
+              aria-checked={option.id === mode}
+            >
+              {option.label}
+            </button>
+          ))}
+          <div className="visualizer-menu__divider" role="separator" />
+          <button
+            className="visualizer-menu__option"
+            onClick={handleFullscreen}
+            role="menuitem"
+          >
+            Fullscreen visualizer
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VisualizerMenu;
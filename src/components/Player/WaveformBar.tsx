@@ -1,4 +1,5 @@
 import React, { useRef, useState, useEffect, useCallback } from 'react';
+import type { Bookmark, PlaybackLoop } from '@/types';
 import { useWaveform } from '@/hooks/useWaveform';
 import './WaveformBar.css';
 
@@ -7,32 +8,56 @@ interface WaveformBarProps {
   currentTime: number;
   duration: number;
   onSeek: (time: number) => void;
+  waveformData?: number[]; // pregenerated peaks for this track, if any
+  loop?: PlaybackLoop | null; // A-B loop, drawn as a shaded region
+  onLoopChange?: (loop: PlaybackLoop | null) => void; // enables drawing/resizing the loop
+  bookmarks?: Bookmark[]; // drawn as flags
 }
 
+// How close (px) the pointer must be to a loop edge to grab it
+const LOOP_EDGE_HIT_PX = 8;
+
+// How close (fraction of the width) the pointer must be to a bookmark to name it
+const BOOKMARK_HOVER_RANGE = 0.01;
+
+const NO_BOOKMARKS: Bookmark[] = [];
+
 /**
  * WaveformBar Component
  * 
  * Visual waveform progress bar that shows audio amplitude.
  * Click or drag to seek to specific position.
+ * Shift+drag draws an A-B loop (Shift+click clears it) and the loop's
+ * edges can be dragged to adjust it. Bookmarks show as flags, named on hover.
  * 
  * @param audioUrl - Current track audio file URL
  * @param currentTime - Current playback position
  * @param duration - Total track duration
  * @param onSeek - Callback when user seeks
+ * @param waveformData - Pregenerated peaks (skips loading/decoding)
+ * @param loop - Current A-B loop
+ * @param onLoopChange - Callback with the drawn/resized loop (null clears it)
+ * @param bookmarks - Current track's bookmarks
  */
 const WaveformBar: React.FC<WaveformBarProps> = ({
   audioUrl,
   currentTime,
   duration,
   onSeek,
+  waveformData: pregeneratedData,
+  loop = null,
+  onLoopChange,
+  bookmarks = NO_BOOKMARKS,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [hoveredPosition, setHoveredPosition] = useState<number | null>(null);
+  const [loopAnchor, setLoopAnchor] = useState<number | null>(null); // fixed end of a loop being dragged
+  const [isOverLoopEdge, setIsOverLoopEdge] = useState(false);
 
   // Generate waveform (100 bars)
-  const { waveformData, isLoading } = useWaveform(audioUrl, 100);
+  const { waveformData, isLoading } = useWaveform(audioUrl, 100, pregeneratedData);
 
   // Calculate progress percentage
   const progress = duration > 0 ? (currentTime / duration) : 0;
@@ -69,6 +94,17 @@ const WaveformBar: React.FC<WaveformBarProps> = ({
     const styles = getComputedStyle(canvas);
     const playedColor = styles.getPropertyValue('--color-active').trim() || '#000';
     const unplayedColor = styles.getPropertyValue('--color-border').trim() || '#ccc';
+    const markerColor = styles.getPropertyValue('--color-accent').trim() || playedColor;
+
+    // Loop region (behind the bars)
+    const loopStartX = loop && duration > 0 ? (loop.start / duration) * rect.width : null;
+    const loopEndX = loop && duration > 0 ? (loop.end / duration) * rect.width : null;
+    if (loopStartX !== null && loopEndX !== null) {
+      ctx.globalAlpha = 0.15;
+      ctx.fillStyle = playedColor;
+      ctx.fillRect(loopStartX, 0, loopEndX - loopStartX, rect.height);
+      ctx.globalAlpha = 1;
+    }
 
     // Draw waveform bars
     for (let i = 0; i < barCount; i++) {
@@ -90,6 +126,28 @@ const WaveformBar: React.FC<WaveformBarProps> = ({
       );
     }
 
+    // Loop edges
+    if (loopStartX !== null && loopEndX !== null) {
+      ctx.fillStyle = playedColor;
+      ctx.fillRect(loopStartX - 1, 0, 2, rect.height);
+      ctx.fillRect(loopEndX - 1, 0, 2, rect.height);
+    }
+
+    // Bookmarks: thin line with a flag at the top
+    if (duration > 0) {
+      ctx.fillStyle = markerColor;
+      bookmarks.forEach((bookmark) => {
+        const x = (bookmark.time / duration) * rect.width;
+        ctx.fillRect(x - 0.5, 0, 1, rect.height);
+        ctx.beginPath();
+        ctx.moveTo(x - 4, 0);
+        ctx.lineTo(x + 4, 0);
+        ctx.lineTo(x, 6);
+        ctx.closePath();
+        ctx.fill();
+      });
+    }
+
     // Draw hover indicator
     if (hoveredPosition !== null && !isDragging) {
       const hoverX = hoveredPosition * rect.width;
@@ -100,7 +158,7 @@ const WaveformBar: React.FC<WaveformBarProps> = ({
       ctx.lineTo(hoverX, rect.height);
       ctx.stroke();
     }
-  }, [waveformData, progress, hoveredPosition, isDragging]);
+  }, [waveformData, progress, hoveredPosition, isDragging, loop, bookmarks, duration]);
 
   /**
    * Calculate time from mouse/touch position
@@ -117,12 +175,41 @@ const WaveformBar: React.FC<WaveformBarProps> = ({
   };
 
   /**
-   * Handle click/drag to seek
+   * Loop edge under the pointer, returned as the opposite edge (the one
+   * that stays put while this one is dragged)
+   */
+  const getLoopAnchorAt = useCallback((clientX: number): number | null => {
+    const container = containerRef.current;
+    if (!loop || !onLoopChange || !container || duration <= 0) return null;
+
+    const rect = container.getBoundingClientRect();
+    const offsetX = clientX - rect.left;
+    if (Math.abs(offsetX - (loop.start / duration) * rect.width) <= LOOP_EDGE_HIT_PX) return loop.end;
+    if (Math.abs(offsetX - (loop.end / duration) * rect.width) <= LOOP_EDGE_HIT_PX) return loop.start;
+    return null;
+  }, [loop, onLoopChange, duration]);
+
+  /**
+   * Handle click/drag to seek (or to draw/resize the loop)
    */
   const handlePointerDown = (e: React.MouseEvent | React.TouchEvent) => {
     setIsDragging(true);
     const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
     const newTime = calculateTimeFromPosition(clientX);
+
+    if (onLoopChange) {
+      const edgeAnchor = getLoopAnchorAt(clientX);
+      if (edgeAnchor !== null) {
+        setLoopAnchor(edgeAnchor);
+        return;
+      }
+      if (e.shiftKey) {
+        setLoopAnchor(newTime);
+        onLoopChange(null);
+        return;
+      }
+    }
+
     onSeek(newTime);
   };
 
@@ -138,7 +225,11 @@ const WaveformBar: React.FC<WaveformBarProps> = ({
       const offsetX = clientX - rect.left;
       const percentage = Math.max(0, Math.min(1, offsetX / rect.width));
       const newTime = percentage * duration;
-      onSeek(newTime);
+      if (loopAnchor !== null) {
+        onLoopChange?.({ start: loopAnchor, end: newTime });
+      } else {
+        onSeek(newTime);
+      }
     } else {
       // Update hover position
       const container = containerRef.current;
@@ -147,18 +238,27 @@ const WaveformBar: React.FC<WaveformBarProps> = ({
         const offsetX = clientX - rect.left;
         const percentage = Math.max(0, Math.min(1, offsetX / rect.width));
         setHoveredPosition(percentage);
+        setIsOverLoopEdge(getLoopAnchorAt(clientX) !== null);
       }
     }
-  }, [isDragging, duration, onSeek]);
+  }, [isDragging, loopAnchor, duration, onSeek, onLoopChange, getLoopAnchorAt]);
 
   const handlePointerUp = () => {
     setIsDragging(false);
+    setLoopAnchor(null);
   };
 
   const handleMouseLeave = () => {
     setHoveredPosition(null);
+    setIsOverLoopEdge(false);
   };
 
+  // Name the bookmark under the pointer (or hint at loop drawing)
+  const hoveredBookmark = hoveredPosition !== null && duration > 0
+    ? bookmarks.find((bookmark) => Math.abs(bookmark.time / duration - hoveredPosition) <= BOOKMARK_HOVER_RANGE)
+    : undefined;
+  const title = hoveredBookmark?.name ?? (onLoopChange ? 'Shift+drag to loop a section' : undefined);
+
   // Attach global listeners for drag
   useEffect(() => {
     if (!isDragging) return;
@@ -188,11 +288,12 @@ const WaveformBar: React.FC<WaveformBarProps> = ({
   return (
     <div
       ref={containerRef}
-      className={`waveform-bar ${isDragging ? 'waveform-bar--dragging' : ''} ${isLoading ? 'waveform-bar--loading' : ''}`}
+      className={`waveform-bar ${isDragging ? 'waveform-bar--dragging' : ''} ${isOverLoopEdge || loopAnchor !== null ? 'waveform-bar--resizing' : ''} ${isLoading ? 'waveform-bar--loading' : ''}`}
       onMouseDown={handlePointerDown}
       onTouchStart={handlePointerDown}
       onMouseMove={(e) => !isDragging && handlePointerMove(e.nativeEvent)}
       onMouseLeave={handleMouseLeave}
+      title={title}
       role="slider"
       aria-label="Seek slider"
       aria-valuemin={0}
@@ -1,14 +1,18 @@
 import React from 'react';
 import Player from '../Player/Player';
+import type { QueueActions, QueueItem, TrackId } from '@/types';
 import './PlayerSection.css';
 
 interface PlayerSectionProps {
   onPlayerStateChange: (state: {
-    currentTrackId: number | null;
+    currentTrackId: TrackId | null;
     isPlaying: boolean;
     isLoading: boolean;
+    queue: QueueItem[];
+    upcomingTrackIds: TrackId[];
   }) => void;
-  trackSelectHandlerRef: React.MutableRefObject<((trackId: number) => void) | null>;
+  trackSelectHandlerRef: React.MutableRefObject<((trackId: TrackId, startTime?: number) => void) | null>;
+  queueActionsRef: React.MutableRefObject<QueueActions | null>;
 }
 
 /**
@@ -20,6 +24,7 @@ interface PlayerSectionProps {
 const PlayerSection: React.FC<PlayerSectionProps> = ({
   onPlayerStateChange,
   trackSelectHandlerRef,
+  queueActionsRef,
 }) => {
   return (
     <section className="player-section">
@@ -27,6 +32,7 @@ const PlayerSection: React.FC<PlayerSectionProps> = ({
         <Player 
           onStateChange={onPlayerStateChange}
           trackSelectHandlerRef={trackSelectHandlerRef}
+          queueActionsRef={queueActionsRef}
         />
       </div>
     </section>
@@ -0,0 +1,41 @@
+import React from 'react';
+import './ListTabs.css';
+
+export type ListView = 'tracklist' | 'queue';
+
+interface ListTabsProps {
+  view: ListView;
+  queueLength: number;
+  onChange: (view: ListView) => void;
+}
+
+/**
+ * ListTabs Component
+ *
+ * Switches a track list box between the release tracklist and the play
+ * queue. Used by the desktop floating box and the mobile tracklist.
+ */
+const ListTabs: React.FC<ListTabsProps> = ({ view, queueLength, onChange }) => {
+  return (
+    <div className="list-tabs" role="tablist" aria-label="Track lists">
+      <button
+        className={`list-tabs__tab ${view === 'tracklist' ? 'list-tabs__tab--active' : ''}`}
+        role="tab"
+        aria-selected={view === 'tracklist'}
+        onClick={() => onChange('tracklist')}
+      >
+        Tracklist
+      </button>
+      <button
+        className={`list-tabs__tab ${view === 'queue' ? 'list-tabs__tab--active' : ''}`}
+        role="tab"
+        aria-selected={view === 'queue'}
+        onClick={() => onChange('queue')}
+      >
+        Queue{queueLength > 0 ? ` (${queueLength})` : ''}
+      </button>
+    </div>
+  );
+};
+
+export default ListTabs;
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import type { QueueItem, Track, TrackId } from '@/types';
+import { getTrackById } from '@/data/catalog';
+import { formatTime } from '@/utils/formatTime';
+import './QueueView.css';
+
+interface QueueViewProps {
+  currentTrack: Track | null;
+  queue: QueueItem[];
+  upcomingTrackIds: TrackId[];
+  contextTitle: string; // release name shown above the auto-continuation
+  onPlayQueueItem: (key: string) => void;
+  onRemove: (key: string) => void;
+  onMove: (fromIndex: number, toIndex: number) => void;
+  onClear: () => void;
+  onTrackSelect: (trackId: TrackId) => void;
+}
+
+/**
+ * QueueView Component
+ *
+ * Shows what plays next: the listener's queue ("Next in queue") followed by
+ * the release or shuffle order ("Next from ...").
+ * Queue entries can be dragged to reorder, or moved with Alt + ↑/↓ and
+ * removed with Delete while focused.
+ */
+const QueueView: React.FC<QueueViewProps> = ({
+  currentTrack,
+  queue,
+  upcomingTrackIds,
+  contextTitle,
+  onPlayQueueItem,
+  onRemove,
+  onMove,
+  onClear,
+  onTrackSelect,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleDragEnd = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      onMove(dragIndex, index);
+    }
+    handleDragEnd();
+  };
+
+  /**
+   * Keyboard reordering on a focused queue entry
+   */
+  const handleItemKeyDown = (e: React.KeyboardEvent<HTMLLIElement>, index: number, key: string) => {
+    if (e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+      e.preventDefault();
+      const target = e.key === 'ArrowUp' ? index - 1 : index + 1;
+      onMove(index, target);
+
+      // Keep focus on the moved entry once it re-renders in its new slot
+      const list = e.currentTarget.parentElement;
+      requestAnimationFrame(() => {
+        const moved = list?.querySelector<HTMLElement>(`[data-queue-key="${CSS.escape(key)}"]`);
+        moved?.focus();
+      });
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      onRemove(key);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      onPlayQueueItem(key);
+    }
+  };
+
+  return (
+    <div className="queue-view">
+      {/* Header */}
+      <div className="queue-view__header">
+        <h3 className="queue-view__title">Queue</h3>
+        {queue.length > 0 && (
+          <button className="queue-view__clear" onClick={onClear}>
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="queue-view__content">
+        {/* Now Playing */}
+        {currentTrack && (
+          <section className="queue-view__section">
+            <h4 className="queue-view__section-title">Now playing</h4>
+            <div className="queue-view__row queue-view__row--current">
+              <span className="queue-view__row-title">{currentTrack.title}</span>
+              <span className="queue-view__row-duration">{formatTime(currentTrack.duration)}</span>
+            </div>
+          </section>
+        )}
+
+        {/* Listener's queue */}
+        <section className="queue-view__section">
+          <h4 className="queue-view__section-title">Next in queue</h4>
+          {queue.length === 0 ? (
+            <p className="queue-view__empty">
+              Use "Play next" or "Add to queue" on any track in the tracklist.
+            </p>
+          ) : (
+            <ol className="queue-view__list" aria-label="Queued tracks. Alt plus arrow keys to reorder, Delete to remove.">
+              {queue.map((item, index) => {
+                const track = getTrackById(item.trackId);
+                if (!track) return null;
+
+                return (
+                  <li
+                    key={item.key}
+                    data-queue-key={item.key}
+                    className={`queue-view__row queue-view__row--queued ${dragIndex === index ? 'queue-view__row--dragging' : ''} ${dropIndex === index && dragIndex !== index ? 'queue-view__row--drop-target' : ''}`}
+                    tabIndex={0}
+                    draggable
+                    onDragStart={(e) => {
+                      setDragIndex(index);
+                      e.dataTransfer.effectAllowed = 'move';
+                    }}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDropIndex(index);
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDrop(index);
+                    }}
+                    onDragEnd={handleDragEnd}
+                    onKeyDown={(e) => handleItemKeyDown(e, index, item.key)}
+                    onDoubleClick={() => onPlayQueueItem(item.key)}
+                  >
+                    <span className="queue-view__handle" aria-hidden="true">⋮⋮</span>
+                    <button
+                      className="queue-view__row-title queue-view__row-title--button"
+                      onClick={() => onPlayQueueItem(item.key)}
+                      tabIndex={-1}
+                      title="Play now"
+                    >
+                      {track.title}
+                    </button>
+                    <span className="queue-view__row-duration">{formatTime(track.duration)}</span>
+                    <button
+                      className="queue-view__remove"
+                      onClick={() => onRemove(item.key)}
+                      aria-label={`Remove ${track.title} from queue`}
+                      title="Remove from queue"
+                      tabIndex={-1}
+                    >
+                      <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <line x1="18" y1="6" x2="6" y2="18" />
+                        <line x1="6" y1="6" x2="18" y2="18" />
+                      </svg>
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </section>
+
+        {/* Release / shuffle continuation */}
+        {upcomingTrackIds.length > 0 && (
+          <section className="queue-view__section">
+            <h4 className="queue-view__section-title">Next from {contextTitle}</h4>
+            <ol className="queue-view__list">
+              {upcomingTrackIds.map((trackId) => {
+                const track = getTrackById(trackId);
+                if (!track) return null;
+
+                return (
+                  <li key={trackId} className="queue-view__row">
+                    <button
+                      className="queue-view__row-title queue-view__row-title--button"
+                      onClick={() => onTrackSelect(trackId)}
+                      title="Play now"
+                    >
+                      {track.title}
+                    </button>
+                    <span className="queue-view__row-duration">{formatTime(track.duration)}</span>
+                  </li>
+                );
+              })}
+            </ol>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QueueView;
@@ -0,0 +1,557 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import type { AudioVersion, TrackId } from '@/types';
+import { CATALOG, DEFAULT_ALBUM, getAlbumForTrack, getLyricsFile, getTrackById, getTrackFile, getTrackSlug } from '@/data/catalog';
+import { useLyricStudio } from '@/hooks/useLyricStudio';
+import { loadLRC } from '@/utils/lrcParser';
+import { buildLRC, formatLRCTime } from '@/utils/lrcWriter';
+import { detectLyricsFormat, parseLyrics } from '@/utils/lyricsFormats';
+import { formatTime } from '@/utils/formatTime';
+import WaveformBar from '../Player/WaveformBar';
+import LyricsPanel from '../Lyrics/LyricsPanel';
+import StudioTimeline from './StudioTimeline';
+import '@/styles/global.css';
+import './LyricStudio.css';
+
+// Seek and nudge steps (seconds)
+const SEEK_STEP = 2;
+const NUDGE_STEP = 0.05;
+const NUDGE_STEP_LARGE = 0.5;
+
+/**
+ * LyricStudio Component
+ *
+ * Hidden lyric timing editor at /studio (not linked from the site).
+ *
+ * Paste or load the lyrics, play the track and press Enter as each line
+ * starts. Stamps can be nudged with the keyboard or dragged on the waveform,
+ * the preview shows the sync live, and the result exports as an LRC file
+ * for public/lyrics/.
+ */
+const LyricStudio: React.FC = () => {
+  const [trackId, setTrackId] = useState<TrackId>(DEFAULT_ALBUM.tracks[0].id);
+  const [version, setVersion] = useState<AudioVersion>('vocal');
+  const [pasteText, setPasteText] = useState('');
+  const [showPreview, setShowPreview] = useState(true);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const lineListRef = useRef<HTMLOListElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  const track = getTrackById(trackId) ?? DEFAULT_ALBUM.tracks[0];
+  const album = getAlbumForTrack(track.id) ?? DEFAULT_ALBUM;
+  const audioUrl = getTrackFile(track, version);
+  const publishedFile = getLyricsFile(track); // original language
+
+  const {
+    lines,
+    metadata,
+    cursor,
+    selectedIndex,
+    timedLines,
+    loadText,
+    loadParsed,
+    stamp,
+    undoStamp,
+    setLineTime,
+    nudge,
+    select,
+    setCursor,
+    clearTimes,
+    setMetadata,
+  } = useLyricStudio(track.id);
+
+  // Keep this page out of the way of the normal site
+  useEffect(() => {
+    const previousTitle = document.title;
+    document.title = 'Lyric Studio — PRIMEAPE';
+    return () => {
+      document.title = previousTitle;
+    };
+  }, []);
+
+  // Smooth time while playing (timeupdate only fires ~4x per second)
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !isPlaying) return;
+
+    let animationFrame = requestAnimationFrame(function update() {
+      setCurrentTime(audio.currentTime);
+      animationFrame = requestAnimationFrame(update);
+    });
+
+    return () => cancelAnimationFrame(animationFrame);
+  }, [isPlaying]);
+
+  // Keep the line about to be stamped in view
+  useEffect(() => {
+    const row = lineListRef.current?.children[cursor] as HTMLElement | undefined;
+    row?.scrollIntoView({ block: 'nearest' });
+  }, [cursor]);
+
+  // Clear status messages after a moment
+  useEffect(() => {
+    if (!status) return;
+    const timer = window.setTimeout(() => setStatus(null), 2500);
+    return () => window.clearTimeout(timer);
+  }, [status]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch((error) => setStatus(`Playback failed: ${error.message}`));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seek = (time: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.max(0, Math.min(duration || Infinity, time));
+    setCurrentTime(audio.currentTime);
+  };
+
+  const stampNow = () => {
+    if (audioRef.current) stamp(audioRef.current.currentTime);
+  };
+
+  // Keyboard shortcuts (handler refreshed every render, listener attached once)
+  const handleKeyDownRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  handleKeyDownRef.current = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    if (
+      target.tagName === 'INPUT' ||
+      target.tagName === 'TEXTAREA' ||
+      target.tagName === 'SELECT' ||
+      target.isContentEditable
+    ) {
+      return;
+    }
+    if (e.ctrlKey || e.altKey || e.metaKey) return;
+
+    const nudgeStep = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+
+    switch (e.code) {
+      case 'Space':
+        e.preventDefault();
+        togglePlay();
+        break;
+      case 'Enter':
+        e.preventDefault();
+        stampNow();
+        break;
+      case 'Backspace':
+        e.preventDefault();
+        undoStamp();
+        break;
+      case 'ArrowLeft':
+        e.preventDefault();
+        seek((audioRef.current?.currentTime ?? 0) - SEEK_STEP);
+        break;
+      case 'ArrowRight':
+        e.preventDefault();
+        seek((audioRef.current?.currentTime ?? 0) + SEEK_STEP);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        select(Math.max(0, (selectedIndex ?? cursor) - 1));
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        select(Math.min(lines.length - 1, (selectedIndex ?? cursor - 1) + 1));
+        break;
+      case 'BracketLeft':
+        if (selectedIndex !== null) nudge(selectedIndex, -nudgeStep);
+        break;
+      case 'BracketRight':
+        if (selectedIndex !== null) nudge(selectedIndex, nudgeStep);
+        break;
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => handleKeyDownRef.current(e);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleTrackChange = (id: TrackId) => {
+    audioRef.current?.pause();
+    setTrackId(id);
+    setCurrentTime(0);
+    setDuration(0);
+  };
+
+  const confirmReplace = () =>
+    lines.length === 0 || window.confirm('Replace the lines you are working on?');
+
+  const handleLoadPublished = async () => {
+    if (!publishedFile || !confirmReplace()) return;
+    try {
+      loadParsed(await loadLRC(publishedFile));
+      setStatus('Loaded published lyrics');
+    } catch {
+      setStatus('Could not load the published lyrics');
+    }
+  };
+
+  const handleUseText = () => {
+    if (!pasteText.trim() || !confirmReplace()) return;
+    loadText(pasteText);
+    setPasteText('');
+  };
+
+  // Import timed lyrics (LRC, SRT, WebVTT, TTML) or plain text (one line per lyric)
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !confirmReplace()) return;
+
+    const content = await file.text();
+    const format = detectLyricsFormat(content, file.name);
+    try {
+      if (format === 'text') {
+        loadText(content);
+      } else {
+        loadParsed(parseLyrics(content, format));
+      }
+      setStatus(`Imported ${file.name}`);
+    } catch {
+      setStatus(`Could not read ${file.name}`);
+    }
+  };
+
+  // Export (tags default to the catalog data until edited)
+  const exportMetadata = useMemo(
+    () => ({ artist: album.artist, title: track.title, album: album.title, ...metadata }),
+    [album, track, metadata]
+  );
+
+  const lrc = useMemo(
+    () =>
+      buildLRC(
+        lines
+          .filter((line): line is { text: string; time: number } => line.time !== null)
+          // Taps are only accurate to a few hundredths
+          .map((line) => ({ text: line.text, time: Math.round(line.time * 100) / 100 })),
+        exportMetadata
+      ),
+    [lines, exportMetadata]
+  );
+
+  const warnings: string[] = [];
+  const unstampedCount = lines.filter((line) => line.time === null).length;
+  if (unstampedCount > 0) {
+    warnings.push(`${unstampedCount} line${unstampedCount === 1 ? '' : 's'} not stamped yet (left out of the export)`);
+  }
+  let lastTime = -1;
+  lines.forEach((line, index) => {
+    if (line.time === null) return;
+    if (line.time < lastTime) warnings.push(`Line ${index + 1} starts before the line above it`);
+    if (duration > 0 && line.time > duration) warnings.push(`Line ${index + 1} is past the end of the track`);
+    lastTime = Math.max(lastTime, line.time);
+  });
+
+  const fileName = publishedFile?.split('/').pop() ?? `${getTrackSlug(track)}.lrc`;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(lrc);
+      setStatus('LRC copied');
+    } catch {
+      setStatus('Copy failed - select the text and copy it manually');
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([lrc], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const updateMetadata = (key: 'artist' | 'title' | 'album' | 'by', value: string) => {
+    setMetadata({ ...metadata, [key]: value });
+  };
+
+  return (
+    <div className="studio">
+      <header className="studio__header">
+        <h1 className="studio__title">Lyric Studio</h1>
+
+        <select
+          className="studio__select"
+          value={track.id}
+          onChange={(e) => handleTrackChange(e.target.value)}
+          aria-label="Track"
+        >
+          {CATALOG.map((release) => (
+            <optgroup key={release.id} label={release.title}>
+              {release.tracks.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.trackNumber}. {option.title}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+
+        <select
+          className="studio__select"
+          value={track.hasVocals ? version : 'instrumental'}
+          onChange={(e) => setVersion(e.target.value as AudioVersion)}
+          aria-label="Version"
+        >
+          <option value="vocal" disabled={!track.hasVocals}>Vocal</option>
+          <option value="instrumental">Instrumental</option>
+        </select>
+
+        {status && <span className="studio__status" role="status">{status}</span>}
+      </header>
+
+      {/* Transport + waveform */}
+      <section className="studio__transport">
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          preload="auto"
+          onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        />
+
+        <div className="studio__transport-row">
+          <button className="studio__button studio__button--primary" onClick={togglePlay}>
+            {isPlaying ? 'Pause' : 'Play'}
+          </button>
+          <button
+            className="studio__button"
+            onClick={stampNow}
+            disabled={cursor >= lines.length}
+          >
+            Stamp line {cursor < lines.length ? cursor + 1 : ''}
+          </button>
+          <button className="studio__button" onClick={undoStamp} disabled={cursor === 0}>
+            Undo stamp
+          </button>
+          <span className="studio__time">
+            {formatLRCTime(currentTime, 2)} / {formatTime(duration)}
+          </span>
+        </div>
+
+        <WaveformBar
+          audioUrl={audioUrl}
+          currentTime={currentTime}
+          duration={duration}
+          onSeek={seek}
+        />
+        <StudioTimeline
+          lines={lines}
+          duration={duration}
+          selectedIndex={selectedIndex}
+          onSelect={select}
+          onTimeChange={setLineTime}
+        />
+      </section>
+
+      <div className="studio__main">
+        {/* Line editor */}
+        <section className="studio__editor">
+          <div className="studio__toolbar">
+            <button
+              className="studio__button"
+              onClick={handleLoadPublished}
+              disabled={!publishedFile}
+            >
+              Load published LRC
+            </button>
+            <label className="studio__button studio__file">
+              Import file…
+              <input type="file" accept=".lrc,.srt,.vtt,.ttml,.xml,.txt,text/plain" onChange={handleImportFile} />
+            </label>
+            <button className="studio__button" onClick={clearTimes} disabled={lines.length === 0}>
+              Clear stamps
+            </button>
+          </div>
+
+          {lines.length === 0 ? (
+            <div className="studio__paste">
+              <textarea
+                className="studio__textarea"
+                value={pasteText}
+                onChange={(e) => setPasteText(e.target.value)}
+                placeholder="Paste the lyrics here, one line per lyric line"
+                rows={10}
+              />
+              <button
+                className="studio__button studio__button--primary"
+                onClick={handleUseText}
+                disabled={!pasteText.trim()}
+              >
+                Use these lines
+              </button>
+            </div>
+          ) : (
+            <ol className="studio__lines" ref={lineListRef}>
+              {lines.map((line, index) => (
+                <li
+                  key={index}
+                  className={[
+                    'studio__line',
+                    index === cursor ? 'studio__line--cursor' : '',
+                    index === selectedIndex ? 'studio__line--selected' : '',
+                  ].filter(Boolean).join(' ')}
+                  onClick={() => {
+                    select(index);
+                    setCursor(index);
+                  }}
+                >
+                  <button
+                    className="studio__line-time"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (line.time !== null) seek(line.time);
+                    }}
+                    disabled={line.time === null}
+                    title="Play from this line"
+                  >
+                    {line.time !== null ? formatLRCTime(line.time, 2) : '--:--.--'}
+                  </button>
+                  <span className="studio__line-text">{line.text}</span>
+                  {line.time !== null && (
+                    <span className="studio__line-nudge">
+                      <button
+                        className="studio__nudge"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          nudge(index, -NUDGE_STEP);
+                        }}
+                        aria-label={`Line ${index + 1} earlier`}
+                      >
+                        −
+                      </button>
+                      <button
+                        className="studio__nudge"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          nudge(index, NUDGE_STEP);
+                        }}
+                        aria-label={`Line ${index + 1} later`}
+                      >
+                        +
+                      </button>
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+
+          <p className="studio__help">
+            <kbd>Space</kbd> play/pause · <kbd>Enter</kbd> stamp · <kbd>Backspace</kbd> undo ·{' '}
+            <kbd>←</kbd>/<kbd>→</kbd> seek {SEEK_STEP}s · <kbd>↑</kbd>/<kbd>↓</kbd> select ·{' '}
+            <kbd>[</kbd>/<kbd>]</kbd> nudge {NUDGE_STEP * 1000}ms (<kbd>Shift</kbd> {NUDGE_STEP_LARGE * 1000}ms).
+            Click a line to stamp from there.
+          </p>
+        </section>
+
+        {/* Live preview */}
+        <section className="studio__preview">
+          {showPreview ? (
+            <LyricsPanel
+              lines={timedLines}
+              currentTime={currentTime}
+              isPlaying={isPlaying}
+              isVisible={true}
+              onClose={() => setShowPreview(false)}
+              onLineClick={seek}
+              isMobile={false}
+            />
+          ) : (
+            <button className="studio__button" onClick={() => setShowPreview(true)}>
+              Show preview
+            </button>
+          )}
+        </section>
+      </div>
+
+      {/* Export */}
+      <section className="studio__export">
+        <h2 className="studio__heading">Export</h2>
+
+        <div className="studio__fields">
+          <label className="studio__field">
+            Artist [ar:]
+            <input
+              value={exportMetadata.artist ?? ''}
+              onChange={(e) => updateMetadata('artist', e.target.value)}
+            />
+          </label>
+          <label className="studio__field">
+            Title [ti:]
+            <input
+              value={exportMetadata.title ?? ''}
+              onChange={(e) => updateMetadata('title', e.target.value)}
+            />
+          </label>
+          <label className="studio__field">
+            Album [al:]
+            <input
+              value={exportMetadata.album ?? ''}
+              onChange={(e) => updateMetadata('album', e.target.value)}
+            />
+          </label>
+          <label className="studio__field">
+            Made by [by:]
+            <input
+              value={exportMetadata.by ?? ''}
+              onChange={(e) => updateMetadata('by', e.target.value)}
+            />
+          </label>
+          <label className="studio__field">
+            Offset ms [offset:]
+            <input
+              type="number"
+              step={10}
+              value={metadata.offset ?? 0}
+              onChange={(e) => setMetadata({ ...metadata, offset: parseInt(e.target.value, 10) || 0 })}
+            />
+          </label>
+        </div>
+
+        {warnings.length > 0 && (
+          <ul className="studio__warnings">
+            {warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        )}
+
+        <textarea className="studio__textarea studio__output" value={lrc} readOnly rows={8} />
+
+        <div className="studio__toolbar">
+          <button className="studio__button" onClick={handleCopy} disabled={timedLines.length === 0}>
+            Copy LRC
+          </button>
+          <button
+            className="studio__button studio__button--primary"
+            onClick={handleDownload}
+            disabled={timedLines.length === 0}
+          >
+            Download {fileName}
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default LyricStudio;
@@ -0,0 +1,89 @@
+import React, { useRef, useState } from 'react';
+import type { StudioLine } from '@/hooks/useLyricStudio';
+import './StudioTimeline.css';
+
+interface StudioTimelineProps {
+  lines: StudioLine[];
+  duration: number;
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+  onTimeChange: (index: number, time: number) => void;
+}
+
+/**
+ * StudioTimeline Component
+ *
+ * Marker strip under the waveform: one handle per stamped line. Drag a
+ * handle to retime its line; a guide line shows it against the waveform.
+ *
+ * @param lines - Lines being timed
+ * @param duration - Track duration in seconds
+ * @param selectedIndex - Highlighted line
+ * @param onSelect - Called when a handle is grabbed
+ * @param onTimeChange - Called with the new time while dragging
+ */
+const StudioTimeline: React.FC<StudioTimelineProps> = ({
+  lines,
+  duration,
+  selectedIndex,
+  onSelect,
+  onTimeChange,
+}) => {
+  const stripRef = useRef<HTMLDivElement>(null);
+  const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+
+  const getTimeFromPosition = (clientX: number): number => {
+    const rect = stripRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    const percentage = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return Math.round(percentage * duration * 100) / 100;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent, index: number) => {
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDraggingIndex(index);
+    onSelect(index);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent, index: number) => {
+    if (draggingIndex !== index) return;
+    onTimeChange(index, getTimeFromPosition(event.clientX));
+  };
+
+  const handlePointerUp = () => setDraggingIndex(null);
+
+  if (duration <= 0) return null;
+
+  return (
+    <div className="studio-timeline" ref={stripRef}>
+      {lines.map((line, index) => {
+        if (line.time === null) return null;
+        const left = `${Math.min(100, (line.time / duration) * 100)}%`;
+        const isSelected = index === selectedIndex;
+
+        return (
+          <React.Fragment key={index}>
+            <div
+              className={`studio-timeline__guide ${isSelected ? 'studio-timeline__guide--selected' : ''}`}
+              style={{ left }}
+            />
+            <div
+              className={`studio-timeline__handle ${isSelected ? 'studio-timeline__handle--selected' : ''}`}
+              style={{ left }}
+              onPointerDown={(event) => handlePointerDown(event, index)}
+              onPointerMove={(event) => handlePointerMove(event, index)}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              title={`Line ${index + 1}: ${line.text}`}
+            >
+              {index + 1}
+            </div>
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StudioTimeline;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import type { TrackId } from '@/types';
+import { getTrackById } from '@/data/catalog';
+import { useLyricSearch } from '@/hooks/useLyricSearch';
+import type { LyricSearchResult } from '@/utils/lyricSearch';
+import { formatTime } from '@/utils/formatTime';
+import './LyricSearch.css';
+
+interface LyricSearchProps {
+  onSelect: (trackId: TrackId, time: number) => void;
+}
+
+/**
+ * Lyric text with the matched words wrapped in <mark>
+ */
+const renderSnippet = ({ entry, highlights }: LyricSearchResult): React.ReactNode[] => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach(([start, end]) => {
+    if (start > position) parts.push(entry.text.slice(position, start));
+    parts.push(<mark key={start}>{entry.text.slice(start, end)}</mark>);
+    position = end;
+  });
+  if (position < entry.text.length) parts.push(entry.text.slice(position));
+  return parts;
+};
+
+/**
+ * LyricSearch Component
+ *
+ * Search box at the top of the tracklist for finding a song by its words.
+ * Matches are listed with the hit highlighted; picking one plays the track
+ * from that line.
+ *
+ * @param onSelect - Called with the track and line start time (seconds)
+ */
+const LyricSearch: React.FC<LyricSearchProps> = ({ onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const { results, isIndexing } = useLyricSearch(query);
+  const hasQuery = query.trim() !== '';
+
+  const select = (result: LyricSearchResult) => {
+    onSelect(result.entry.trackId, result.entry.time);
+    setQuery('');
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setQuery(e.target.value);
+    setActiveIndex(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && results.length > 0) {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % results.length);
+    } else if (e.key === 'ArrowUp' && results.length > 0) {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + results.length) % results.length);
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      select(results[activeIndex]);
+    } else if (e.key === 'Escape' && hasQuery) {
+      e.stopPropagation();
+      setQuery('');
+    }
+  };
+
+  return (
+    <div className="lyric-search">
+      <input
+        className="lyric-search__input"
+        type="search"
+        value={query}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        placeholder="Search lyrics…"
+        aria-label="Search lyrics"
+        aria-controls="lyric-search-results"
+        aria-activedescendant={results[activeIndex] ? `lyric-search-result-${activeIndex}` : undefined}
+      />
+
+      {hasQuery && (
+        <div className="lyric-search__results" id="lyric-search-results" role="listbox" aria-label="Lyric matches">
+          {isIndexing ? (
+            <p className="lyric-search__status">Loading lyrics…</p>
+          ) : results.length === 0 ? (
+            <p className="lyric-search__status">No lyrics match “{query.trim()}”</p>
+          ) : (
+            results.map((result, index) => (
+              <button
+                key={`${result.entry.trackId}-${result.entry.line}`}
+                id={`lyric-search-result-${index}`}
+                className={`lyric-search__result ${index === activeIndex ? 'lyric-search__result--active' : ''}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                tabIndex={-1}
+                onClick={() => select(result)}
+                onMouseEnter={() => setActiveIndex(index)}
+              >
+                <span className="lyric-search__snippet">{renderSnippet(result)}</span>
+                <span className="lyric-search__meta">
+                  {getTrackById(result.entry.trackId)?.title ?? result.entry.trackId} · {formatTime(result.entry.time)}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LyricSearch;
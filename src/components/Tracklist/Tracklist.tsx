@@ -1,14 +1,18 @@
 import React, { useRef, useEffect } from 'react';
-import type { Track } from '@/types';
+import type { Track, TrackId } from '@/types';
 import TracklistItem from './TracklistItem';
+import LyricSearch from './LyricSearch';
 import './Tracklist.css';
 
 interface TracklistProps {
   tracks: Track[];
-  currentTrackId: number | null;
+  currentTrackId: TrackId | null;
   isPlaying: boolean;
   isLoading: boolean;
-  onTrackSelect: (trackId: number) => void;
+  onTrackSelect: (trackId: TrackId) => void;
+  onPlayNext?: (trackId: TrackId) => void;
+  onAddToQueue?: (trackId: TrackId) => void;
+  onLyricSelect?: (trackId: TrackId, time: number) => void; // shows the lyric search box
 }
 
 /**
@@ -18,6 +22,7 @@ interface TracklistProps {
  * Displays on the LEFT side of the player (desktop).
  * Auto-scrolls to keep current track visible.
  * Click any track to play it.
+ * Lyric search (when enabled) finds a line across every track.
  */
 const Tracklist: React.FC<TracklistProps> = ({
   tracks,
@@ -25,6 +30,9 @@ const Tracklist: React.FC<TracklistProps> = ({
   isPlaying,
   isLoading,
   onTrackSelect,
+  onPlayNext,
+  onAddToQueue,
+  onLyricSelect,
 }) => {
   const tracklistRef = useRef<HTMLDivElement>(null);
 
@@ -71,6 +79,8 @@ const Tracklist: React.FC<TracklistProps> = ({
         <span className="tracklist__count">{tracks.length} tracks</span>
       </div>
 
+      {onLyricSelect && <LyricSearch onSelect={onLyricSelect} />}
+
       {/* Track List */}
       <div className="tracklist__content">
         {tracks.length === 0 ? (
@@ -86,6 +96,8 @@ const Tracklist: React.FC<TracklistProps> = ({
               isPlaying={isPlaying}
               isLoading={isLoading && track.id === currentTrackId}
               onClick={() => onTrackSelect(track.id)}
+              onPlayNext={onPlayNext ? () => onPlayNext(track.id) : undefined}
+              onAddToQueue={onAddToQueue ? () => onAddToQueue(track.id) : undefined}
             />
           ))
         )}
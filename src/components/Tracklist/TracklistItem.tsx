@@ -9,6 +9,8 @@ interface TracklistItemProps {
   isPlaying: boolean;
   isLoading: boolean;
   onClick: () => void;
+  onPlayNext?: () => void;
+  onAddToQueue?: () => void;
 }
 
 /**
@@ -18,6 +20,7 @@ interface TracklistItemProps {
  * Shows track number, title, and duration.
  * Highlights when it's the current track.
  * Shows play/pause icon for current track.
+ * Optional hover actions add the track to the play queue.
  */
 const TracklistItem: React.FC<TracklistItemProps> = ({
   track,
@@ -25,8 +28,12 @@ const TracklistItem: React.FC<TracklistItemProps> = ({
   isPlaying,
   isLoading,
   onClick,
+  onPlayNext,
+  onAddToQueue,
 }) => {
-  return (
+  const hasQueueActions = !!(onPlayNext || onAddToQueue);
+
+  const item = (
     <button
       className={`tracklist-item ${isCurrentTrack ? 'tracklist-item--current' : ''}`}
       onClick={onClick}
@@ -59,7 +66,7 @@ const TracklistItem: React.FC<TracklistItemProps> = ({
             )}
           </div>
         ) : (
-          <span className="tracklist-item__track-number">{track.id}</span>
+          <span className="tracklist-item__track-number">{track.trackNumber}</span>
         )}
       </div>
 
@@ -72,6 +79,47 @@ const TracklistItem: React.FC<TracklistItemProps> = ({
       </div>
     </button>
   );
+
+  if (!hasQueueActions) return item;
+
+  return (
+    <div className="tracklist-item-wrapper">
+      {item}
+
+      {/* Queue actions (revealed on hover / keyboard focus) */}
+      <div className="tracklist-item__actions">
+        {onPlayNext && (
+          <button
+            className="tracklist-item__action"
+            onClick={onPlayNext}
+            aria-label={`Play ${track.title} next`}
+            title="Play next"
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <polygon points="5 4 15 12 5 20 5 4" />
+              <line x1="19" y1="5" x2="19" y2="19" />
+            </svg>
+          </button>
+        )}
+        {onAddToQueue && (
+          <button
+            className="tracklist-item__action"
+            onClick={onAddToQueue}
+            aria-label={`Add ${track.title} to queue`}
+            title="Add to queue"
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <line x1="3" y1="6" x2="15" y2="6" />
+              <line x1="3" y1="12" x2="15" y2="12" />
+              <line x1="3" y1="18" x2="11" y2="18" />
+              <line x1="18" y1="15" x2="18" y2="21" />
+              <line x1="15" y1="18" x2="21" y2="18" />
+            </svg>
+          </button>
+        )}
+      </div>
+    </div>
+  );
 };
 
 export default TracklistItem;
\ No newline at end of file
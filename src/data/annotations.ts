@@ -0,0 +1,130 @@
+import type { LyricAnnotation, TrackId } from '@/types';
+import { getTrackById } from './catalog';
+
+/**
+ * Lyric Annotations
+ *
+ * Liner notes on individual lyric lines: what a line refers to, with
+ * sources and optional images. Shown as a card from the lyrics panel and
+ * linkable with ?note=<line>.
+ *
+ * TO ADD AN ANNOTATION:
+ * 1. Find the line number (1-based, in time order - as in the lyrics panel)
+ * 2. Append an entry below; separate paragraphs in `body` with a blank line
+ * 3. Images go in public/artwork/annotations/
+ */
+
+export const ANNOTATIONS: LyricAnnotation[] = [
+  {
+    trackId: 'foundation-02',
+    line: 36,
+    title: 'Memetics',
+    body:
+      'A meme, in Richard Dawkins\' original sense, is a unit of culture - an idea, habit or tune - that spreads by imitation and competes for attention the way genes compete for survival.\n\n' +
+      'Speech made copying fast: ideas could now outpace the biology that produced them.',
+    references: [
+      { label: 'Richard Dawkins, The Selfish Gene (1976), ch. 11' },
+      { label: 'Memetics - Wikipedia', url: 'https://en.wikipedia.org/wiki/Memetics' },
+    ],
+  },
+  {
+    trackId: 'foundation-04',
+    line: 16,
+    title: 'Fungi and the first soil',
+    body:
+      'Before plants could colonize land, fungi and lichens were breaking bare rock down chemically. Their weathering produced the first soils, and plants arrived in partnership with fungi that fed them minerals.',
+    references: [
+      { label: 'Biological weathering - Wikipedia', url: 'https://en.wikipedia.org/wiki/Weathering#Biological_weathering' },
+    ],
+  },
+  {
+    trackId: 'foundation-05',
+    line: 1,
+    title: 'The seven deadly sins',
+    body:
+      'The verse works through the seven deadly sins of Christian moral tradition: pride, greed, wrath, envy, lust, gluttony and sloth.\n\n' +
+      'Each one is recast as a drive the brain was built with rather than a moral failing that comes from outside.',
+    references: [
+      { label: 'Seven deadly sins - Wikipedia', url: 'https://en.wikipedia.org/wiki/Seven_deadly_sins' },
+    ],
+  },
+  {
+    trackId: 'foundation-05',
+    line: 13,
+    title: 'The limbic system',
+    body:
+      'The limbic system is the group of brain structures - amygdala, hippocampus, hypothalamus and others - that handles emotion, motivation and memory. Its responses mostly happen below conscious awareness, "hidden from the limits of vision".',
+    references: [
+      { label: 'Limbic system - Wikipedia', url: 'https://en.wikipedia.org/wiki/Limbic_system' },
+    ],
+  },
+  {
+    trackId: 'foundation-05',
+    line: 22,
+    title: 'Dopamine and reward',
+    body:
+      'Dopaminergic pathways carry the brain\'s reward signal: they reinforce whatever produced the pleasure. The same circuitry that rewards eating and reproduction is what addictive substances and behaviors hijack.',
+    references: [
+      { label: 'Reward system - Wikipedia', url: 'https://en.wikipedia.org/wiki/Reward_system' },
+    ],
+  },
+];
+
+// Lookup table built once at module load: track ID -> line -> annotation
+const annotationsByTrack = new Map<TrackId, Map<number, LyricAnnotation>>();
+
+ANNOTATIONS.forEach((annotation) => {
+  const lines = annotationsByTrack.get(annotation.trackId) ?? new Map<number, LyricAnnotation>();
+  if (lines.has(annotation.line)) {
+    console.warn(`Duplicate annotation: ${annotation.trackId} line ${annotation.line}`);
+  }
+  lines.set(annotation.line, annotation);
+  annotationsByTrack.set(annotation.trackId, lines);
+});
+
+const EMPTY_ANNOTATIONS: ReadonlyMap<number, LyricAnnotation> = new Map();
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Get a track's annotations
+ * @param trackId - Track ID
+ * @returns Annotations keyed by 1-based lyric line (empty if none)
+ */
+export const getAnnotationsForTrack = (trackId: TrackId): ReadonlyMap<number, LyricAnnotation> => {
+  return annotationsByTrack.get(trackId) ?? EMPTY_ANNOTATIONS;
+};
+
+/**
+ * Get the annotation on one lyric line
+ * @param trackId - Track ID
+ * @param line - 1-based lyric line
+ * @returns Annotation or undefined if the line has none
+ */
+export const getAnnotation = (trackId: TrackId, line: number): LyricAnnotation | undefined => {
+  return annotationsByTrack.get(trackId)?.get(line);
+};
+
+/**
+ * Search annotations by title, text, sources and track title
+ * Every word of the query has to match (case-insensitive).
+ * @param query - Search text (empty returns every annotation)
+ * @returns Matching annotations, in the order listed above
+ */
+export const searchAnnotations = (query: string): LyricAnnotation[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return ANNOTATIONS.filter((annotation) => {
+    const haystack = [
+      annotation.title,
+      annotation.body,
+      getTrackById(annotation.trackId)?.title ?? '',
+      ...(annotation.references ?? []).map((reference) => reference.label),
+    ]
+      .join(' ')
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+};
@@ -0,0 +1,202 @@
+import type { Album, AudioVersion, Track, TrackId } from '@/types';
+import waveformPeaks from 'virtual:waveform-peaks';
+import { FOUNDATION_ALBUM } from './album';
+
+/**
+ * PRIMEAPE Catalog
+ *
+ * Every release hosted on the site (albums, EPs, singles), newest last.
+ * Track IDs are prefixed with their release ID so they stay unique across
+ * the whole catalog.
+ *
+ * TO ADD A RELEASE:
+ * 1. Create its data file next to album.ts (same shape as FOUNDATION_ALBUM)
+ * 2. Append it to CATALOG below
+ */
+
+export const CATALOG: Album[] = [FOUNDATION_ALBUM];
+
+/**
+ * Release loaded when the player first mounts
+ */
+export const DEFAULT_ALBUM: Album = FOUNDATION_ALBUM;
+
+// Lookup tables built once at module load
+const albumsById = new Map<string, Album>(CATALOG.map((album) => [album.id, album]));
+const tracksById = new Map<TrackId, Track>();
+const albumIdByTrackId = new Map<TrackId, string>();
+const tracksByFile = new Map<string, { track: Track; version: AudioVersion }>();
+
+CATALOG.forEach((album) => {
+  album.tracks.forEach((track) => {
+    if (tracksById.has(track.id)) {
+      console.warn(`Duplicate track ID in catalog: ${track.id}`);
+    }
+    tracksById.set(track.id, track);
+    albumIdByTrackId.set(track.id, album.id);
+    tracksByFile.set(track.instrumentalFile, { track, version: 'instrumental' });
+    if (track.hasVocals) {
+      tracksByFile.set(track.vocalFile, { track, version: 'vocal' });
+    }
+  });
+});
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Get a release by its ID
+ * @param id - Release ID (e.g. 'foundation')
+ * @returns Album object or undefined if not found
+ */
+export const getAlbumById = (id: string): Album | undefined => {
+  return albumsById.get(id);
+};
+
+/**
+ * Get a track by its catalog-wide ID
+ * @param id - Track ID to find
+ * @returns Track object or undefined if not found
+ */
+export const getTrackById = (id: TrackId): Track | undefined => {
+  return tracksById.get(id);
+};
+
+/**
+ * Get the release a track belongs to
+ * @param trackId - Track ID
+ * @returns Album object or undefined if the track is not in the catalog
+ */
+export const getAlbumForTrack = (trackId: TrackId): Album | undefined => {
+  const albumId = albumIdByTrackId.get(trackId);
+  return albumId ? albumsById.get(albumId) : undefined;
+};
+
+/**
+ * Get the IDs of every track on the same release as the given track
+ * @param trackId - Track ID
+ * @returns Track IDs in release order (empty if track not found)
+ */
+export const getSiblingTrackIds = (trackId: TrackId): TrackId[] => {
+  const album = getAlbumForTrack(trackId);
+  return album ? album.tracks.map((track) => track.id) : [];
+};
+
+/**
+ * Get the next track ID in sequence within the same release
+ * @param currentId - Current track ID
+ * @returns Next track ID (loops back to first track of the release at end)
+ */
+export const getNextTrackId = (currentId: TrackId): TrackId => {
+  const tracks = getAlbumForTrack(currentId)?.tracks ?? DEFAULT_ALBUM.tracks;
+  const currentIndex = tracks.findIndex((track) => track.id === currentId);
+  if (currentIndex === -1 || currentIndex === tracks.length - 1) {
+    return tracks[0].id; // Loop back to first track
+  }
+  return tracks[currentIndex + 1].id;
+};
+
+/**
+ * Get the previous track ID in sequence within the same release
+ * @param currentId - Current track ID
+ * @returns Previous track ID (loops to last track at beginning)
+ */
+export const getPreviousTrackId = (currentId: TrackId): TrackId => {
+  const tracks = getAlbumForTrack(currentId)?.tracks ?? DEFAULT_ALBUM.tracks;
+  const currentIndex = tracks.findIndex((track) => track.id === currentId);
+  if (currentIndex === -1 || currentIndex === 0) {
+    return tracks[tracks.length - 1].id; // Loop to last track
+  }
+  return tracks[currentIndex - 1].id;
+};
+
+/**
+ * Check whether a track is the final track of its release
+ * @param trackId - Track ID
+ * @returns True if no track follows it on the release
+ */
+export const isLastTrackOfAlbum = (trackId: TrackId): boolean => {
+  const tracks = getAlbumForTrack(trackId)?.tracks ?? [];
+  return tracks.length > 0 && tracks[tracks.length - 1].id === trackId;
+};
+
+/**
+ * Get the URL slug for a track (used by deep links, e.g. /track/a-good-day)
+ * @param track - Track object
+ * @returns Lowercase, hyphen-separated title
+ */
+export const getTrackSlug = (track: Track): string => {
+  return track.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+/**
+ * Find a track by its URL slug
+ * When releases share a title, the earliest release in the catalog wins.
+ * @param slug - Track slug
+ * @returns Track object or undefined if not found
+ */
+export const getTrackBySlug = (slug: string): Track | undefined => {
+  const normalized = slug.toLowerCase();
+  for (const album of CATALOG) {
+    const match = album.tracks.find((track) => getTrackSlug(track) === normalized);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+/**
+ * Get the audio file for a track in the requested version
+ * Falls back to the instrumental when the vocal version isn't uploaded yet
+ * @param track - Track object
+ * @param version - Preferred audio version
+ * @returns Path to the MP3 file
+ */
+export const getTrackFile = (track: Track, version: AudioVersion): string => {
+  return version === 'vocal' && track.hasVocals ? track.vocalFile : track.instrumentalFile;
+};
+
+/**
+ * Get the waveform peaks for the file getTrackFile picks
+ * Peaks shipped in the release data win over the ones generated at build time.
+ * @param track - Track object
+ * @param version - Preferred audio version
+ * @returns Peaks, or undefined when none were generated
+ */
+export const getTrackWaveform = (track: Track, version: AudioVersion): number[] | undefined => {
+  const playedVersion: AudioVersion = version === 'vocal' && track.hasVocals ? 'vocal' : 'instrumental';
+  return track.waveformData?.[playedVersion] ?? waveformPeaks[getTrackFile(track, playedVersion)];
+};
+
+/**
+ * Find the track and version an audio file belongs to
+ * @param file - Path to an MP3 file (as in vocalFile / instrumentalFile)
+ * @returns Track and version, or undefined if the file isn't in the catalog
+ */
+export const getTrackByFile = (file: string): { track: Track; version: AudioVersion } | undefined => {
+  return tracksByFile.get(file);
+};
+
+/**
+ * Get the languages a track has lyrics in
+ * @param track - Track object
+ * @returns Language codes, original first (empty if no lyrics yet)
+ */
+export const getLyricsLanguages = (track: Track): string[] => {
+  return Object.keys(track.lyrics ?? {});
+};
+
+/**
+ * Get a track's LRC file in the requested language
+ * Falls back to the original lyrics when that translation doesn't exist
+ * @param track - Track object
+ * @param language - Preferred language code (omit for the original)
+ * @returns Path to the LRC file or null if the track has no lyrics yet
+ */
+export const getLyricsFile = (track: Track, language?: string): string | null => {
+  if (!track.lyrics) return null;
+  return (language && track.lyrics[language]) || Object.values(track.lyrics)[0] || null;
+};
@@ -11,10 +11,12 @@ import {
   trackSeek,
   trackVersionToggle,
   trackVolumeChange,
+  trackPlaybackRateChange,
   trackShuffleToggle,
   trackRepeatToggle,
   trackLyricsToggle,
   trackSocialClick,
+  trackShareClick,
   trackMerchView,
   trackDownloadClick,
   trackDonationClick,
@@ -32,10 +34,12 @@ import type {
   SeekParams,
   VersionToggleParams,
   VolumeChangeParams,
+  PlaybackRateChangeParams,
   ShuffleToggleParams,
   RepeatToggleParams,
   LyricsToggleParams,
   SocialClickParams,
+  ShareClickParams,
   MerchViewParams,
   ContactSubmitParams,
   SectionViewParams,
@@ -108,6 +112,13 @@ export function useAnalytics() {
     }, 500);
   }, []);
 
+  /**
+   * Track playback speed change with memoization
+   */
+  const handlePlaybackRateChange = useCallback((params: PlaybackRateChangeParams) => {
+    trackPlaybackRateChange(params);
+  }, []);
+
   /**
    * Track shuffle toggle with memoization
    */
@@ -136,6 +147,13 @@ export function useAnalytics() {
     trackSocialClick(params);
   }, []);
 
+  /**
+   * Track share click with memoization
+   */
+  const handleShareClick = useCallback((params: ShareClickParams) => {
+    trackShareClick(params);
+  }, []);
+
   /**
    * Track merch view with memoization
    */
@@ -192,12 +210,14 @@ export function useAnalytics() {
     trackSeek: handleSeek,
     trackVersionToggle: handleVersionToggle,
     trackVolumeChange: handleVolumeChange,
+    trackPlaybackRateChange: handlePlaybackRateChange,
     trackShuffleToggle: handleShuffleToggle,
     trackRepeatToggle: handleRepeatToggle,
 
     // UI tracking
     trackLyricsToggle: handleLyricsToggle,
     trackSocialClick: handleSocialClick,
+    trackShareClick: handleShareClick,
     trackMerchView: handleMerchView,
 
     // Conversion tracking
@@ -0,0 +1,166 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { EffectsPreset, EffectsSettings } from '@/types';
+import {
+  DEFAULT_EFFECTS_SETTINGS,
+  EFFECTS_PRESETS,
+  EQ_BANDS,
+  EQ_GAIN_RANGE,
+  MAX_STEREO_WIDTH,
+  type EffectsChain,
+} from '@/utils/audioEffects';
+
+/**
+ * Parse saved settings, falling back to defaults for anything invalid
+ */
+const parseSettings = (saved: string | null): EffectsSettings => {
+  if (!saved) return DEFAULT_EFFECTS_SETTINGS;
+  try {
+    const parsed = JSON.parse(saved) as Partial<EffectsSettings>;
+    return {
+      enabled: parsed.enabled === true,
+      eqGains: EQ_BANDS.map((_, index) => {
+        const gain = Array.isArray(parsed.eqGains) ? Number(parsed.eqGains[index]) : 0;
+        return isFinite(gain) ? Math.max(-EQ_GAIN_RANGE, Math.min(EQ_GAIN_RANGE, gain)) : 0;
+      }),
+      compressor: parsed.compressor === true,
+      stereoWidth:
+        typeof parsed.stereoWidth === 'number'
+          ? Math.max(0, Math.min(MAX_STEREO_WIDTH, parsed.stereoWidth))
+          : 1,
+    };
+  } catch (e) {
+    console.warn('Failed to restore effects settings from localStorage:', e);
+    return DEFAULT_EFFECTS_SETTINGS;
+  }
+};
+
+/**
+ * Parse saved custom presets, dropping malformed entries
+ */
+const parseCustomPresets = (saved: string | null): EffectsPreset[] => {
+  if (!saved) return [];
+  try {
+    const parsed: unknown = JSON.parse(saved);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((preset): preset is EffectsPreset =>
+        !!preset && typeof preset.id === 'string' && typeof preset.name === 'string' && Array.isArray(preset.eqGains)
+      )
+      .map((preset) => ({ ...preset, isCustom: true }));
+  } catch (e) {
+    console.warn('Failed to restore effects presets from localStorage:', e);
+    return [];
+  }
+};
+
+/**
+ * Check whether settings match a preset (ignores the on/off switch)
+ */
+const matchesPreset = (settings: EffectsSettings, preset: EffectsPreset): boolean =>
+  settings.compressor === preset.compressor &&
+  settings.stereoWidth === preset.stereoWidth &&
+  EQ_BANDS.every((_, index) => (settings.eqGains[index] ?? 0) === (preset.eqGains[index] ?? 0));
+
+/**
+ * useAudioEffects Hook
+ *
+ * Owns the listener's EQ / compressor / stereo width settings, applies them
+ * to the player's effects chain and persists them (plus custom presets)
+ * to localStorage.
+ *
+ * @param chain - Effects chain from useAudioPlayer (null until audio is set up)
+ * @returns Settings, presets and update actions
+ */
+export function useAudioEffects(chain: EffectsChain | null) {
+  const [settings, setSettings] = useState<EffectsSettings>(() =>
+    parseSettings(localStorage.getItem('primeape_effects'))
+  );
+  const [customPresets, setCustomPresets] = useState<EffectsPreset[]>(() =>
+    parseCustomPresets(localStorage.getItem('primeape_effects_presets'))
+  );
+
+  const presets = [...EFFECTS_PRESETS, ...customPresets];
+  const activePreset = presets.find((preset) => matchesPreset(settings, preset)) ?? null;
+
+  // Apply to the audio graph
+  useEffect(() => {
+    chain?.apply(settings);
+  }, [chain, settings]);
+
+  // Save settings
+  useEffect(() => {
+    localStorage.setItem('primeape_effects', JSON.stringify(settings));
+  }, [settings]);
+
+  // Save custom presets
+  useEffect(() => {
+    localStorage.setItem(
+      'primeape_effects_presets',
+      JSON.stringify(customPresets.map(({ isCustom: _isCustom, ...preset }) => preset))
+    );
+  }, [customPresets]);
+
+  const setEnabled = useCallback((enabled: boolean) => {
+    setSettings((prev) => ({ ...prev, enabled }));
+  }, []);
+
+  const setBandGain = useCallback((index: number, gain: number) => {
+    setSettings((prev) => ({
+      ...prev,
+      enabled: true,
+      eqGains: prev.eqGains.map((value, i) => (i === index ? gain : value)),
+    }));
+  }, []);
+
+  const setCompressor = useCallback((compressor: boolean) => {
+    setSettings((prev) => ({ ...prev, enabled: true, compressor }));
+  }, []);
+
+  const setStereoWidth = useCallback((stereoWidth: number) => {
+    setSettings((prev) => ({ ...prev, enabled: true, stereoWidth }));
+  }, []);
+
+  const applyPreset = useCallback((preset: EffectsPreset) => {
+    setSettings({
+      enabled: true,
+      eqGains: EQ_BANDS.map((_, index) => preset.eqGains[index] ?? 0),
+      compressor: preset.compressor,
+      stereoWidth: preset.stereoWidth,
+    });
+  }, []);
+
+  const savePreset = useCallback((name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    setCustomPresets((prev) => [
+      // Saving under an existing name replaces that preset
+      ...prev.filter((preset) => preset.name !== trimmed),
+      {
+        id: `custom-${Date.now()}`,
+        name: trimmed,
+        eqGains: [...settings.eqGains],
+        compressor: settings.compressor,
+        stereoWidth: settings.stereoWidth,
+        isCustom: true,
+      },
+    ]);
+  }, [settings]);
+
+  const deletePreset = useCallback((id: string) => {
+    setCustomPresets((prev) => prev.filter((preset) => preset.id !== id));
+  }, []);
+
+  return {
+    settings,
+    presets,
+    activePreset,
+    setEnabled,
+    setBandGain,
+    setCompressor,
+    setStereoWidth,
+    applyPreset,
+    savePreset,
+    deletePreset,
+  };
+}
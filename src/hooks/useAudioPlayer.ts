@@ -1,7 +1,28 @@
-import { useState, useRef, useEffect, useCallback } from 'react';
-import type { PlaybackState, AudioVersion, RepeatMode } from '@/types';
-import { getTrackById, getNextTrackId, getPreviousTrackId, FOUNDATION_ALBUM } from '@/data/album';
-import { shuffleArray, getNextShuffledItem, getPreviousShuffledItem } from '@/utils/shuffleArray';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import type { Album, PlaybackState, AudioVersion, PlaybackLoop, PlayerSession, QueueItem, RepeatMode, TrackId } from '@/types';
+import {
+  getAlbumById,
+  getAlbumForTrack,
+  getTrackById,
+  getNextTrackId,
+  getPreviousTrackId,
+  getSiblingTrackIds,
+  getTrackFile,
+  isLastTrackOfAlbum,
+  DEFAULT_ALBUM,
+} from '@/data/catalog';
+import { shuffleArray, getPreviousShuffledItem } from '@/utils/shuffleArray';
+import {
+  createQueueItem,
+  insertNext,
+  appendToQueue,
+  removeQueueItem,
+  moveQueueItem as moveItemInQueue,
+} from '@/utils/playQueue';
+import { scheduleFade, resetGain, rampGain } from '@/utils/crossfadeCurves';
+import { linkStem, getLoadedVersion, type StemLink } from '@/utils/stemSync';
+import { createEffectsChain, type EffectsChain } from '@/utils/audioEffects';
+import { loadSession, saveSession } from '@/utils/playerSession';
 import {
   trackPlay,
   trackPause,
@@ -9,71 +30,255 @@ import {
   trackSkip,
   trackAudioError,
   trackSeek,
-  trackVersionToggle
+  trackVersionToggle,
+  trackPlaybackRateChange
 } from '@/utils/analytics';
 
+interface UseAudioPlayerOptions {
+  // Where to start instead of the saved session (e.g. from a deep link)
+  startAt?: { trackId: TrackId; time?: number; version?: AudioVersion };
+}
+
 interface UseAudioPlayerReturn {
   // State
-  currentTrackId: number | null;
+  currentTrackId: TrackId | null;
+  currentAlbum: Album;
   playbackState: PlaybackState;
   currentTime: number;
   duration: number;
   audioVersion: AudioVersion;
+  vocalLevel: number; // 0-1 blend of the two versions (1 = all vocal)
   volume: number;
   isMuted: boolean;
   isShuffled: boolean;
   repeatMode: RepeatMode;
+  crossfadeDuration: number;
+  playbackRate: number; // 1 = normal speed (pitch is preserved)
+  loop: PlaybackLoop | null; // A-B section repeated until cleared
+  queue: QueueItem[]; // listener's "Up Next" entries, played before the release order
+  upcomingTrackIds: TrackId[]; // release/shuffle order that follows the queue
+  resumePoint: { trackId: TrackId; time: number } | null; // saved position offered on reload
+  activeDeck: 0 | 1; // which of deckRefs is playing
   error: string | null;
   
   // Actions
   play: () => Promise<void>;
   pause: () => void;
   togglePlayPause: () => void;
-  loadTrack: (trackId: number) => void;
+  loadTrack: (trackId: TrackId, startTime?: number) => void; // startTime in seconds
+  selectAlbum: (albumId: string) => void;
   nextTrack: () => void;
   prevTrack: () => void;
   seek: (time: number) => void;
   toggleVersion: () => void;
+  setVocalLevel: (level: number) => void;
   setVolume: (volume: number) => void;
   toggleMute: () => void;
   toggleShuffle: () => void;
   toggleRepeat: () => void;
+  setCrossfadeDuration: (seconds: number) => void;
+  setPlaybackRate: (rate: number) => void;
+  setLoop: (loop: PlaybackLoop | null) => void; // null clears it
+  setLoopStart: (time: number) => void; // A marker
+  setLoopEnd: (time: number) => void; // B marker
+  holdListeningSettings: () => void; // later vocal level/speed changes aren't saved
+  restoreListeningSettings: () => void; // back to the held settings, saved again
+  playNext: (trackId: TrackId) => void;
+  addToQueue: (trackId: TrackId) => void;
+  removeFromQueue: (key: string) => void;
+  moveQueueItem: (fromIndex: number, toIndex: number) => void;
+  clearQueue: () => void;
+  playFromQueue: (key: string) => void;
+  dismissResume: () => void;
   
   // Refs
-  audioRef: React.RefObject<HTMLAudioElement>;
+  audioRef: React.RefObject<HTMLAudioElement>; // always points at the active deck
+  deckRefs: [React.RefObject<HTMLAudioElement>, React.RefObject<HTMLAudioElement>];
+  stemRefs: [React.RefObject<HTMLAudioElement>, React.RefObject<HTMLAudioElement>]; // other version of each deck's track
   audioContext: AudioContext | null;
-  sourceNode: MediaElementAudioSourceNode | null;
+  sourceNode: AudioNode | null; // processed output of both decks (after effects)
+  effectsChain: EffectsChain | null; // EQ / compressor / width between mix bus and speakers
+}
+
+type DeckIndex = 0 | 1;
+
+// The listener's own settings while a mode (practice) overrides them
+interface HeldListeningSettings {
+  vocalLevel: number;
+  playbackRate: number;
+  audioVersion: AudioVersion;
 }
 
+/**
+ * Crossfade durations offered in the UI (seconds, 0 = gapless)
+ */
+export const CROSSFADE_OPTIONS = [0, 2, 4, 6, 8, 12];
+
+const MAX_CROSSFADE = 12;
+
+/**
+ * Playback speed limits (1 = normal)
+ */
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 2;
+
+/**
+ * Playback speeds offered in the UI
+ */
+export const PLAYBACK_RATE_OPTIONS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// Shorter A-B loops are ignored (seconds)
+const MIN_LOOP_LENGTH = 0.5;
+
+// Speed changes are reported once the listener settles (the tempo slider moves in steps)
+const RATE_TRACKING_DELAY = 500;
+
+// How early (seconds) the transition timer is armed before it must fire.
+// timeupdate only fires ~4x per second, so this must exceed 250ms.
+const TRANSITION_LOOKAHEAD = 0.5;
+
+// Session position is saved whenever playback crosses one of these steps (seconds)
+const SESSION_SAVE_INTERVAL = 5;
+
+// Saved positions shorter than this aren't worth a resume prompt (seconds)
+const MIN_RESUME_POSITION = 5;
+
+// Gain ramp (seconds) for vocal level changes, and for the vocal/instrumental switch
+const BLEND_RAMP = 0.05;
+const VERSION_SWITCH_FADE = 0.3;
+
 /**
  * useAudioPlayer Hook
  * 
  * Manages all audio playback logic for the music player.
  * Handles loading tracks, playback control, seeking, and error handling.
+ *
+ * Playback runs on two <audio> "decks". While one plays, the upcoming track
+ * (per shuffle/repeat) is buffered on the other, and the engine hands over
+ * at the end of the track - either gaplessly or with an equal-power
+ * crossfade of the user's chosen length.
+ *
+ * Each deck has a companion "stem" element playing the other version of its
+ * track in sync (see stemSync), so switching vocal/instrumental - or
+ * blending the two with the vocal level - is a gain change at the exact
+ * same position. Until a deck's stem is ready the deck plays on its own.
+ *
+ * The listening session (track, position, version, shuffle order) is saved
+ * to localStorage and restored on the next visit.
  * 
+ * @param options - Optional start position overriding the saved session
  * @returns Audio player state and control methods
  */
-export function useAudioPlayer(): UseAudioPlayerReturn {
+export function useAudioPlayer(options: UseAudioPlayerOptions = {}): UseAudioPlayerReturn {
   // ========== STATE ==========
-  const [currentTrackId, setCurrentTrackId] = useState<number | null>(1); // Start with first track
+  // Session saved on the previous visit, or the requested start position (read once)
+  const [initialSession] = useState<PlayerSession | null>(() => {
+    const saved = loadSession();
+    const { startAt } = options;
+    if (!startAt || !getTrackById(startAt.trackId)) return saved;
+
+    return {
+      currentTrackId: startAt.trackId,
+      currentTime: startAt.time ?? 0,
+      audioVersion: startAt.version ?? saved?.audioVersion ?? 'vocal',
+      // Keep the saved shuffle pass only if it covers the requested track
+      shuffleOrder: saved?.shuffleOrder.includes(startAt.trackId) ? saved.shuffleOrder : [],
+      contextAnchorId: startAt.trackId,
+      savedAt: Date.now(),
+    };
+  });
+  const isStartOverridden = !!options.startAt;
+  const [currentTrackId, setCurrentTrackId] = useState<TrackId | null>(
+    () => initialSession?.currentTrackId ?? DEFAULT_ALBUM.tracks[0].id // Otherwise start with first track of default release
+  );
   const [playbackState, setPlaybackState] = useState<PlaybackState>('stopped');
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
-  const [audioVersion, setAudioVersion] = useState<AudioVersion>('vocal');
+  const [audioVersion, setAudioVersion] = useState<AudioVersion>(() => initialSession?.audioVersion ?? 'vocal');
+  const [vocalLevel, setVocalLevelState] = useState(() => (audioVersion === 'vocal' ? 1 : 0));
+  const vocalLevelRef = useRef(vocalLevel);
   const [error, setError] = useState<string | null>(null);
   const [volume, setVolumeState] = useState(0.7); // Default 70%
   const [isMuted, setIsMuted] = useState(false);
   const previousVolumeRef = useRef(0.7);
   const [isShuffled, setIsShuffled] = useState(false);
   const [repeatMode, setRepeatMode] = useState<RepeatMode>('off');
-  const shuffledQueueRef = useRef<number[]>([]);
+  const [crossfadeDuration, setCrossfadeDurationState] = useState(0); // 0 = gapless
+  const [playbackRate, setPlaybackRateState] = useState(1);
+  const playbackRateRef = useRef(1);
+  const rateTrackingRef = useRef<{ timer: number; previousRate: number } | null>(null);
+  const [loop, setLoopState] = useState<PlaybackLoop | null>(null);
+  const heldSettingsRef = useRef<HeldListeningSettings | null>(null);
+  const shuffledQueueRef = useRef<TrackId[]>([]);
+  const [shuffleOrder, setShuffleOrder] = useState<TrackId[]>([]); // render mirror of shuffledQueueRef
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+
+  // Last track played from the release/shuffle order. Queued tracks don't move
+  // it, so the release resumes where it left off once the queue is drained.
+  const [contextAnchorId, setContextAnchorId] = useState<TrackId | null>(
+    () => initialSession?.contextAnchorId ?? DEFAULT_ALBUM.tracks[0].id
+  );
+  const contextAnchorRef = useRef<TrackId | null>(contextAnchorId);
+
+  // Position to cue once the given track's metadata has loaded
+  const pendingSeekRef = useRef<{ trackId: TrackId; time: number } | null>(
+    initialSession && initialSession.currentTime > 0
+      ? { trackId: initialSession.currentTrackId, time: initialSession.currentTime }
+      : null
+  );
+  const [resumePoint, setResumePoint] = useState<{ trackId: TrackId; time: number } | null>(
+    () => initialSession && !isStartOverridden && initialSession.currentTime >= MIN_RESUME_POSITION
+      ? { trackId: initialSession.currentTrackId, time: initialSession.currentTime }
+      : null
+  );
+
+  // Release the current track belongs to (drives tracklist, artwork, shuffle pool)
+  const currentAlbum = (currentTrackId && getAlbumForTrack(currentTrackId)) || DEFAULT_ALBUM;
 
   // ========== REFS ==========
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const deckARef = useRef<HTMLAudioElement>(null);
+  const deckBRef = useRef<HTMLAudioElement>(null);
+  const deckRefs = useMemo<[React.RefObject<HTMLAudioElement>, React.RefObject<HTMLAudioElement>]>(
+    () => [deckARef, deckBRef],
+    []
+  );
+  const stemARef = useRef<HTMLAudioElement>(null);
+  const stemBRef = useRef<HTMLAudioElement>(null);
+  const stemRefs = useMemo<[React.RefObject<HTMLAudioElement>, React.RefObject<HTMLAudioElement>]>(
+    () => [stemARef, stemBRef],
+    []
+  );
+  const [activeDeck, setActiveDeck] = useState<DeckIndex>(0);
+  const activeDeckRef = useRef<DeckIndex>(0);
+
+  // Stable ref that always resolves to the deck currently playing
+  const audioRef = useMemo<React.RefObject<HTMLAudioElement>>(
+    () => ({
+      get current() {
+        return deckRefs[activeDeckRef.current].current;
+      },
+    }),
+    [deckRefs]
+  );
+
   const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const mixBusRef = useRef<GainNode | null>(null);
+  const deckGainsRef = useRef<(GainNode | null)[]>([null, null]);
+  const blendGainsRef = useRef<({ deck: GainNode; stem: GainNode } | null)[]>([null, null]);
+  const stemLinksRef = useRef<(StemLink | null)[]>([null, null]);
   const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
-  const [sourceNode, setSourceNode] = useState<MediaElementAudioSourceNode | null>(null);
+  const [sourceNode, setSourceNode] = useState<AudioNode | null>(null);
+  const [effectsChain, setEffectsChain] = useState<EffectsChain | null>(null);
+
+  // ========== ENGINE REFS ==========
+  const standbyTrackIdRef = useRef<TrackId | null>(null); // track buffered on the standby deck
+  const standbyFileRef = useRef<string | null>(null);
+  const standbyQueueKeyRef = useRef<string | null>(null); // set when the standby track came from the queue
+  const contextNextRef = useRef<{ anchor: TrackId; shuffled: boolean; trackId: TrackId } | null>(null);
+  const transitionTimerRef = useRef<number | null>(null);
+  const fadeTimerRef = useRef<number | null>(null);
+  const crossfadeRef = useRef(0);
+  const [preloadTick, setPreloadTick] = useState(0);
 
   // ========== LOAD PREFERENCES FROM LOCALSTORAGE ==========
   useEffect(() => {
@@ -81,6 +286,10 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     const savedMuted = localStorage.getItem('primeape_muted');
     const savedShuffle = localStorage.getItem('primeape_shuffle');
     const savedRepeat = localStorage.getItem('primeape_repeat');
+    const savedCrossfade = localStorage.getItem('primeape_crossfade');
+    const savedQueue = localStorage.getItem('primeape_queue');
+    const savedVocalLevel = localStorage.getItem('primeape_vocal_level');
+    const savedPlaybackRate = localStorage.getItem('primeape_playback_rate');
     
     if (savedVolume) {
       const vol = parseFloat(savedVolume);
@@ -96,23 +305,119 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
 
     if (savedShuffle === 'true') {
       setIsShuffled(true);
-      // Initialize shuffled queue
-      const allTrackIds = FOUNDATION_ALBUM.tracks.map(t => t.id);
-      shuffledQueueRef.current = shuffleArray(allTrackIds);
+      // Continue the saved shuffle pass, or deal a new one for the restored release
+      const savedOrder = initialSession?.shuffleOrder ?? [];
+      shuffledQueueRef.current = savedOrder.length > 0
+        ? savedOrder
+        : shuffleArray(getSiblingTrackIds(initialSession?.currentTrackId ?? DEFAULT_ALBUM.tracks[0].id));
+      setShuffleOrder(shuffledQueueRef.current);
     }
 
     if (savedRepeat && (savedRepeat === 'off' || savedRepeat === 'all' || savedRepeat === 'one')) {
       setRepeatMode(savedRepeat as RepeatMode);
     }
-  }, []);
 
-  // ========== APPLY VOLUME TO AUDIO ELEMENT ==========
+    if (savedCrossfade) {
+      const seconds = parseFloat(savedCrossfade);
+      if (!isNaN(seconds) && seconds >= 0 && seconds <= MAX_CROSSFADE) {
+        setCrossfadeDurationState(seconds);
+        crossfadeRef.current = seconds;
+      }
+    }
+
+    if (savedVocalLevel) {
+      const level = parseFloat(savedVocalLevel);
+      // Only while it still agrees with the restored version (a deep link may ask for the other one)
+      const isVocal = (initialSession?.audioVersion ?? 'vocal') === 'vocal';
+      if (!isNaN(level) && level >= 0 && level <= 1 && (level >= 0.5) === isVocal) {
+        setVocalLevelState(level);
+        vocalLevelRef.current = level;
+      }
+    }
+
+    if (savedPlaybackRate) {
+      const rate = parseFloat(savedPlaybackRate);
+      if (!isNaN(rate) && rate >= MIN_PLAYBACK_RATE && rate <= MAX_PLAYBACK_RATE) {
+        setPlaybackRateState(rate);
+        playbackRateRef.current = rate;
+      }
+    }
+
+    if (savedQueue) {
+      try {
+        const trackIds: unknown = JSON.parse(savedQueue);
+        if (Array.isArray(trackIds)) {
+          // Drop anything no longer in the catalog
+          setQueue(
+            trackIds
+              .filter((id): id is TrackId => typeof id === 'string' && !!getTrackById(id))
+              .map(createQueueItem)
+          );
+        }
+      } catch (e) {
+        console.warn('Failed to restore play queue from localStorage:', e);
+      }
+    }
+  }, [initialSession]);
+
+  // ========== PERSIST QUEUE ==========
+  const isQueueRestoredRef = useRef(false);
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
+    // Skip the initial empty state so it doesn't overwrite the saved queue
+    if (!isQueueRestoredRef.current) {
+      isQueueRestoredRef.current = true;
+      return;
+    }
+
+    try {
+      localStorage.setItem('primeape_queue', JSON.stringify(queue.map((item) => item.trackId)));
+    } catch (e) {
+      console.warn('Failed to save play queue to localStorage:', e);
+    }
+  }, [queue]);
+
+  // ========== APPLY VOLUME TO BOTH DECKS ==========
+  useEffect(() => {
+    deckRefs.forEach((deckRef) => {
+      if (deckRef.current) {
+        deckRef.current.volume = isMuted ? 0 : volume;
+      }
+    });
+  }, [volume, isMuted, deckRefs]);
+
+  // ========== APPLY PLAYBACK RATE TO BOTH DECKS ==========
+  useEffect(() => {
+    deckRefs.forEach((deckRef) => {
+      const deck = deckRef.current;
+      if (deck) {
+        deck.preservesPitch = true;
+        deck.defaultPlaybackRate = playbackRate; // kept when the deck loads its next file
+        deck.playbackRate = playbackRate;
+      }
+    });
+  }, [playbackRate, deckRefs]);
+
+  // ========== VOCAL / INSTRUMENTAL BLEND ==========
+  // Set each deck's blend gains for the current vocal level. A deck whose
+  // stem isn't ready plays its own file at full level, whatever the blend.
+  const applyBlend = useCallback((rampSeconds: number) => {
+    deckRefs.forEach((deckRef, index) => {
+      const gains = blendGainsRef.current[index];
+      const deck = deckRef.current;
+      if (!gains || !deck) return;
+
+      const loaded = getLoadedVersion(deck);
+      if (!loaded || !stemLinksRef.current[index]?.isReady()) {
+        rampGain(gains.deck, 1, rampSeconds);
+        rampGain(gains.stem, 0, rampSeconds);
+        return;
+      }
 
-    audio.volume = isMuted ? 0 : volume;
-  }, [volume, isMuted]);
+      const deckLevel = loaded.version === 'vocal' ? vocalLevelRef.current : 1 - vocalLevelRef.current;
+      rampGain(gains.deck, deckLevel, rampSeconds);
+      rampGain(gains.stem, 1 - deckLevel, rampSeconds);
+    });
+  }, [deckRefs]);
 
   // ========== INITIALIZE AUDIO CONTEXT (for equalizer) ==========
   useEffect(() => {
@@ -123,38 +428,169 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
       setAudioContext(ctx);
     }
 
-    // Connect audio element to context when ref is available
-    if (audioRef.current && audioContextRef.current && !sourceNodeRef.current) {
-      const source = audioContextRef.current.createMediaElementSource(audioRef.current);
-      source.connect(audioContextRef.current.destination);
-      sourceNodeRef.current = source;
-      setSourceNode(source);
+    // Route both decks (and their stems) into a shared mix bus when refs are available:
+    // deck/stem -> blend gain (vocal level) -> deck gain (crossfade) -> mix bus -> effects -> destination
+    const ctx = audioContextRef.current;
+    const decks = [deckARef.current, deckBRef.current];
+    const stems = [stemARef.current, stemBRef.current];
+    if (ctx && decks[0] && decks[1] && stems[0] && stems[1] && !mixBusRef.current) {
+      const mixBus = ctx.createGain();
+      const effects = createEffectsChain(ctx);
+      mixBus.connect(effects.input);
+      effects.output.connect(ctx.destination);
+
+      decks.forEach((deck, index) => {
+        const stem = stems[index];
+        if (!deck || !stem) return;
+
+        const deckGain = ctx.createGain();
+        deckGain.connect(mixBus);
+        deckGainsRef.current[index] = deckGain;
+
+        const deckBlend = ctx.createGain();
+        const stemBlend = ctx.createGain();
+        ctx.createMediaElementSource(deck).connect(deckBlend);
+        ctx.createMediaElementSource(stem).connect(stemBlend);
+        deckBlend.connect(deckGain);
+        stemBlend.connect(deckGain);
+        blendGainsRef.current[index] = { deck: deckBlend, stem: stemBlend };
+
+        stemLinksRef.current[index] = linkStem(deck, stem, () => applyBlend(BLEND_RAMP));
+      });
+
+      applyBlend(0);
+      mixBusRef.current = mixBus;
+      setSourceNode(effects.output);
+      setEffectsChain(effects);
     }
 
     return () => {
       // Keep AudioContext alive for entire session
     };
+  }, [applyBlend]);
+
+  // ========== ENGINE HELPERS ==========
+  // Cancel a pending (not yet started) end-of-track transition
+  const clearScheduledTransition = useCallback(() => {
+    if (transitionTimerRef.current !== null) {
+      window.clearTimeout(transitionTimerRef.current);
+      transitionTimerRef.current = null;
+    }
   }, []);
 
-  // ========== LOAD TRACK ==========
-  const loadTrack = useCallback((trackId: number) => {
+  // Complete any crossfade in progress: silence the outgoing deck now
+  const finishFade = useCallback(() => {
+    if (fadeTimerRef.current === null) return;
+
+    window.clearTimeout(fadeTimerRef.current);
+    fadeTimerRef.current = null;
+
+    const outgoing = (1 - activeDeckRef.current) as DeckIndex;
+    deckRefs[outgoing].current?.pause();
+    const outgoingGain = deckGainsRef.current[outgoing];
+    if (outgoingGain) resetGain(outgoingGain);
+    const incomingGain = deckGainsRef.current[activeDeckRef.current];
+    if (incomingGain) resetGain(incomingGain);
+
+    // Outgoing deck is free again - let the preloader claim it
+    setPreloadTick((tick) => tick + 1);
+  }, [deckRefs]);
+
+  // Make the standby deck the active one
+  const swapDecks = useCallback(() => {
+    const next = (1 - activeDeckRef.current) as DeckIndex;
+    activeDeckRef.current = next;
+    setActiveDeck(next);
+    standbyTrackIdRef.current = null;
+    standbyFileRef.current = null;
+    standbyQueueKeyRef.current = null;
+  }, []);
+
+  // ========== CONTEXT (RELEASE / SHUFFLE ORDER) HELPERS ==========
+  const updateShuffleQueue = useCallback((newQueue: TrackId[]) => {
+    shuffledQueueRef.current = newQueue;
+    setShuffleOrder(newQueue);
+  }, []);
+
+  const setContextAnchor = useCallback((trackId: TrackId) => {
+    contextAnchorRef.current = trackId;
+    setContextAnchorId(trackId);
+  }, []);
+
+  // Track that follows the anchor in release or shuffle order.
+  // Cached per anchor so a freshly dealt shuffle pass isn't re-dealt.
+  const resolveContextNext = useCallback((): TrackId | null => {
+    const anchor = contextAnchorRef.current;
+    if (!anchor) return null;
+
+    const cached = contextNextRef.current;
+    if (cached && cached.anchor === anchor && cached.shuffled === isShuffled) {
+      return cached.trackId;
+    }
+
+    let nextId: TrackId;
+    if (isShuffled) {
+      const order = shuffledQueueRef.current;
+      const index = order.indexOf(anchor);
+      if (index !== -1 && index < order.length - 1) {
+        nextId = order[index + 1];
+      } else {
+        // End of this shuffle pass - deal the next one
+        const newQueue = shuffleArray(getSiblingTrackIds(anchor));
+        updateShuffleQueue(newQueue);
+        nextId = newQueue[0];
+      }
+    } else {
+      nextId = getNextTrackId(anchor);
+    }
+
+    contextNextRef.current = { anchor, shuffled: isShuffled, trackId: nextId };
+    return nextId;
+  }, [isShuffled, updateShuffleQueue]);
+
+  // ========== LOAD TRACK INTO ACTIVE DECK ==========
+  // Internal: doesn't move the context anchor (used for queued tracks)
+  const loadIntoDeck = useCallback((trackId: TrackId, startTime = 0) => {
     const track = getTrackById(trackId);
     if (!track) {
       setError(`Track ${trackId} not found`);
       return;
     }
 
-    const audio = audioRef.current;
-    if (!audio) return;
+    if (!audioRef.current) return;
+
+    clearScheduledTransition();
+    finishFade();
 
     // Determine which file to load based on audioVersion and track.hasVocals
-    const fileToLoad = audioVersion === 'vocal' && track.hasVocals
-      ? track.vocalFile
-      : track.instrumentalFile;
+    const fileToLoad = getTrackFile(track, audioVersion);
+
+    // Already buffered on the standby deck - swap instead of reloading
+    const standby = deckRefs[1 - activeDeckRef.current].current;
+    if (
+      standby &&
+      standbyTrackIdRef.current === trackId &&
+      standbyFileRef.current === fileToLoad &&
+      standby.readyState >= HTMLMediaElement.HAVE_METADATA
+    ) {
+      const time = Math.min(startTime, standby.duration || 0);
+      audioRef.current.pause();
+      swapDecks();
+      standby.currentTime = time;
+      setError(null);
+      setCurrentTrackId(trackId);
+      setCurrentTime(time);
+      setDuration(standby.duration);
+      setPlaybackState('paused');
+      return;
+    }
+
+    const audio = audioRef.current;
 
     setPlaybackState('loading');
     setError(null);
     setCurrentTrackId(trackId);
+    pendingSeekRef.current = startTime > 0 ? { trackId, time: startTime } : null;
 
     // Set audio source
     audio.src = fileToLoad;
@@ -162,7 +598,13 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
 
     // Note: Don't call play() here - let user click play button
     // This prevents autoplay policy violations
-  }, [audioVersion]);
+  }, [audioVersion, audioRef, deckRefs, clearScheduledTransition, finishFade, swapDecks]);
+
+  // ========== LOAD TRACK ==========
+  const loadTrack = useCallback((trackId: TrackId, startTime?: number) => {
+    setContextAnchor(trackId);
+    loadIntoDeck(trackId, startTime);
+  }, [setContextAnchor, loadIntoDeck]);
 
   // ========== PLAY ==========
   const play = useCallback(async () => {
@@ -195,13 +637,15 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
       setError('Failed to play audio. Please try again.');
       setPlaybackState('paused');
     }
-  }, [currentTrackId, audioVersion]);
+  }, [currentTrackId, audioVersion, audioRef]);
 
   // ========== PAUSE ==========
   const pause = useCallback(() => {
     const audio = audioRef.current;
     if (!audio) return;
 
+    clearScheduledTransition();
+    finishFade();
     audio.pause();
     setPlaybackState('paused');
 
@@ -218,7 +662,7 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
         });
       }
     }
-  }, [currentTrackId]);
+  }, [currentTrackId, audioRef, clearScheduledTransition, finishFade]);
 
   // ========== TOGGLE PLAY/PAUSE ==========
   const togglePlayPause = useCallback(() => {
@@ -250,30 +694,22 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
       }
     }
 
-    let nextId: number;
-
-    if (isShuffled) {
-      // Get next from shuffled queue
-      const allTrackIds = FOUNDATION_ALBUM.tracks.map(t => t.id);
-      const { nextItem, newQueue } = getNextShuffledItem(
-        currentTrackId,
-        allTrackIds,
-        shuffledQueueRef.current
-      );
-      shuffledQueueRef.current = newQueue;
-      nextId = nextItem;
+    if (queue.length > 0) {
+      // Listener's queue always goes first
+      const [queued] = queue;
+      setQueue((prev) => removeQueueItem(prev, queued.key));
+      loadIntoDeck(queued.trackId);
     } else {
-      // Normal sequential order
-      nextId = getNextTrackId(currentTrackId);
+      // Release order, or the shuffle pass (shuffle stays within the current release)
+      const nextId = resolveContextNext() ?? getNextTrackId(currentTrackId);
+      loadTrack(nextId);
     }
 
-    loadTrack(nextId);
-
     // Auto-play next track if currently playing
     if (playbackState === 'playing') {
       setTimeout(() => play(), 100);
     }
-  }, [currentTrackId, playbackState, isShuffled, loadTrack, play]);
+  }, [currentTrackId, playbackState, queue, loadTrack, loadIntoDeck, resolveContextNext, play, audioRef]);
 
   // ========== PREVIOUS TRACK ==========
   const prevTrack = useCallback(() => {
@@ -287,7 +723,7 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
       return;
     }
 
-    let prevId: number;
+    let prevId: TrackId;
 
     if (isShuffled) {
       // Get previous from shuffled queue
@@ -303,13 +739,16 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     if (playbackState === 'playing') {
       setTimeout(() => play(), 100);
     }
-  }, [currentTrackId, playbackState, isShuffled, loadTrack, play]);
+  }, [currentTrackId, playbackState, isShuffled, loadTrack, play, audioRef]);
 
   // ========== SEEK ==========
   const seek = useCallback((time: number) => {
     const audio = audioRef.current;
     if (!audio || !isFinite(time)) return;
 
+    // Re-armed by the next timeupdate relative to the new position
+    clearScheduledTransition();
+
     // Clamp time to valid range
     const clampedTime = Math.max(0, Math.min(time, audio.duration || 0));
     audio.currentTime = clampedTime;
@@ -322,7 +761,7 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
         seek_to_percent: Math.round((clampedTime / audio.duration) * 100),
       });
     }
-  }, [currentTrackId]);
+  }, [currentTrackId, audioRef, clearScheduledTransition]);
 
   // ========== SET VOLUME ==========
   const setVolume = useCallback((newVolume: number) => {
@@ -352,13 +791,13 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     
     if (newShuffleState) {
       // Create shuffled queue when enabling shuffle
-      const allTrackIds = FOUNDATION_ALBUM.tracks.map(t => t.id);
-      shuffledQueueRef.current = shuffleArray(allTrackIds);
+      const allTrackIds = currentAlbum.tracks.map(t => t.id);
+      updateShuffleQueue(shuffleArray(allTrackIds));
     } else {
       // Clear shuffle queue when disabling
-      shuffledQueueRef.current = [];
+      updateShuffleQueue([]);
     }
-  }, [isShuffled]);
+  }, [isShuffled, currentAlbum, updateShuffleQueue]);
 
   // ========== TOGGLE REPEAT ==========
   const toggleRepeat = useCallback(() => {
@@ -395,32 +834,30 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     }
   }, [isMuted, volume]);
 
-  // ========== TOGGLE VERSION (Vocal/Instrumental) ==========
-  const toggleVersion = useCallback(() => {
-    const newVersion: AudioVersion = audioVersion === 'vocal' ? 'instrumental' : 'vocal';
+  // ========== SWITCH VERSION (Vocal/Instrumental) ==========
+  // Internal: make newVersion the one tracks load in. The active deck switches
+  // in place when its stem can take over (the blend does the rest); otherwise
+  // it reloads the new file and picks up at the same position.
+  const switchVersion = useCallback((newVersion: AudioVersion) => {
     const audio = audioRef.current;
     const track = currentTrackId ? getTrackById(currentTrackId) : null;
 
-    if (!audio || !track || !currentTrackId) return;
+    setAudioVersion(newVersion);
+    if (!audio || !track) return;
+
+    // Determine new file
+    const newFile = getTrackFile(track, newVersion);
+    if (audio.getAttribute('src') === newFile || stemLinksRef.current[activeDeckRef.current]?.isReady()) {
+      return;
+    }
 
-    // Track version toggle
-    trackVersionToggle({
-      track_id: currentTrackId,
-      new_version: newVersion,
-    });
+    clearScheduledTransition();
+    finishFade();
 
     // Save current playback state
     const wasPlaying = playbackState === 'playing';
     const savedTime = audio.currentTime;
 
-    // Switch version
-    setAudioVersion(newVersion);
-
-    // Determine new file
-    const newFile = newVersion === 'vocal' && track.hasVocals
-      ? track.vocalFile
-      : track.instrumentalFile;
-
     // Load new file
     audio.src = newFile;
     audio.load();
@@ -435,7 +872,322 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     };
 
     audio.addEventListener('loadedmetadata', restorePlayback);
-  }, [audioVersion, currentTrackId, playbackState, play]);
+  }, [currentTrackId, playbackState, play, audioRef, clearScheduledTransition, finishFade]);
+
+  // Internal: move the blend and remember it
+  const updateVocalLevel = useCallback((level: number, rampSeconds: number) => {
+    vocalLevelRef.current = level;
+    setVocalLevelState(level);
+    applyBlend(rampSeconds);
+
+    // Save to localStorage (not while the listener's own level is held)
+    if (!heldSettingsRef.current) {
+      localStorage.setItem('primeape_vocal_level', level.toString());
+    }
+  }, [applyBlend]);
+
+  // ========== TOGGLE VERSION (Vocal/Instrumental) ==========
+  const toggleVersion = useCallback(() => {
+    const newVersion: AudioVersion = audioVersion === 'vocal' ? 'instrumental' : 'vocal';
+    if (!currentTrackId || !getTrackById(currentTrackId)) return;
+
+    // Track version toggle
+    trackVersionToggle({
+      track_id: currentTrackId,
+      new_version: newVersion,
+    });
+
+    // Crossfade all the way to the other version
+    updateVocalLevel(newVersion === 'vocal' ? 1 : 0, VERSION_SWITCH_FADE);
+    switchVersion(newVersion);
+  }, [audioVersion, currentTrackId, updateVocalLevel, switchVersion]);
+
+  // ========== SET VOCAL LEVEL ==========
+  // The version that dominates the blend counts as the current version
+  const setVocalLevel = useCallback((level: number) => {
+    const clamped = Math.max(0, Math.min(1, level));
+    updateVocalLevel(clamped, BLEND_RAMP);
+
+    const dominantVersion: AudioVersion = clamped >= 0.5 ? 'vocal' : 'instrumental';
+    if (dominantVersion !== audioVersion) {
+      switchVersion(dominantVersion);
+    }
+  }, [audioVersion, updateVocalLevel, switchVersion]);
+
+  // ========== SET CROSSFADE DURATION ==========
+  const setCrossfadeDuration = useCallback((seconds: number) => {
+    const clamped = Math.max(0, Math.min(MAX_CROSSFADE, seconds));
+    setCrossfadeDurationState(clamped);
+    crossfadeRef.current = clamped;
+
+    // Re-armed by the next timeupdate with the new lead time
+    clearScheduledTransition();
+
+    // Save to localStorage
+    localStorage.setItem('primeape_crossfade', clamped.toString());
+  }, [clearScheduledTransition]);
+
+  // ========== SET PLAYBACK RATE ==========
+  const setPlaybackRate = useCallback((rate: number) => {
+    const clamped = Math.max(MIN_PLAYBACK_RATE, Math.min(MAX_PLAYBACK_RATE, rate));
+    setPlaybackRateState(clamped);
+
+    // Re-armed by the next timeupdate at the new speed
+    clearScheduledTransition();
+
+    // Track speed change (one event per burst of changes, from where it began)
+    const previousRate = rateTrackingRef.current?.previousRate ?? playbackRateRef.current;
+    if (rateTrackingRef.current) window.clearTimeout(rateTrackingRef.current.timer);
+    const timer = window.setTimeout(() => {
+      rateTrackingRef.current = null;
+      if (clamped !== previousRate) {
+        trackPlaybackRateChange({ new_rate: clamped, previous_rate: previousRate });
+      }
+    }, RATE_TRACKING_DELAY);
+    rateTrackingRef.current = { timer, previousRate };
+    playbackRateRef.current = clamped;
+
+    // Save to localStorage (not while the listener's own speed is held)
+    if (!heldSettingsRef.current) {
+      localStorage.setItem('primeape_playback_rate', clamped.toString());
+    }
+  }, [clearScheduledTransition]);
+
+  // ========== SET A-B LOOP ==========
+  const setLoop = useCallback((newLoop: PlaybackLoop | null) => {
+    // No end-of-track transition while looping
+    clearScheduledTransition();
+
+    if (!newLoop) {
+      setLoopState(null);
+      return;
+    }
+
+    const start = Math.max(0, Math.min(newLoop.start, newLoop.end));
+    const end = Math.max(newLoop.start, newLoop.end);
+    setLoopState(end - start >= MIN_LOOP_LENGTH ? { start, end } : null);
+  }, [clearScheduledTransition]);
+
+  // A/B markers: each moves one end of the loop, or starts one running
+  // from A to the end of the track / from the start of the track to B
+  const setLoopStart = useCallback((time: number) => {
+    const trackDuration = audioRef.current?.duration;
+    if (!trackDuration || !isFinite(trackDuration)) return;
+    setLoop({ start: time, end: loop && time < loop.end ? loop.end : trackDuration });
+  }, [loop, audioRef, setLoop]);
+
+  const setLoopEnd = useCallback((time: number) => {
+    setLoop({ start: loop && time > loop.start ? loop.start : 0, end: time });
+  }, [loop, setLoop]);
+
+  // ========== HOLD / RESTORE LISTENING SETTINGS ==========
+  // Practice mode takes over the vocal level and speed. Its values are
+  // applied but not saved (a reload brings back the listener's own), and
+  // the saved session keeps the listener's version.
+  const holdListeningSettings = useCallback(() => {
+    if (heldSettingsRef.current) return;
+    heldSettingsRef.current = { vocalLevel: vocalLevelRef.current, playbackRate, audioVersion };
+  }, [playbackRate, audioVersion]);
+
+  const restoreListeningSettings = useCallback(() => {
+    const held = heldSettingsRef.current;
+    if (!held) return;
+    heldSettingsRef.current = null;
+    setVocalLevel(held.vocalLevel);
+    setPlaybackRate(held.playbackRate);
+  }, [setVocalLevel, setPlaybackRate]);
+
+  // A loop belongs to the track it was set on
+  useEffect(() => {
+    setLoopState(null);
+  }, [currentTrackId]);
+
+  // ========== PRELOAD UPCOMING TRACK ON STANDBY DECK ==========
+  useEffect(() => {
+    if (!currentTrackId) return;
+
+    // Only spend bandwidth buffering once the listener has pressed play,
+    // and never while the standby deck is still fading out
+    if (playbackState !== 'playing' || fadeTimerRef.current !== null) return;
+
+    const standby = deckRefs[1 - activeDeck].current;
+    if (!standby) return;
+
+    // What plays automatically when this track ends
+    let autoAdvanceId: TrackId | null;
+    let queueKey: string | null = null;
+    const anchor = contextAnchorId ?? currentTrackId;
+    if (repeatMode === 'one') {
+      autoAdvanceId = currentTrackId;
+    } else if (queue.length > 0) {
+      autoAdvanceId = queue[0].trackId;
+      queueKey = queue[0].key;
+    } else if (repeatMode === 'off' && !isShuffled && isLastTrackOfAlbum(anchor)) {
+      autoAdvanceId = null; // Playback stops at the end of the release
+    } else {
+      autoAdvanceId = resolveContextNext();
+    }
+    standbyQueueKeyRef.current = queueKey;
+
+    const track = autoAdvanceId ? getTrackById(autoAdvanceId) : undefined;
+    if (!autoAdvanceId || !track) {
+      if (standbyTrackIdRef.current !== null) {
+        standby.removeAttribute('src');
+        standby.load();
+      }
+      standbyTrackIdRef.current = null;
+      standbyFileRef.current = null;
+      return;
+    }
+
+    const file = getTrackFile(track, audioVersion);
+    if (standbyTrackIdRef.current === autoAdvanceId && standbyFileRef.current === file) return;
+
+    standby.preload = 'auto';
+    standby.src = file;
+    standby.load();
+    standbyTrackIdRef.current = autoAdvanceId;
+    standbyFileRef.current = file;
+  }, [currentTrackId, contextAnchorId, queue, activeDeck, playbackState, isShuffled, repeatMode, audioVersion, preloadTick, deckRefs, resolveContextNext]);
+
+  // ========== HAND OVER TO STANDBY DECK ==========
+  // Returns false if the standby deck isn't ready (caller falls back to a normal load)
+  const startTransition = useCallback((): boolean => {
+    transitionTimerRef.current = null;
+
+    const outgoingIndex = activeDeckRef.current;
+    const incomingIndex = (1 - outgoingIndex) as DeckIndex;
+    const outgoing = deckRefs[outgoingIndex].current;
+    const incoming = deckRefs[incomingIndex].current;
+    const nextId = standbyTrackIdRef.current;
+    const queueKey = standbyQueueKeyRef.current;
+
+    if (!outgoing || !incoming || !nextId) return false;
+    if (incoming.readyState < HTMLMediaElement.HAVE_FUTURE_DATA) return false;
+
+    // Never fade longer than what's left of the outgoing track
+    const remaining = isFinite(outgoing.duration) ? outgoing.duration - outgoing.currentTime : 0;
+    const fade = Math.max(0, Math.min(crossfadeRef.current, remaining));
+
+    incoming.currentTime = 0;
+    incoming.play().catch((err) => console.error('Crossfade playback error:', err));
+
+    const outgoingGain = deckGainsRef.current[outgoingIndex];
+    const incomingGain = deckGainsRef.current[incomingIndex];
+    if (incomingGain) scheduleFade(incomingGain, 'in', fade);
+
+    if (fade > 0 && outgoingGain) {
+      scheduleFade(outgoingGain, 'out', fade);
+      fadeTimerRef.current = window.setTimeout(finishFade, fade * 1000);
+    } else {
+      outgoing.pause();
+    }
+
+    // Analytics: the outgoing track counts as completed
+    if (currentTrackId) {
+      const finished = getTrackById(currentTrackId);
+      if (finished) {
+        trackComplete({
+          track_id: currentTrackId,
+          track_title: finished.title,
+          audio_version: audioVersion,
+        });
+      }
+    }
+
+    swapDecks();
+    if (queueKey) {
+      setQueue((prev) => removeQueueItem(prev, queueKey));
+    } else {
+      setContextAnchor(nextId);
+    }
+    setCurrentTrackId(nextId);
+    setCurrentTime(0);
+    setDuration(incoming.duration);
+    setPlaybackState('playing');
+    setError(null);
+
+    const started = getTrackById(nextId);
+    if (started) {
+      trackPlay({
+        track_id: nextId,
+        track_title: started.title,
+        audio_version: audioVersion,
+      });
+    }
+
+    return true;
+  }, [currentTrackId, audioVersion, deckRefs, finishFade, swapDecks, setContextAnchor]);
+
+  // ========== SELECT ALBUM ==========
+  const selectAlbum = useCallback((albumId: string) => {
+    const album = getAlbumById(albumId);
+    if (!album || album.tracks.length === 0) {
+      setError(`Release ${albumId} not found`);
+      return;
+    }
+
+    if (album.id === currentAlbum.id) return;
+
+    // Fresh shuffle pool for the new release
+    if (isShuffled) {
+      updateShuffleQueue(shuffleArray(album.tracks.map(t => t.id)));
+    }
+
+    const wasPlaying = playbackState === 'playing';
+    loadTrack(album.tracks[0].id);
+
+    // Keep playing across the switch if music was already on
+    if (wasPlaying) {
+      audioRef.current?.addEventListener('canplay', () => play(), { once: true });
+    }
+  }, [currentAlbum, isShuffled, playbackState, loadTrack, play, audioRef, updateShuffleQueue]);
+
+  // ========== PLAY QUEUE ==========
+  const playNext = useCallback((trackId: TrackId) => {
+    setQueue((prev) => insertNext(prev, trackId));
+  }, []);
+
+  const addToQueue = useCallback((trackId: TrackId) => {
+    setQueue((prev) => appendToQueue(prev, trackId));
+  }, []);
+
+  const removeFromQueue = useCallback((key: string) => {
+    setQueue((prev) => removeQueueItem(prev, key));
+  }, []);
+
+  const moveQueueItem = useCallback((fromIndex: number, toIndex: number) => {
+    setQueue((prev) => moveItemInQueue(prev, fromIndex, toIndex));
+  }, []);
+
+  const clearQueue = useCallback(() => {
+    setQueue([]);
+  }, []);
+
+  // Jump straight to a queued entry (entries ahead of it stay queued)
+  const playFromQueue = useCallback((key: string) => {
+    const item = queue.find((entry) => entry.key === key);
+    if (!item) return;
+
+    setQueue((prev) => removeQueueItem(prev, key));
+    loadIntoDeck(item.trackId);
+  }, [queue, loadIntoDeck]);
+
+  // Release/shuffle order following the queue (for the queue view)
+  const upcomingTrackIds = useMemo<TrackId[]>(() => {
+    if (!contextAnchorId) return [];
+
+    if (isShuffled) {
+      const index = shuffleOrder.indexOf(contextAnchorId);
+      return index === -1 ? [] : shuffleOrder.slice(index + 1);
+    }
+
+    const siblings = getSiblingTrackIds(contextAnchorId);
+    const index = siblings.indexOf(contextAnchorId);
+    const rest = siblings.slice(index + 1);
+    // Repeat-all wraps back around to the start of the release
+    return repeatMode === 'all' ? [...rest, ...siblings.slice(0, index)] : rest;
+  }, [contextAnchorId, isShuffled, shuffleOrder, repeatMode]);
 
   // ========== AUDIO EVENT LISTENERS ==========
   useEffect(() => {
@@ -443,14 +1195,49 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     if (!audio) return;
 
     // Time update (fallback - main time tracking in useAudioTime)
+    // Also arms the end-of-track transition once it is close enough
     const handleTimeUpdate = () => {
       setCurrentTime(audio.currentTime);
+
+      // Jump back to the start of the A-B loop
+      if (loop) {
+        if (audio.currentTime >= loop.end) {
+          audio.currentTime = loop.start;
+          setCurrentTime(loop.start);
+        }
+        return;
+      }
+
+      if (
+        audio.paused ||
+        transitionTimerRef.current !== null ||
+        standbyTrackIdRef.current === null ||
+        !isFinite(audio.duration)
+      ) {
+        return;
+      }
+
+      const rate = audio.playbackRate || 1;
+      const untilTransition = (audio.duration - audio.currentTime - crossfadeRef.current) / rate;
+      if (untilTransition <= TRANSITION_LOOKAHEAD) {
+        transitionTimerRef.current = window.setTimeout(() => {
+          startTransition();
+        }, Math.max(0, untilTransition * 1000));
+      }
     };
 
     // Duration loaded
     const handleLoadedMetadata = () => {
       setDuration(audio.duration);
       setPlaybackState('paused'); // Ready to play
+
+      // Cue a restored position (only meant for the track it was saved with)
+      const pendingSeek = pendingSeekRef.current;
+      pendingSeekRef.current = null;
+      if (pendingSeek && pendingSeek.trackId === currentTrackId && pendingSeek.time < audio.duration) {
+        audio.currentTime = pendingSeek.time;
+        setCurrentTime(pendingSeek.time);
+      }
     };
 
     // Playback can start
@@ -462,6 +1249,17 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
 
     // Track ended
     const handleEnded = () => {
+      // A-B loop running to the very end of the track
+      if (loop) {
+        audio.currentTime = loop.start;
+        play();
+        return;
+      }
+
+      // Timer missed (e.g. throttled background tab) - hand over right away
+      clearScheduledTransition();
+      if (startTransition()) return;
+
       // Track completion event
       if (currentTrackId) {
         const track = getTrackById(currentTrackId);
@@ -484,10 +1282,10 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
         // Advance to next track (will loop with 'all', stop at end with 'off')
         setPlaybackState('paused');
 
-        // Check if we're at the last track with repeat off
-        if (repeatMode === 'off' && !isShuffled) {
-          const isLastTrack = currentTrackId === FOUNDATION_ALBUM.tracks[FOUNDATION_ALBUM.tracks.length - 1].id;
-          if (isLastTrack) {
+        // Check if we're at the last track with repeat off (and nothing queued)
+        if (repeatMode === 'off' && !isShuffled && queue.length === 0) {
+          const anchor = contextAnchorRef.current ?? currentTrackId;
+          if (anchor && isLastTrackOfAlbum(anchor)) {
             // Don't auto-advance, stop playback
             return;
           }
@@ -528,43 +1326,101 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
       audio.removeEventListener('ended', handleEnded);
       audio.removeEventListener('error', handleError);
     };
-  }, [nextTrack, playbackState, repeatMode, isShuffled, currentTrackId, play, audioVersion]);
+  }, [nextTrack, playbackState, repeatMode, isShuffled, queue, currentTrackId, play, audioVersion, loop, activeDeck, audioRef, startTransition, clearScheduledTransition]);
+
+  // Drop any pending timers on unmount
+  useEffect(() => {
+    return () => {
+      clearScheduledTransition();
+      if (fadeTimerRef.current !== null) {
+        window.clearTimeout(fadeTimerRef.current);
+      }
+    };
+  }, [clearScheduledTransition]);
+
+  // ========== PERSIST SESSION ==========
+  const persistSession = useCallback(() => {
+    // Don't overwrite a saved position before it has been cued
+    if (!currentTrackId || pendingSeekRef.current) return;
+
+    saveSession({
+      currentTrackId,
+      currentTime: audioRef.current?.currentTime ?? 0,
+      audioVersion: heldSettingsRef.current?.audioVersion ?? audioVersion,
+      shuffleOrder: isShuffled ? shuffleOrder : [],
+      contextAnchorId,
+      savedAt: Date.now(),
+    });
+  }, [currentTrackId, audioVersion, isShuffled, shuffleOrder, contextAnchorId, audioRef]);
+
+  // Saved on every change, every few seconds of playback and on pause
+  const sessionSaveStep = Math.floor(currentTime / SESSION_SAVE_INTERVAL);
+  useEffect(() => {
+    persistSession();
+  }, [persistSession, sessionSaveStep, playbackState]);
+
+  // ...and when the listener leaves the page
+  useEffect(() => {
+    window.addEventListener('pagehide', persistSession);
+    return () => window.removeEventListener('pagehide', persistSession);
+  }, [persistSession]);
+
+  // ========== RESUME PROMPT ==========
+  // Offered until playback starts or another track is picked
+  useEffect(() => {
+    if (playbackState === 'playing' || (resumePoint && resumePoint.trackId !== currentTrackId)) {
+      setResumePoint(null);
+    }
+  }, [playbackState, currentTrackId, resumePoint]);
+
+  const dismissResume = useCallback(() => {
+    setResumePoint(null);
+  }, []);
 
   // ========== LOAD FIRST TRACK ON MOUNT ==========
   useEffect(() => {
-    // Load initial track only once on mount
-    const initialTrackId = 1;
+    // Load initial track only once on mount (the saved session's track, if any)
+    const initialTrackId = initialSession?.currentTrackId ?? DEFAULT_ALBUM.tracks[0].id;
     const track = getTrackById(initialTrackId);
-    if (!track || !audioRef.current) return;
+    if (!track || !deckARef.current) return;
     
     // Determine which file to load - prefer vocal if available
-    const fileToLoad = track.hasVocals ? track.vocalFile : track.instrumentalFile;
+    const fileToLoad = getTrackFile(track, initialSession?.audioVersion ?? 'vocal');
     
     setPlaybackState('loading');
     setError(null);
     setCurrentTrackId(initialTrackId);
     
-    // Set audio source
-    const audio = audioRef.current;
+    // Set audio source (deck A is always the active deck on mount)
+    const audio = deckARef.current;
     audio.src = fileToLoad;
     audio.load();
     
     // Note: Don't call play() here - let user click play button
     // This prevents autoplay policy violations
-  }, []); // Truly empty - runs once on mount with no external dependencies
+  }, [initialSession]); // Never changes - runs once on mount
 
   // ========== RETURN API ==========
   return {
     // State
     currentTrackId,
+    currentAlbum,
     playbackState,
     currentTime,
     duration,
     audioVersion,
+    vocalLevel,
     volume,
     isMuted,
     isShuffled,
     repeatMode,
+    crossfadeDuration,
+    playbackRate,
+    loop,
+    queue,
+    upcomingTrackIds,
+    resumePoint,
+    activeDeck,
     error,
     
     // Actions
@@ -572,18 +1428,37 @@ export function useAudioPlayer(): UseAudioPlayerReturn {
     pause,
     togglePlayPause,
     loadTrack,
+    selectAlbum,
     nextTrack,
     prevTrack,
     seek,
     toggleVersion,
+    setVocalLevel,
     setVolume,
     toggleMute,
     toggleShuffle,
     toggleRepeat,
+    setCrossfadeDuration,
+    setPlaybackRate,
+    setLoop,
+    setLoopStart,
+    setLoopEnd,
+    holdListeningSettings,
+    restoreListeningSettings,
+    playNext,
+    addToQueue,
+    removeFromQueue,
+    moveQueueItem,
+    clearQueue,
+    playFromQueue,
+    dismissResume,
     
     // Refs
     audioRef,
+    deckRefs,
+    stemRefs,
     audioContext,
     sourceNode,
+    effectsChain,
   };
 }
\ No newline at end of file
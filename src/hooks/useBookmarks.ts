@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Bookmark, TrackId } from '@/types';
+
+interface UseBookmarksReturn {
+  bookmarks: Bookmark[]; // current track's bookmarks in time order
+  addBookmark: (time: number, name?: string) => void;
+  renameBookmark: (id: string, name: string) => void;
+  removeBookmark: (id: string) => void;
+}
+
+const STORAGE_KEY = 'primeape_bookmarks';
+
+// Shortcuts 1-9 jump to the first nine bookmarks
+export const MAX_BOOKMARK_SHORTCUTS = 9;
+
+const EMPTY_BOOKMARKS: Bookmark[] = [];
+
+const readBookmarks = (): Record<TrackId, Bookmark[]> => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.warn('Failed to read bookmarks from localStorage:', e);
+    return {};
+  }
+};
+
+let idCounter = 0;
+
+const createBookmarkId = (): string => {
+  idCounter += 1;
+  return `${Date.now().toString(36)}:${idCounter}`;
+};
+
+/**
+ * useBookmarks Hook
+ *
+ * Listener's named positions per track ("chorus", "second verse"), saved
+ * to localStorage. Shown on the waveform and in the bookmarks menu.
+ *
+ * @param trackId - Current track
+ * @returns Current track's bookmarks and editing actions
+ */
+export function useBookmarks(trackId: TrackId | null): UseBookmarksReturn {
+  const [bookmarksByTrack, setBookmarksByTrack] = useState<Record<TrackId, Bookmark[]>>(readBookmarks);
+
+  // Persist bookmarks
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(bookmarksByTrack));
+    } catch (e) {
+      console.warn('Failed to save bookmarks to localStorage:', e);
+    }
+  }, [bookmarksByTrack]);
+
+  const bookmarks = (trackId && bookmarksByTrack[trackId]) || EMPTY_BOOKMARKS;
+
+  // Apply an edit to the current track's list (dropped from storage once empty)
+  const updateBookmarks = useCallback((update: (bookmarks: Bookmark[]) => Bookmark[]) => {
+    if (!trackId) return;
+    setBookmarksByTrack((prev) => {
+      const next = { ...prev };
+      const updated = update(prev[trackId] ?? []);
+      if (updated.length > 0) {
+        next[trackId] = updated;
+      } else {
+        delete next[trackId];
+      }
+      return next;
+    });
+  }, [trackId]);
+
+  const addBookmark = useCallback((time: number, name?: string) => {
+    updateBookmarks((list) =>
+      [...list, { id: createBookmarkId(), time, name: name?.trim() || `Bookmark ${list.length + 1}` }]
+        .sort((a, b) => a.time - b.time)
+    );
+  }, [updateBookmarks]);
+
+  const renameBookmark = useCallback((id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    updateBookmarks((list) => list.map((bookmark) => (bookmark.id === id ? { ...bookmark, name: trimmed } : bookmark)));
+  }, [updateBookmarks]);
+
+  const removeBookmark = useCallback((id: string) => {
+    updateBookmarks((list) => list.filter((bookmark) => bookmark.id !== id));
+  }, [updateBookmarks]);
+
+  return { bookmarks, addBookmark, renameBookmark, removeBookmark };
+}
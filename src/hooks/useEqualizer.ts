@@ -8,18 +8,18 @@ interface UseEqualizerOptions {
 /**
  * useEqualizer Hook
  * 
- * Analyzes audio frequencies in real-time for visualization.
+ * Creates the analyser that feeds the visualizer. Components read frequency
+ * and time-domain data from it in their own animation loop, so drawing
+ * doesn't cause a React render per frame.
  * 
  * @param audioContext - Web Audio API AudioContext
- * @param sourceNode - MediaElementSourceNode connected to audio element
- * @param isPlaying - Whether audio is currently playing
+ * @param sourceNode - Node carrying the player output (both decks, after effects)
  * @param options - Configuration options
- * @returns Frequency data array and analyser node
+ * @returns Analyser node (null until audio is initialized)
  */
 export function useEqualizer(
   audioContext: AudioContext | null,
-  sourceNode: MediaElementAudioSourceNode | null,
-  isPlaying: boolean,
+  sourceNode: AudioNode | null,
   options: UseEqualizerOptions = {}
 ) {
   const {
@@ -27,69 +27,27 @@ export function useEqualizer(
     smoothingTimeConstant = 0.8,
   } = options;
 
-  const [frequencyData, setFrequencyData] = useState<Uint8Array>(new Uint8Array(0));
+  const [analyserNode, setAnalyserNode] = useState<AnalyserNode | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
 
   // Create analyser node
   useEffect(() => {
-    if (!audioContext || !sourceNode) return;
+    if (!audioContext || !sourceNode || analyserRef.current) return;
 
-    // Create analyser if it doesn't exist
-    if (!analyserRef.current) {
-      const analyser = audioContext.createAnalyser();
-      analyser.fftSize = fftSize;
-      analyser.smoothingTimeConstant = smoothingTimeConstant;
-      
-      // Connect: source -> analyser -> destination
-      // (destination already connected in useAudioPlayer)
-      sourceNode.connect(analyser);
-      
-      analyserRef.current = analyser;
-      
-      // Initialize frequency data array
-      const bufferLength = analyser.frequencyBinCount;
-      setFrequencyData(new Uint8Array(bufferLength));
-    }
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = fftSize;
+    analyser.smoothingTimeConstant = smoothingTimeConstant;
 
-    return () => {
-      // Don't disconnect - we want analyser to persist
-      // Will be cleaned up when audio context is closed
-    };
-  }, [audioContext, sourceNode, fftSize, smoothingTimeConstant]);
-
-  // Update frequency data on animation frame
-  useEffect(() => {
-    if (!isPlaying || !analyserRef.current) {
-      // Cancel animation frame if not playing
-      if (animationFrameRef.current !== null) {
-        cancelAnimationFrame(animationFrameRef.current);
-        animationFrameRef.current = null;
-      }
-      return;
-    }
-
-    const updateFrequencyData = () => {
-      if (analyserRef.current) {
-        const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
-        analyserRef.current.getByteFrequencyData(dataArray);
-        setFrequencyData(dataArray);
-      }
+    // Connect: source -> analyser
+    // (destination already connected in useAudioPlayer)
+    // Don't disconnect on cleanup - the analyser lives as long as the context
+    sourceNode.connect(analyser);
 
-      animationFrameRef.current = requestAnimationFrame(updateFrequencyData);
-    };
-
-    animationFrameRef.current = requestAnimationFrame(updateFrequencyData);
-
-    return () => {
-      if (animationFrameRef.current !== null) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-    };
-  }, [isPlaying]);
+    analyserRef.current = analyser;
+    setAnalyserNode(analyser);
+  }, [audioContext, sourceNode, fftSize, smoothingTimeConstant]);
 
   return {
-    frequencyData,
-    analyserNode: analyserRef.current,
+    analyserNode,
   };
-}
\ No newline at end of file
+}
@@ -11,6 +11,13 @@ interface KeyboardShortcutsConfig {
   onMute: () => void;
   onShuffle: () => void;
   onRepeat: () => void;
+  onLyricsEarlier?: () => void;
+  onLyricsLater?: () => void;
+  onLoopStart?: () => void;
+  onLoopEnd?: () => void;
+  onLoopClear?: () => void;
+  onAddBookmark?: () => void;
+  onJumpToBookmark?: (index: number) => void; // 0-based
   isEnabled?: boolean;
 }
 
@@ -30,6 +37,11 @@ interface KeyboardShortcutsConfig {
  * - M: Mute toggle
  * - S: Shuffle toggle
  * - R: Repeat cycle
+ * - [ / ]: Lyrics sync earlier / later
+ * - A / B: Loop start / end at the current position
+ * - L: Clear loop
+ * - K: Bookmark the current position
+ * - 1-9: Jump to bookmark 1-9
  * 
  * @param config - Keyboard shortcut handlers
  */
@@ -45,6 +57,13 @@ export function useKeyboardShortcuts(config: KeyboardShortcutsConfig) {
     onMute,
     onShuffle,
     onRepeat,
+    onLyricsEarlier,
+    onLyricsLater,
+    onLoopStart,
+    onLoopEnd,
+    onLoopClear,
+    onAddBookmark,
+    onJumpToBookmark,
     isEnabled = true,
   } = config;
 
@@ -118,7 +137,48 @@ export function useKeyboardShortcuts(config: KeyboardShortcutsConfig) {
           onRepeat();
           break;
 
+        case 'BracketLeft':
+          if (!onLyricsEarlier) break;
+          e.preventDefault();
+          onLyricsEarlier();
+          break;
+
+        case 'BracketRight':
+          if (!onLyricsLater) break;
+          e.preventDefault();
+          onLyricsLater();
+          break;
+
+        case 'KeyA':
+          if (!onLoopStart) break;
+          e.preventDefault();
+          onLoopStart();
+          break;
+
+        case 'KeyB':
+          if (!onLoopEnd) break;
+          e.preventDefault();
+          onLoopEnd();
+          break;
+
+        case 'KeyL':
+          if (!onLoopClear) break;
+          e.preventDefault();
+          onLoopClear();
+          break;
+
+        case 'KeyK':
+          if (!onAddBookmark) break;
+          e.preventDefault();
+          onAddBookmark();
+          break;
+
         default:
+          // Digit1-Digit9: bookmarks
+          if (onJumpToBookmark && /^Digit[1-9]$/.test(e.code)) {
+            e.preventDefault();
+            onJumpToBookmark(Number(e.code.slice(5)) - 1);
+          }
           // No action for other keys
           break;
       }
@@ -140,6 +200,13 @@ export function useKeyboardShortcuts(config: KeyboardShortcutsConfig) {
     onMute,
     onShuffle,
     onRepeat,
+    onLyricsEarlier,
+    onLyricsLater,
+    onLoopStart,
+    onLoopEnd,
+    onLoopClear,
+    onAddBookmark,
+    onJumpToBookmark,
     isEnabled,
   ]);
 }
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { TrackId } from '@/types';
+
+interface UseLyricOffsetReturn {
+  offset: number; // seconds for the current track (positive = lyrics later)
+  isPerTrack: boolean; // current track has its own offset
+  adjust: (delta: number) => void;
+  reset: () => void;
+  setPerTrack: (perTrack: boolean) => void;
+}
+
+/**
+ * Saved offsets in seconds: one for this device, plus per-track overrides
+ */
+interface LyricOffsets {
+  device: number;
+  tracks: Record<TrackId, number>;
+}
+
+const STORAGE_KEY = 'primeape_lyrics_offset';
+
+// Step for the +/- buttons and [ ] shortcuts (seconds)
+export const LYRIC_OFFSET_STEP = 0.1;
+
+// Largest correction offered either way (seconds)
+const MAX_OFFSET = 5;
+
+const clampOffset = (offset: number): number =>
+  Math.round(Math.max(-MAX_OFFSET, Math.min(MAX_OFFSET, offset)) * 1000) / 1000;
+
+const readOffsets = (): LyricOffsets => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return { device: Number(parsed.device) || 0, tracks: parsed.tracks ?? {} };
+    }
+  } catch (e) {
+    console.warn('Failed to read lyrics offset from localStorage:', e);
+  }
+  return { device: 0, tracks: {} };
+};
+
+/**
+ * useLyricOffset Hook
+ *
+ * Listener's lyric sync correction, e.g. for Bluetooth headphones that
+ * play audio later than the player reports. Applies on top of the LRC
+ * file's own [offset:] tag. The device offset covers every track unless
+ * the current track has its own.
+ *
+ * @param trackId - Current track
+ * @returns Offset for the current track and calibration actions
+ */
+export function useLyricOffset(trackId: TrackId | null): UseLyricOffsetReturn {
+  const [offsets, setOffsets] = useState<LyricOffsets>(readOffsets);
+
+  // Persist offsets
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(offsets));
+    } catch (e) {
+      console.warn('Failed to save lyrics offset to localStorage:', e);
+    }
+  }, [offsets]);
+
+  const isPerTrack = !!trackId && offsets.tracks[trackId] !== undefined;
+  const offset = isPerTrack && trackId ? offsets.tracks[trackId] : offsets.device;
+
+  // Adjust whichever offset is in effect for the current track
+  const adjust = useCallback((delta: number) => {
+    setOffsets((prev) => {
+      if (trackId && prev.tracks[trackId] !== undefined) {
+        return { ...prev, tracks: { ...prev.tracks, [trackId]: clampOffset(prev.tracks[trackId] + delta) } };
+      }
+      return { ...prev, device: clampOffset(prev.device + delta) };
+    });
+  }, [trackId]);
+
+  const reset = useCallback(() => {
+    setOffsets((prev) => {
+      if (trackId && prev.tracks[trackId] !== undefined) {
+        return { ...prev, tracks: { ...prev.tracks, [trackId]: 0 } };
+      }
+      return { ...prev, device: 0 };
+    });
+  }, [trackId]);
+
+  // A new per-track offset starts from the device offset
+  const setPerTrack = useCallback((perTrack: boolean) => {
+    if (!trackId) return;
+    setOffsets((prev) => {
+      if (perTrack === (prev.tracks[trackId] !== undefined)) return prev;
+      const tracks = { ...prev.tracks };
+      if (perTrack) {
+        tracks[trackId] = prev.device;
+      } else {
+        delete tracks[trackId];
+      }
+      return { ...prev, tracks };
+    });
+  }, [trackId]);
+
+  return { offset, isPerTrack, adjust, reset, setPerTrack };
+}
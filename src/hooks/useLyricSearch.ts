@@ -0,0 +1,49 @@
+import { useState, useEffect, useMemo } from 'react';
+import { CATALOG } from '@/data/catalog';
+import { buildLyricIndex, searchLyrics, type LyricSearchEntry, type LyricSearchResult } from '@/utils/lyricSearch';
+
+interface UseLyricSearchReturn {
+  results: LyricSearchResult[];
+  isIndexing: boolean; // lyrics still loading for the first search
+}
+
+// Shared by every search box; built on the first search
+let indexPromise: Promise<LyricSearchEntry[]> | null = null;
+
+const loadIndex = (): Promise<LyricSearchEntry[]> => {
+  if (!indexPromise) {
+    indexPromise = buildLyricIndex(CATALOG.flatMap((album) => album.tracks));
+  }
+  return indexPromise;
+};
+
+/**
+ * useLyricSearch Hook
+ *
+ * Searches the lyrics of every track in the catalog. The LRC files are
+ * only fetched once someone starts typing.
+ *
+ * @param query - Search text
+ * @returns Ranked results and whether the index is still loading
+ */
+export function useLyricSearch(query: string): UseLyricSearchReturn {
+  const [index, setIndex] = useState<LyricSearchEntry[] | null>(null);
+  const hasQuery = query.trim() !== '';
+
+  useEffect(() => {
+    if (!hasQuery || index) return;
+
+    let cancelled = false;
+    loadIndex().then((entries) => {
+      if (!cancelled) setIndex(entries);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hasQuery, index]);
+
+  const results = useMemo(() => (index && hasQuery ? searchLyrics(index, query) : []), [index, query, hasQuery]);
+
+  return { results, isIndexing: hasQuery && !index };
+}
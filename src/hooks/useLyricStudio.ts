@@ -0,0 +1,198 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { LyricLine, TrackId } from '@/types';
+import type { LRCMetadata, ParsedLRC } from '@/utils/lrcParser';
+
+/**
+ * Line being timed in the studio (time is null until stamped)
+ */
+export interface StudioLine {
+  text: string;
+  time: number | null;
+}
+
+export interface StudioDraft {
+  lines: StudioLine[];
+  metadata: LRCMetadata;
+}
+
+interface UseLyricStudioReturn {
+  lines: StudioLine[];
+  metadata: LRCMetadata;
+  cursor: number; // next line to stamp
+  selectedIndex: number | null;
+  timedLines: LyricLine[]; // stamped lines in time order, offset applied (for preview)
+  loadText: (text: string) => void;
+  loadParsed: (parsed: ParsedLRC) => void;
+  stamp: (time: number) => void;
+  undoStamp: () => void;
+  setLineTime: (index: number, time: number | null) => void;
+  nudge: (index: number, delta: number) => void;
+  select: (index: number | null) => void;
+  setCursor: (index: number) => void;
+  clearTimes: () => void;
+  setMetadata: (metadata: LRCMetadata) => void;
+}
+
+const STORAGE_KEY = 'primeape_studio_drafts';
+
+const readDrafts = (): Record<TrackId, StudioDraft> => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.warn('Failed to read studio drafts from localStorage:', e);
+    return {};
+  }
+};
+
+const EMPTY_DRAFT: StudioDraft = { lines: [], metadata: {} };
+
+// Resume stamping at the first line without a time
+const getFirstUnstamped = (lines: StudioLine[]): number => {
+  const index = lines.findIndex((line) => line.time === null);
+  return index === -1 ? lines.length : index;
+};
+
+/**
+ * useLyricStudio Hook
+ *
+ * State for the lyric timing editor (/studio): the lines being timed, the
+ * stamping cursor and the LRC tags. Drafts are saved per track so a reload
+ * doesn't lose work.
+ *
+ * @param trackId - Track being timed
+ * @returns Lines, cursor and editing actions
+ */
+export function useLyricStudio(trackId: TrackId): UseLyricStudioReturn {
+  const [draft, setDraft] = useState<StudioDraft>(() => readDrafts()[trackId] ?? EMPTY_DRAFT);
+  const [cursor, setCursorState] = useState(() => getFirstUnstamped(draft.lines));
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [loadedTrackId, setLoadedTrackId] = useState(trackId);
+
+  // Switch drafts when the track changes
+  if (loadedTrackId !== trackId) {
+    const nextDraft = readDrafts()[trackId] ?? EMPTY_DRAFT;
+    setLoadedTrackId(trackId);
+    setDraft(nextDraft);
+    setCursorState(getFirstUnstamped(nextDraft.lines));
+    setSelectedIndex(null);
+  }
+
+  // Save draft
+  useEffect(() => {
+    if (loadedTrackId !== trackId) return;
+    try {
+      const drafts = readDrafts();
+      if (draft.lines.length > 0) {
+        drafts[trackId] = draft;
+      } else {
+        delete drafts[trackId];
+      }
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+    } catch (e) {
+      console.warn('Failed to save studio draft to localStorage:', e);
+    }
+  }, [draft, trackId, loadedTrackId]);
+
+  const updateLines = useCallback((update: (lines: StudioLine[]) => StudioLine[]) => {
+    setDraft((prev) => ({ ...prev, lines: update(prev.lines) }));
+  }, []);
+
+  // Start over from plain text (one lyric line per text line)
+  const loadText = useCallback((text: string) => {
+    const lines = text
+      .replace(/\r/g, '')
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => ({ text: line, time: null }));
+
+    setDraft((prev) => ({ ...prev, lines }));
+    setCursorState(0);
+    setSelectedIndex(null);
+  }, []);
+
+  // Edit an existing LRC (the parser applied its offset - take it back out)
+  // The studio times whole lines, so Enhanced LRC word timings are dropped
+  const loadParsed = useCallback((parsed: ParsedLRC) => {
+    const offsetSeconds = (parsed.metadata.offset ?? 0) / 1000;
+    const lines = parsed.lines.map((line) => ({ text: line.text, time: line.time - offsetSeconds }));
+
+    setDraft({ lines, metadata: { ...parsed.metadata } });
+    setCursorState(lines.length);
+    setSelectedIndex(null);
+  }, []);
+
+  const stamp = useCallback((time: number) => {
+    if (cursor >= draft.lines.length) return;
+    const index = cursor;
+    updateLines((lines) => lines.map((line, i) => (i === index ? { ...line, time } : line)));
+    setSelectedIndex(index);
+    setCursorState(index + 1);
+  }, [cursor, draft.lines.length, updateLines]);
+
+  // Take back the last stamp and re-arm that line
+  const undoStamp = useCallback(() => {
+    if (cursor === 0) return;
+    const index = cursor - 1;
+    updateLines((lines) => lines.map((line, i) => (i === index ? { ...line, time: null } : line)));
+    setSelectedIndex(index);
+    setCursorState(index);
+  }, [cursor, updateLines]);
+
+  const setLineTime = useCallback((index: number, time: number | null) => {
+    updateLines((lines) =>
+      lines.map((line, i) => (i === index ? { ...line, time: time === null ? null : Math.max(0, time) } : line))
+    );
+  }, [updateLines]);
+
+  const nudge = useCallback((index: number, delta: number) => {
+    updateLines((lines) =>
+      lines.map((line, i) =>
+        i === index && line.time !== null
+          ? { ...line, time: Math.max(0, Math.round((line.time + delta) * 1000) / 1000) }
+          : line
+      )
+    );
+  }, [updateLines]);
+
+  const setCursor = useCallback((index: number) => {
+    setCursorState(Math.max(0, Math.min(draft.lines.length, index)));
+  }, [draft.lines.length]);
+
+  const clearTimes = useCallback(() => {
+    updateLines((lines) => lines.map((line) => ({ ...line, time: null })));
+    setCursorState(0);
+    setSelectedIndex(null);
+  }, [updateLines]);
+
+  const setMetadata = useCallback((metadata: LRCMetadata) => {
+    setDraft((prev) => ({ ...prev, metadata }));
+  }, []);
+
+  const timedLines = useMemo<LyricLine[]>(() => {
+    const offsetSeconds = (draft.metadata.offset ?? 0) / 1000;
+    return draft.lines
+      .filter((line): line is { text: string; time: number } => line.time !== null)
+      .map((line) => ({ text: line.text, time: line.time + offsetSeconds }))
+      .sort((a, b) => a.time - b.time);
+  }, [draft]);
+
+  return {
+    lines: draft.lines,
+    metadata: draft.metadata,
+    cursor,
+    selectedIndex,
+    timedLines,
+    loadText,
+    loadParsed,
+    stamp,
+    undoStamp,
+    setLineTime,
+    nudge,
+    select: setSelectedIndex,
+    setCursor,
+    clearTimes,
+    setMetadata,
+  };
+}
@@ -1,64 +1,39 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { loadLRC, ParsedLRC } from '@/utils/lrcParser';
-import type { LyricsDisplayState } from '@/types';
+import type { LyricsDisplayState, LyricsFiles } from '@/types';
 import { trackLyricsToggle } from '@/utils/analytics';
 
 interface UseLyricsReturn {
-  lyrics: ParsedLRC | null;
+  lyrics: ParsedLRC | null; // original language
+  translation: ParsedLRC | null; // chosen translation, null when showing the original
   isLoading: boolean;
   error: string | null;
   displayState: LyricsDisplayState;
   toggleDisplayState: () => void;
+  languages: string[]; // original first
+  language: string | null; // language shown (falls back to the original)
+  setLanguage: (language: string) => void;
+  isDualLine: boolean; // original with the translation underneath
+  toggleDualLine: () => void;
 }
 
+const LANGUAGE_KEY = 'primeape_lyrics_language';
+const DUAL_LINE_KEY = 'primeape_lyrics_dual';
+
 /**
- * useLyrics Hook
- *
- * Manages lyrics loading and display state
- *
- * @param lyricsUrl - URL to LRC file
- * @returns Lyrics data and display state management
+ * Fetch and parse one LRC file (null URL clears it)
  */
-export function useLyrics(lyricsUrl: string | null): UseLyricsReturn {
+function useLRCFile(lyricsUrl: string | null) {
   const [lyrics, setLyrics] = useState<ParsedLRC | null>(null);
+  const [loadedUrl, setLoadedUrl] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const isInitialMount = useRef(true);
-
-  // Load display state from localStorage
-  const [displayState, setDisplayState] = useState<LyricsDisplayState>(() => {
-    const saved = localStorage.getItem('primeape_lyrics_display');
-    // Default to 'panel' on desktop, 'hidden' on mobile for better UX
-    if (saved) return saved as LyricsDisplayState;
-    return window.innerWidth >= 1100 ? 'panel' : 'hidden';
-  });
-
-  // Persist display state and track analytics when it changes (not on initial mount)
-  useEffect(() => {
-    if (isInitialMount.current) {
-      isInitialMount.current = false;
-      return;
-    }
-
-    // Save to localStorage
-    try {
-      localStorage.setItem('primeape_lyrics_display', displayState);
-    } catch (e) {
-      console.warn('Failed to save lyrics display state to localStorage:', e);
-    }
-
-    // Track analytics (wrapped in try-catch to prevent any errors from affecting UI)
-    try {
-      trackLyricsToggle({ new_state: displayState });
-    } catch (e) {
-      console.warn('Failed to track lyrics toggle:', e);
-    }
-  }, [displayState]);
 
   // Load lyrics when URL changes
   useEffect(() => {
     if (!lyricsUrl) {
       setLyrics(null);
+      setLoadedUrl(null);
       setIsLoading(false);
       setError(null);
       return;
@@ -81,6 +56,7 @@ export function useLyrics(lyricsUrl: string | null): UseLyricsReturn {
         
         if (!cancelled) {
           setLyrics(parsed);
+          setLoadedUrl(lyricsUrl);
           setIsLoading(false);
           console.log('🎵 useLyrics: State updated, lyrics set');
         }
@@ -100,6 +76,81 @@ export function useLyrics(lyricsUrl: string | null): UseLyricsReturn {
     };
   }, [lyricsUrl]);
 
+  return { lyrics, loadedUrl, isLoading, error };
+}
+
+/**
+ * useLyrics Hook
+ *
+ * Manages lyrics loading and display state, and the listener's lyrics
+ * language: a translation can replace the original or sit underneath it
+ * (dual-line). The chosen language is remembered across tracks; tracks
+ * without that translation show the original.
+ *
+ * @param lyricsFiles - The track's LRC files by language
+ * @returns Lyrics data and display state management
+ */
+export function useLyrics(lyricsFiles: LyricsFiles | null): UseLyricsReturn {
+  const isInitialMount = useRef(true);
+
+  const [preferredLanguage, setPreferredLanguage] = useState<string | null>(() =>
+    localStorage.getItem(LANGUAGE_KEY)
+  );
+  const [isDualLine, setIsDualLine] = useState(() => localStorage.getItem(DUAL_LINE_KEY) === 'true');
+
+  const languages = lyricsFiles ? Object.keys(lyricsFiles) : [];
+  const originalLanguage = languages[0] ?? null;
+  const language =
+    preferredLanguage && lyricsFiles?.[preferredLanguage] ? preferredLanguage : originalLanguage;
+
+  const original = useLRCFile(originalLanguage && lyricsFiles ? lyricsFiles[originalLanguage] : null);
+  const translationUrl = language && language !== originalLanguage && lyricsFiles ? lyricsFiles[language] : null;
+  const translated = useLRCFile(translationUrl);
+  // Don't pair the new track's lyrics with the previous track's translation
+  const translation = translated.loadedUrl === translationUrl ? translated.lyrics : null;
+
+  // Load display state from localStorage
+  const [displayState, setDisplayState] = useState<LyricsDisplayState>(() => {
+    const saved = localStorage.getItem('primeape_lyrics_display');
+    // Default to 'panel' on desktop, 'hidden' on mobile for better UX
+    if (saved) return saved as LyricsDisplayState;
+    return window.innerWidth >= 1100 ? 'panel' : 'hidden';
+  });
+
+  // Persist display state and track analytics when it changes (not on initial mount)
+  useEffect(() => {
+    if (isInitialMount.current) {
+      isInitialMount.current = false;
+      return;
+    }
+
+    // Save to localStorage
+    try {
+      localStorage.setItem('primeape_lyrics_display', displayState);
+    } catch (e) {
+      console.warn('Failed to save lyrics display state to localStorage:', e);
+    }
+
+    // Track analytics (wrapped in try-catch to prevent any errors from affecting UI)
+    try {
+      trackLyricsToggle({ new_state: displayState });
+    } catch (e) {
+      console.warn('Failed to track lyrics toggle:', e);
+    }
+  }, [displayState]);
+
+  // Persist language choice
+  useEffect(() => {
+    try {
+      if (preferredLanguage) localStorage.setItem(LANGUAGE_KEY, preferredLanguage);
+      localStorage.setItem(DUAL_LINE_KEY, String(isDualLine));
+    } catch (e) {
+      console.warn('Failed to save lyrics language to localStorage:', e);
+    }
+  }, [preferredLanguage, isDualLine]);
+
+  const toggleDualLine = useCallback(() => setIsDualLine((prev) => !prev), []);
+
   // Toggle display state
   // Desktop (≥1100px): panel → integrated → panel (no hidden state)
   // Mobile (<1100px): hidden → panel → integrated → hidden
@@ -121,10 +172,16 @@ export function useLyrics(lyricsUrl: string | null): UseLyricsReturn {
   };
 
   return {
-    lyrics,
-    isLoading,
-    error,
+    lyrics: original.lyrics,
+    translation,
+    isLoading: original.isLoading || translated.isLoading,
+    error: original.error,
     displayState,
     toggleDisplayState,
+    languages,
+    language,
+    setLanguage: setPreferredLanguage,
+    isDualLine,
+    toggleDualLine,
   };
 }
\ No newline at end of file
@@ -1,10 +1,13 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import type { LyricLine } from '@/types';
-import { getCurrentLineIndex, getUpcomingLineIndex } from '@/utils/lrcParser';
+import { getCurrentLineIndex, getLineEnds, hasTimestamps, INSTRUMENTAL_BREAK_THRESHOLD } from '@/utils/lrcParser';
 
 interface UseLyricsSyncReturn {
-  currentLineIndex: number;
+  lyricsTime: number; // playback time with the listener's offset applied
+  currentLineIndex: number; // -1 before the first line and during breaks
   upcomingLineIndex: number;
+  lineEnds: number[]; // when each line stops being sung
+  isInstrumentalBreak: boolean; // long gap between lines (or intro/outro)
   isAutoScrollEnabled: boolean;
   setAutoScrollEnabled: (enabled: boolean) => void;
 }
@@ -14,23 +17,47 @@ interface UseLyricsSyncReturn {
  * 
  * Manages lyrics synchronization and auto-scroll behavior
  * 
+ * The current line is found by binary search, starting from the last
+ * result. Once a line has ended and the next one is at least
+ * INSTRUMENTAL_BREAK_THRESHOLD away, no line is current and the gap is
+ * reported as an instrumental break.
+ * 
  * @param lines - Array of lyric lines
  * @param currentTime - Current playback time
  * @param isPlaying - Whether audio is playing
+ * @param offset - Listener's sync correction in seconds (positive = lyrics later)
  * @returns Current line index and auto-scroll state
  */
 export function useLyricsSync(
   lines: LyricLine[],
   currentTime: number,
-  _isPlaying: boolean
+  _isPlaying: boolean,
+  offset = 0
 ): UseLyricsSyncReturn {
   const [isAutoScrollEnabled, setAutoScrollEnabled] = useState(true);
   const previousLineRef = useRef(-1);
   const userScrollTimerRef = useRef<number | null>(null);
 
+  const lineEnds = useMemo(() => getLineEnds(lines), [lines]);
+  const isTimed = useMemo(() => hasTimestamps(lines), [lines]);
+  const cursorRef = useRef(-1);
+
   // Get current and upcoming line indices
-  const currentLineIndex = getCurrentLineIndex(lines, currentTime);
-  const upcomingLineIndex = getUpcomingLineIndex(lines, currentTime);
+  const lyricsTime = currentTime - offset;
+  const lineIndex = getCurrentLineIndex(lines, lyricsTime, cursorRef.current);
+  const upcomingLineIndex = lineIndex + 1 < lines.length ? lineIndex + 1 : -1;
+
+  // Between lines: before the first one, or after the current one ended
+  const gapStart = lineIndex === -1 ? 0 : lineEnds[lineIndex];
+  const gapEnd = upcomingLineIndex === -1 ? Infinity : lines[upcomingLineIndex].time;
+  const isInstrumentalBreak =
+    isTimed && lyricsTime >= gapStart && gapEnd - gapStart >= INSTRUMENTAL_BREAK_THRESHOLD;
+  const currentLineIndex = isInstrumentalBreak ? -1 : lineIndex;
+
+  // Next lookup starts from here
+  useEffect(() => {
+    cursorRef.current = lineIndex;
+  }, [lineIndex]);
 
   // Re-enable auto-scroll when line changes and enough time has passed
   useEffect(() => {
@@ -72,8 +99,11 @@ export function useLyricsSync(
   }, []);
 
   return {
+    lyricsTime,
     currentLineIndex,
     upcomingLineIndex,
+    lineEnds,
+    isInstrumentalBreak,
     isAutoScrollEnabled,
     setAutoScrollEnabled: (enabled: boolean) => {
       setAutoScrollEnabled(enabled);
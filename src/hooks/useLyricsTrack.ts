@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import type { ParsedLRC } from '@/utils/lrcParser';
+import { formatLyrics } from '@/utils/lyricsFormats';
+
+/**
+ * useLyricsTrack Hook
+ *
+ * Turns the loaded lyrics into a WebVTT file for a <track> element on the
+ * playing <audio>, so screen readers and browser caption menus get the
+ * lyrics too. Enhanced LRC word timings become WebVTT karaoke timestamps.
+ *
+ * @param lyrics - Parsed lyrics of the current track (null if none)
+ * @returns Object URL of the WebVTT file, or null without lyrics
+ */
+export function useLyricsTrack(lyrics: ParsedLRC | null): string | null {
+  const [trackUrl, setTrackUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!lyrics || lyrics.lines.length === 0) {
+      setTrackUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([formatLyrics(lyrics, 'vtt')], { type: 'text/vtt' }));
+    setTrackUrl(url);
+
+    return () => URL.revokeObjectURL(url);
+  }, [lyrics]);
+
+  return trackUrl;
+}
@@ -0,0 +1,157 @@
+import { useEffect, useRef } from 'react';
+import type { Album, PlaybackState, Track } from '@/types';
+
+interface MediaSessionConfig {
+  track: Track | null;
+  album: Album;
+  playbackState: PlaybackState;
+  currentTime: number;
+  duration: number;
+  playbackRate: number; // lets the lock-screen scrubber advance at the listener's speed
+  onPlay: () => void;
+  onPause: () => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onSeek: (time: number) => void;
+}
+
+// Matches the in-page arrow key skip in useKeyboardShortcuts
+const DEFAULT_SEEK_OFFSET = 10;
+
+/**
+ * Guess the artwork MIME type from its file extension
+ */
+const getArtworkType = (url: string): string | undefined => {
+  const extension = url.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'png':
+      return 'image/png';
+    case 'jpg':
+    case 'jpeg':
+      return 'image/jpeg';
+    case 'webp':
+      return 'image/webp';
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * useMediaSession Hook
+ *
+ * Publishes the current track to the Media Session API so lock screens,
+ * Bluetooth headsets and OS media overlays show what is playing and can
+ * control the player.
+ *
+ * Handled actions:
+ * - play / pause
+ * - nexttrack / previoustrack
+ * - seekto / seekforward / seekbackward
+ *
+ * Does nothing in browsers without `navigator.mediaSession`.
+ *
+ * @param config - Current player state and control handlers
+ */
+export function useMediaSession(config: MediaSessionConfig) {
+  const {
+    track,
+    album,
+    playbackState,
+    currentTime,
+    duration,
+    playbackRate,
+  } = config;
+
+  // Latest handlers, so action handlers are registered once
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  // Register action handlers
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+
+    const mediaSession = navigator.mediaSession;
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => configRef.current.onPlay()],
+      ['pause', () => configRef.current.onPause()],
+      ['nexttrack', () => configRef.current.onNext()],
+      ['previoustrack', () => configRef.current.onPrevious()],
+      ['seekto', (details) => {
+        if (details.seekTime !== undefined) {
+          configRef.current.onSeek(details.seekTime);
+        }
+      }],
+      ['seekforward', (details) => {
+        const { currentTime, duration, onSeek } = configRef.current;
+        onSeek(Math.min(currentTime + (details.seekOffset ?? DEFAULT_SEEK_OFFSET), duration));
+      }],
+      ['seekbackward', (details) => {
+        const { currentTime, onSeek } = configRef.current;
+        onSeek(Math.max(currentTime - (details.seekOffset ?? DEFAULT_SEEK_OFFSET), 0));
+      }],
+    ];
+
+    handlers.forEach(([action, handler]) => {
+      try {
+        mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Action not supported by this browser
+      }
+    });
+
+    return () => {
+      handlers.forEach(([action]) => {
+        try {
+          mediaSession.setActionHandler(action, null);
+        } catch {
+          // Action not supported by this browser
+        }
+      });
+    };
+  }, []);
+
+  // Track metadata
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+
+    if (!track) {
+      navigator.mediaSession.metadata = null;
+      return;
+    }
+
+    const artworkSrc = new URL(album.artworkUrl, window.location.origin).href;
+    const artworkType = getArtworkType(album.artworkUrl);
+
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: track.title,
+      artist: album.artist,
+      album: album.title,
+      artwork: [artworkType ? { src: artworkSrc, type: artworkType } : { src: artworkSrc }],
+    });
+  }, [track, album]);
+
+  // Playback state
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+
+    // 'loading' keeps the session alive between tracks
+    navigator.mediaSession.playbackState =
+      playbackState === 'playing' ? 'playing' : playbackState === 'stopped' ? 'none' : 'paused';
+  }, [playbackState]);
+
+  // Position state (drives the lock-screen scrubber)
+  useEffect(() => {
+    if (!('mediaSession' in navigator) || !navigator.mediaSession.setPositionState) return;
+    if (!isFinite(duration) || duration <= 0) return;
+
+    try {
+      navigator.mediaSession.setPositionState({
+        duration,
+        playbackRate,
+        position: Math.max(0, Math.min(currentTime, duration)),
+      });
+    } catch {
+      // Ignore invalid state during track changes
+    }
+  }, [currentTime, duration, playbackRate]);
+}
@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Album } from '@/types';
+import {
+  isOfflineSupported,
+  getAlbumAudioFiles,
+  getSavedFileCount,
+  saveAlbumForOffline,
+  removeAlbumFromOffline,
+  getStorageUsage,
+  purgeOfflineStorage,
+  type StorageUsage,
+} from '@/utils/offlineStorage';
+
+/**
+ * useOfflineAlbum Hook
+ *
+ * Tracks whether a release is saved for offline listening and exposes
+ * save / remove / purge actions plus storage usage.
+ *
+ * @param album - Release to manage
+ * @returns Offline status and actions
+ */
+export function useOfflineAlbum(album: Album) {
+  const isSupported = isOfflineSupported();
+  const totalFiles = getAlbumAudioFiles(album).length;
+  const [savedFiles, setSavedFiles] = useState(0);
+  const [progress, setProgress] = useState<number | null>(null); // 0-1 while saving
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!isSupported) return;
+    try {
+      const [count, storage] = await Promise.all([getSavedFileCount(album), getStorageUsage()]);
+      setSavedFiles(count);
+      setUsage(storage);
+    } catch (e) {
+      console.warn('Failed to read offline storage:', e);
+    }
+  }, [album, isSupported]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const save = useCallback(async () => {
+    setError(null);
+    setProgress(0);
+    try {
+      await saveAlbumForOffline(album, (done, total) => setProgress(done / total));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save for offline');
+    } finally {
+      setProgress(null);
+      await refresh();
+    }
+  }, [album, refresh]);
+
+  const remove = useCallback(async () => {
+    setError(null);
+    setIsRemoving(true);
+    try {
+      await removeAlbumFromOffline(album);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to remove offline files');
+    } finally {
+      setIsRemoving(false);
+      await refresh();
+    }
+  }, [album, refresh]);
+
+  const purge = useCallback(async () => {
+    setError(null);
+    setIsRemoving(true);
+    try {
+      await purgeOfflineStorage();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to clear offline data');
+    } finally {
+      setIsRemoving(false);
+      await refresh();
+    }
+  }, [refresh]);
+
+  return {
+    isSupported,
+    isSaved: totalFiles > 0 && savedFiles === totalFiles,
+    savedFiles,
+    totalFiles,
+    isSaving: progress !== null,
+    isBusy: progress !== null || isRemoving, // saving, removing or purging
+    progress,
+    usage,
+    error,
+    save,
+    remove,
+    purge,
+    refresh,
+  };
+}
@@ -0,0 +1,51 @@
+import { useState, useCallback } from 'react';
+import type { PlaybackLoop } from '@/types';
+
+interface UsePracticeModeOptions {
+  setVocalLevel: (level: number) => void;
+  setLoop: (loop: PlaybackLoop | null) => void;
+  holdListeningSettings: () => void;
+  restoreListeningSettings: () => void;
+}
+
+interface UsePracticeModeReturn {
+  isPracticeMode: boolean;
+  togglePracticeMode: () => void;
+}
+
+/**
+ * usePracticeMode Hook
+ *
+ * Karaoke/practice mode: the instrumental plays (vocal level 0) under large
+ * integrated lyrics, with tempo and A-B loop controls for working on a
+ * section. The listener's vocal level and speed are held while practicing -
+ * practice values are never saved, so even a reload mid-practice comes back
+ * to normal playback - and restored on the way out, with the loop cleared.
+ *
+ * @param options - Player actions the mode takes over
+ * @returns Whether practice mode is on and a toggle
+ */
+export function usePracticeMode({
+  setVocalLevel,
+  setLoop,
+  holdListeningSettings,
+  restoreListeningSettings,
+}: UsePracticeModeOptions): UsePracticeModeReturn {
+  const [isPracticeMode, setIsPracticeMode] = useState(false);
+
+  const togglePracticeMode = useCallback(() => {
+    if (isPracticeMode) {
+      restoreListeningSettings();
+      setLoop(null);
+    } else {
+      holdListeningSettings();
+      setVocalLevel(0);
+    }
+    setIsPracticeMode(!isPracticeMode);
+  }, [isPracticeMode, setVocalLevel, setLoop, holdListeningSettings, restoreListeningSettings]);
+
+  return {
+    isPracticeMode,
+    togglePracticeMode,
+  };
+}
@@ -1,16 +1,24 @@
 import { useState, useEffect } from 'react';
 import { generateWaveform } from '@/utils/generateWaveform';
+import { loadWaveformPeaks, resamplePeaks } from '@/utils/waveformPeaks';
 
 /**
  * useWaveform Hook
  * 
  * Generates and manages waveform data for an audio track.
+ * Sources, in order: waveform data passed in (getTrackWaveform), peaks
+ * precomputed at build time, then decoding the audio in the browser.
  * 
  * @param audioUrl - URL to audio file
  * @param samples - Number of waveform bars
+ * @param pregenerated - Waveform data shipped with the track, if any
  * @returns Object with waveform data and loading state
  */
-export function useWaveform(audioUrl: string | null, samples: number = 100) {
+export function useWaveform(
+  audioUrl: string | null,
+  samples: number = 100,
+  pregenerated?: number[]
+) {
   const [waveformData, setWaveformData] = useState<number[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -21,21 +29,31 @@ export function useWaveform(audioUrl: string | null, samples: number = 100) {
       return;
     }
 
-    let cancelled = false;
+    if (pregenerated && pregenerated.length > 0) {
+      setWaveformData(resamplePeaks(pregenerated, samples));
+      setIsLoading(false);
+      setError(null);
+      return;
+    }
+
+    // Aborted when the URL changes mid-load (stops the download/decode)
+    const controller = new AbortController();
 
     const loadWaveform = async () => {
       setIsLoading(true);
       setError(null);
 
       try {
-        const data = await generateWaveform(audioUrl, samples);
+        const data =
+          (await loadWaveformPeaks(audioUrl, samples, controller.signal)) ??
+          (await generateWaveform(audioUrl, samples, controller.signal));
         
-        if (!cancelled) {
+        if (!controller.signal.aborted) {
           setWaveformData(data);
           setIsLoading(false);
         }
       } catch (err) {
-        if (!cancelled) {
+        if (!controller.signal.aborted) {
           setError('Failed to load waveform');
           setIsLoading(false);
           // Use flat waveform as fallback
@@ -47,9 +65,9 @@ export function useWaveform(audioUrl: string | null, samples: number = 100) {
     loadWaveform();
 
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [audioUrl, samples]);
+  }, [audioUrl, samples, pregenerated]);
 
   return {
     waveformData,
@@ -1,15 +1,31 @@
-import React from 'react';
+import React, { Suspense } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { registerServiceWorker } from './utils/offlineStorage';
+
+// Lyric timing studio, only loaded on its own (unlisted) route
+const LyricStudio = React.lazy(() => import('./components/Studio/LyricStudio'));
+
+const isStudio = window.location.pathname.replace(/\/+$/, '') === '/studio';
 
 /**
  * Application Entry Point
  *
  * Initializes React and mounts the app to the DOM.
  * Uses React 18's createRoot API for concurrent features.
+ * Registers the service worker for offline use (production only).
+ * /studio mounts the lyric timing studio instead of the site.
  */
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    {isStudio ? (
+      <Suspense fallback={null}>
+        <LyricStudio />
+      </Suspense>
+    ) : (
+      <App />
+    )}
   </React.StrictMode>
 );
+
+registerServiceWorker();
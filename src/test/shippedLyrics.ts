@@ -0,0 +1,20 @@
+import { beforeAll, vi } from 'vitest';
+
+/**
+ * Shared fixture for the lyrics test suites
+ */
+
+// Every LRC file the site ships
+export const SHIPPED_LYRICS = Object.entries(
+  import.meta.glob<string>('../../public/lyrics/*.lrc', { query: '?raw', import: 'default', eager: true })
+).map(([path, content]) => ({ name: path.split('/').pop() as string, content }));
+
+/**
+ * Keep parseLRC's progress logging out of the test output
+ * (call at the top level of a test file)
+ */
+export function silenceParserLogs() {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+}
@@ -36,12 +36,14 @@ export type AnalyticsEventName =
   | 'seek'
   | 'version_toggle'
   | 'volume_change'
+  | 'playback_rate_change'
   | 'shuffle_toggle'
   | 'repeat_toggle'
   | 'lyrics_toggle'
   | 'download_click'
   | 'donation_click'
   | 'social_click'
+  | 'share_click'
   | 'merch_view'
   | 'contact_submit'
   | 'section_view'
@@ -59,7 +61,7 @@ export interface BaseEventParams {
  * Track play event parameters
  */
 export interface TrackPlayParams extends BaseEventParams {
-  track_id: number;
+  track_id: string;
   track_title: string;
   audio_version: 'vocal' | 'instrumental';
 }
@@ -68,7 +70,7 @@ export interface TrackPlayParams extends BaseEventParams {
  * Track pause event parameters
  */
 export interface TrackPauseParams extends BaseEventParams {
-  track_id: number;
+  track_id: string;
   track_title: string;
   current_time: number;
   percent_complete: number;
@@ -78,7 +80,7 @@ export interface TrackPauseParams extends BaseEventParams {
  * Track complete event parameters
  */
 export interface TrackCompleteParams extends BaseEventParams {
-  track_id: number;
+  track_id: string;
   track_title: string;
   audio_version: 'vocal' | 'instrumental';
 }
@@ -87,7 +89,7 @@ export interface TrackCompleteParams extends BaseEventParams {
  * Track skip event parameters (skipped before 30% complete)
  */
 export interface TrackSkipParams extends BaseEventParams {
-  track_id: number;
+  track_id: string;
   track_title: string;
   percent_complete: number;
 }
@@ -96,7 +98,7 @@ export interface TrackSkipParams extends BaseEventParams {
  * Seek event parameters
  */
 export interface SeekParams extends BaseEventParams {
-  track_id: number;
+  track_id: string;
   seek_to_percent: number;
 }
 
@@ -104,7 +106,7 @@ export interface SeekParams extends BaseEventParams {
  * Version toggle event parameters
  */
 export interface VersionToggleParams extends BaseEventParams {
-  track_id: number;
+  track_id: string;
   new_version: 'vocal' | 'instrumental';
 }
 
@@ -115,6 +117,14 @@ export interface VolumeChangeParams extends BaseEventParams {
   new_volume: number; // 0-100
 }
 
+/**
+ * Playback speed change event parameters
+ */
+export interface PlaybackRateChangeParams extends BaseEventParams {
+  new_rate: number; // 0.5-2, 1 = normal
+  previous_rate: number;
+}
+
 /**
  * Shuffle toggle event parameters
  */
@@ -143,6 +153,16 @@ export interface SocialClickParams extends BaseEventParams {
   platform: string;
 }
 
+/**
+ * Share click event parameters
+ */
+export interface ShareClickParams extends BaseEventParams {
+  track_id: string;
+  method: 'native' | 'copy'; // Web Share sheet or copied link
+  start_time: number; // seconds, 0 when shared from the start
+  is_clip: boolean; // link has an end time
+}
+
 /**
  * Merch view event parameters
  */
@@ -169,7 +189,7 @@ export interface SectionViewParams extends BaseEventParams {
  * Audio error event parameters
  */
 export interface AudioErrorParams extends BaseEventParams {
-  track_id: number;
+  track_id: string;
   error_message: string;
 }
 
@@ -188,6 +208,7 @@ export type AnalyticsEventParams =
   | RepeatToggleParams
   | LyricsToggleParams
   | SocialClickParams
+  | ShareClickParams
   | MerchViewParams
   | ContactSubmitParams
   | SectionViewParams
@@ -2,18 +2,35 @@
 // TRACK & ALBUM TYPES
 // ============================================================================
 
+/**
+ * Globally unique track identifier across the whole catalog.
+ * Format: `<releaseId>-<two digit track number>` (e.g. 'foundation-05')
+ */
+export type TrackId = string;
+
+/**
+ * A track's LRC files keyed by language code (BCP 47, e.g. 'en', 'es').
+ * The first entry is the original lyrics; any others are translations.
+ */
+export type LyricsFiles = Record<string, string>;
+
 export interface Track {
-  id: number;
+  id: TrackId;
+  trackNumber: number; // 1-based position within its release
   title: string;
   duration: number; // in seconds
   vocalFile: string; // path to vocal version MP3
   instrumentalFile: string; // path to instrumental version MP3
-  lyricsFile: string | null; // path to LRC file, null if no lyrics yet
+  lyrics: LyricsFiles | null; // LRC file per language, null if no lyrics yet
   hasVocals: boolean; // true if vocal version is available
-  waveformData?: number[]; // optional pre-generated waveform data
+  waveformData?: Partial<Record<AudioVersion, number[]>>; // pre-generated peaks per version (overrides the build's peaks)
 }
 
+export type ReleaseType = 'album' | 'ep' | 'single';
+
 export interface Album {
+  id: string; // URL-safe release slug, also used as the track ID prefix
+  type: ReleaseType;
   title: string;
   artist: string;
   releaseYear: number;
@@ -31,8 +48,46 @@ export type RepeatMode = 'off' | 'all' | 'one';
 
 export type AudioVersion = 'vocal' | 'instrumental';
 
+/**
+ * Entry in the listener's play queue ("Up Next")
+ * The key keeps entries distinct when the same track is queued twice.
+ */
+export interface QueueItem {
+  key: string;
+  trackId: TrackId;
+}
+
+/**
+ * Play queue controls the player hands to the mobile tracklist
+ */
+export interface QueueActions {
+  playNext: (trackId: TrackId) => void;
+  addToQueue: (trackId: TrackId) => void;
+  playQueueItem: (key: string) => void;
+  removeFromQueue: (key: string) => void;
+  moveQueueItem: (fromIndex: number, toIndex: number) => void;
+  clearQueue: () => void;
+}
+
+/**
+ * Section of the current track repeated until cleared (A-B loop)
+ */
+export interface PlaybackLoop {
+  start: number; // seconds
+  end: number; // seconds
+}
+
+/**
+ * Listener's named position in a track (e.g. "second verse")
+ */
+export interface Bookmark {
+  id: string;
+  time: number; // seconds
+  name: string;
+}
+
 export interface PlayerState {
-  currentTrackId: number | null;
+  currentTrackId: TrackId | null;
   playbackState: PlaybackState;
   currentTime: number;
   duration: number;
@@ -43,17 +98,104 @@ export interface PlayerState {
   audioVersion: AudioVersion;
 }
 
+/**
+ * Listening session saved between visits (see utils/playerSession.ts)
+ * Volume, mute, shuffle and repeat keep their own preference keys.
+ */
+export interface PlayerSession {
+  currentTrackId: TrackId;
+  currentTime: number; // seconds into the track
+  audioVersion: AudioVersion;
+  shuffleOrder: TrackId[]; // empty when shuffle is off
+  contextAnchorId: TrackId | null; // where the release order resumes after the queue
+  savedAt: number; // epoch ms
+}
+
+/**
+ * Player position encoded in a shareable URL (see utils/deepLink.ts)
+ */
+export interface DeepLink {
+  trackId: TrackId;
+  time?: number; // seconds
+  end?: number; // clip end in seconds (playback stops here)
+  version?: AudioVersion;
+  line?: number; // 1-based lyric line to jump to
+  note?: number; // 1-based lyric line whose annotation opens
+}
+
+// ============================================================================
+// AUDIO EFFECTS TYPES
+// ============================================================================
+
+/**
+ * Settings for the playback effects chain (see utils/audioEffects.ts)
+ */
+export interface EffectsSettings {
+  enabled: boolean; // false bypasses every effect
+  eqGains: number[]; // dB per EQ band, same order as EQ_BANDS
+  compressor: boolean;
+  stereoWidth: number; // 0 = mono, 1 = unchanged, 2 = extra wide
+}
+
+export interface EffectsPreset {
+  id: string;
+  name: string;
+  eqGains: number[];
+  compressor: boolean;
+  stereoWidth: number;
+  isCustom?: boolean; // saved by the listener
+}
+
+/**
+ * Equalizer visualizer styles (see utils/visualizers.ts)
+ */
+export type VisualizerMode = 'radial' | 'circular' | 'oscilloscope' | 'spectrogram';
+
 // ============================================================================
 // LYRICS TYPES
 // ============================================================================
 
+/**
+ * Word timing from Enhanced LRC `<mm:ss.xx>` tags
+ */
+export interface LyricWord {
+  time: number; // seconds the word starts
+  end?: number; // seconds the word ends (otherwise when the next word/line starts)
+  text: string; // includes trailing whitespace
+}
+
 export interface LyricLine {
   time: number; // timestamp in seconds
   text: string;
+  end?: number; // seconds the line ends (SRT/WebVTT/TTML cues; LRC lines run until the next one)
+  words?: LyricWord[]; // word timings (Enhanced LRC, WebVTT karaoke tags, TTML spans)
 }
 
 export type LyricsDisplayState = 'hidden' | 'panel' | 'integrated';
 
+/**
+ * Liner note attached to a lyric line (see data/annotations.ts)
+ */
+export interface LyricAnnotation {
+  trackId: TrackId;
+  line: number; // 1-based lyric line, same numbering as deep links (?line=)
+  title: string;
+  body: string; // explanation; blank lines separate paragraphs
+  references?: AnnotationReference[];
+  image?: AnnotationImage;
+}
+
+export interface AnnotationReference {
+  label: string;
+  url?: string;
+}
+
+export interface AnnotationImage {
+  src: string;
+  alt: string;
+  caption?: string;
+}
+
 // ============================================================================
 // PREFERENCE TYPES
 // ============================================================================
@@ -98,7 +240,7 @@ export * from './analytics';
 
 // Legacy types (kept for backwards compatibility)
 export interface PlayEvent {
-  trackId: number;
+  trackId: TrackId;
   timestamp: number;
   audioVersion: AudioVersion;
 }
@@ -11,10 +11,12 @@ import type {
   SeekParams,
   VersionToggleParams,
   VolumeChangeParams,
+  PlaybackRateChangeParams,
   ShuffleToggleParams,
   RepeatToggleParams,
   LyricsToggleParams,
   SocialClickParams,
+  ShareClickParams,
   MerchViewParams,
   ContactSubmitParams,
   SectionViewParams,
@@ -111,6 +113,13 @@ export const trackVolumeChange = (params: VolumeChangeParams): void => {
   trackEvent('volume_change', { ...params });
 };
 
+/**
+ * Track playback speed changes
+ */
+export const trackPlaybackRateChange = (params: PlaybackRateChangeParams): void => {
+  trackEvent('playback_rate_change', { ...params });
+};
+
 /**
  * Track shuffle toggle
  */
@@ -143,6 +152,13 @@ export const trackSocialClick = (params: SocialClickParams): void => {
   trackEvent('social_click', { ...params });
 };
 
+/**
+ * Track shared track links (share sheet or copy link)
+ */
+export const trackShareClick = (params: ShareClickParams): void => {
+  trackEvent('share_click', { ...params });
+};
+
 /**
  * Track merch product modal opens
  */
@@ -0,0 +1,153 @@
+import type { EffectsPreset, EffectsSettings } from '@/types';
+
+/**
+ * Playback effects chain for the Web Audio graph
+ *
+ * input -> EQ bands (in series) -> compressor -> stereo width -> output
+ *
+ * Every stage stays connected; "off" is expressed through parameters
+ * (0 dB bands, ratio 1 compressor, width 1) so toggling never glitches.
+ */
+
+export interface EqBand {
+  type: BiquadFilterType;
+  frequency: number; // Hz
+  q: number;
+  label: string;
+}
+
+/**
+ * EQ bands, low to high
+ */
+export const EQ_BANDS: EqBand[] = [
+  { type: 'lowshelf', frequency: 60, q: 0.7, label: '60' },
+  { type: 'peaking', frequency: 150, q: 1.1, label: '150' },
+  { type: 'peaking', frequency: 400, q: 1.1, label: '400' },
+  { type: 'peaking', frequency: 1000, q: 1.1, label: '1k' },
+  { type: 'peaking', frequency: 2500, q: 1.1, label: '2.5k' },
+  { type: 'peaking', frequency: 6000, q: 1.1, label: '6k' },
+  { type: 'highshelf', frequency: 12000, q: 0.7, label: '12k' },
+];
+
+export const EQ_GAIN_RANGE = 12; // ±dB
+export const MAX_STEREO_WIDTH = 2;
+
+/**
+ * Built-in presets (listeners can save their own on top)
+ */
+export const EFFECTS_PRESETS: EffectsPreset[] = [
+  { id: 'flat', name: 'Flat', eqGains: [0, 0, 0, 0, 0, 0, 0], compressor: false, stereoWidth: 1 },
+  { id: 'bass-boost', name: 'Bass Boost', eqGains: [6, 4, 1, 0, 0, 0, 0], compressor: false, stereoWidth: 1 },
+  { id: 'vocal', name: 'Vocal', eqGains: [-2, -1, 1, 3, 4, 2, 0], compressor: true, stereoWidth: 0.9 },
+  { id: 'treble-boost', name: 'Treble Boost', eqGains: [0, 0, 0, 0, 2, 4, 6], compressor: false, stereoWidth: 1 },
+  { id: 'late-night', name: 'Late Night', eqGains: [-3, -1, 0, 1, 1, 0, -2], compressor: true, stereoWidth: 1 },
+  { id: 'wide', name: 'Wide', eqGains: [1, 0, 0, 0, 0, 1, 2], compressor: false, stereoWidth: 1.6 },
+];
+
+export const DEFAULT_EFFECTS_SETTINGS: EffectsSettings = {
+  enabled: false,
+  eqGains: EQ_BANDS.map(() => 0),
+  compressor: false,
+  stereoWidth: 1,
+};
+
+// Time constant for parameter changes (seconds) - avoids zipper noise
+const PARAM_SMOOTHING = 0.02;
+
+export interface EffectsChain {
+  input: AudioNode;
+  output: AudioNode;
+  apply: (settings: EffectsSettings) => void;
+}
+
+/**
+ * Build the effects chain on an AudioContext
+ * Connect a source to `input` and `output` to the destination.
+ *
+ * @param ctx - AudioContext to create nodes on
+ * @returns Chain endpoints and a function to apply settings
+ */
+export function createEffectsChain(ctx: AudioContext): EffectsChain {
+  const input = ctx.createGain();
+  const output = ctx.createGain();
+
+  // Upmix mono sources so the width stage always sees two channels
+  input.channelCount = 2;
+  input.channelCountMode = 'explicit';
+  input.channelInterpretation = 'speakers';
+
+  // EQ: one biquad per band, in series
+  const filters = EQ_BANDS.map((band) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = band.type;
+    filter.frequency.value = band.frequency;
+    filter.Q.value = band.q;
+    filter.gain.value = 0;
+    return filter;
+  });
+
+  const compressor = ctx.createDynamicsCompressor();
+
+  // Stereo width: L' = a*L + b*R, R' = a*R + b*L with a = (1+w)/2, b = (1-w)/2
+  const splitter = ctx.createChannelSplitter(2);
+  const merger = ctx.createChannelMerger(2);
+  const leftToLeft = ctx.createGain();
+  const rightToLeft = ctx.createGain();
+  const rightToRight = ctx.createGain();
+  const leftToRight = ctx.createGain();
+
+  // Wire it up
+  let previous: AudioNode = input;
+  filters.forEach((filter) => {
+    previous.connect(filter);
+    previous = filter;
+  });
+  previous.connect(compressor);
+  compressor.connect(splitter);
+
+  splitter.connect(leftToLeft, 0);
+  splitter.connect(leftToRight, 0);
+  splitter.connect(rightToRight, 1);
+  splitter.connect(rightToLeft, 1);
+  leftToLeft.connect(merger, 0, 0);
+  rightToLeft.connect(merger, 0, 0);
+  rightToRight.connect(merger, 0, 1);
+  leftToRight.connect(merger, 0, 1);
+  merger.connect(output);
+
+  const setParam = (param: AudioParam, value: number) => {
+    param.setTargetAtTime(value, ctx.currentTime, PARAM_SMOOTHING);
+  };
+
+  const apply = (settings: EffectsSettings) => {
+    const { enabled } = settings;
+
+    filters.forEach((filter, index) => {
+      const gain = enabled ? settings.eqGains[index] ?? 0 : 0;
+      setParam(filter.gain, Math.max(-EQ_GAIN_RANGE, Math.min(EQ_GAIN_RANGE, gain)));
+    });
+
+    if (enabled && settings.compressor) {
+      setParam(compressor.threshold, -24);
+      setParam(compressor.knee, 30);
+      setParam(compressor.ratio, 4);
+    } else {
+      // Ratio 1 = no gain reduction
+      setParam(compressor.threshold, 0);
+      setParam(compressor.knee, 0);
+      setParam(compressor.ratio, 1);
+    }
+
+    const width = enabled ? Math.max(0, Math.min(MAX_STEREO_WIDTH, settings.stereoWidth)) : 1;
+    const direct = (1 + width) / 2;
+    const cross = (1 - width) / 2;
+    setParam(leftToLeft.gain, direct);
+    setParam(rightToRight.gain, direct);
+    setParam(rightToLeft.gain, cross);
+    setParam(leftToRight.gain, cross);
+  };
+
+  apply(DEFAULT_EFFECTS_SETTINGS);
+
+  return { input, output, apply };
+}
@@ -0,0 +1,95 @@
+/**
+ * Equal-power crossfade curves for Web Audio gain automation
+ *
+ * A linear fade dips in perceived loudness halfway through because the two
+ * signals' powers (not amplitudes) add up. Cosine/sine curves keep the summed
+ * power constant so the mix stays level across the transition.
+ */
+
+/**
+ * Build a gain curve for GainNode.setValueCurveAtTime
+ *
+ * @param direction - 'in' ramps 0 → 1, 'out' ramps 1 → 0
+ * @param steps - Number of points in the curve (default 64)
+ * @returns Float32Array of gain values
+ */
+export function createFadeCurve(
+  direction: 'in' | 'out',
+  steps: number = 64
+): Float32Array {
+  const curve = new Float32Array(steps);
+
+  for (let i = 0; i < steps; i++) {
+    const progress = i / (steps - 1);
+    const angle = progress * (Math.PI / 2);
+    curve[i] = direction === 'in' ? Math.sin(angle) : Math.cos(angle);
+  }
+
+  return curve;
+}
+
+/**
+ * Schedule an equal-power fade on a gain node, replacing any pending automation
+ *
+ * @param gain - GainNode to automate
+ * @param direction - Fade direction
+ * @param durationSeconds - Fade length in seconds (0 = jump immediately)
+ */
+export function scheduleFade(
+  gain: GainNode,
+  direction: 'in' | 'out',
+  durationSeconds: number
+): void {
+  const now = gain.context.currentTime;
+  const target = direction === 'in' ? 1 : 0;
+
+  gain.gain.cancelScheduledValues(now);
+
+  if (durationSeconds <= 0) {
+    gain.gain.setValueAtTime(target, now);
+    return;
+  }
+
+  gain.gain.setValueCurveAtTime(createFadeCurve(direction), now, durationSeconds);
+}
+
+/**
+ * Reset a gain node to unity, cancelling any fade in progress
+ *
+ * @param gain - GainNode to reset
+ */
+export function resetGain(gain: GainNode): void {
+  const now = gain.context.currentTime;
+  gain.gain.cancelScheduledValues(now);
+  gain.gain.setValueAtTime(1, now);
+}
+
+/**
+ * Ramp a gain node linearly to a level, replacing any pending automation
+ *
+ * For blending two versions of the same recording: their signals are
+ * correlated, so amplitudes (not powers) add up and a linear ramp keeps
+ * the mix level.
+ *
+ * @param gain - GainNode to automate
+ * @param target - Gain to end on (0-1)
+ * @param durationSeconds - Ramp length in seconds (0 = jump immediately)
+ */
+export function rampGain(
+  gain: GainNode,
+  target: number,
+  durationSeconds: number
+): void {
+  const now = gain.context.currentTime;
+
+  gain.gain.cancelScheduledValues(now);
+
+  if (durationSeconds <= 0) {
+    gain.gain.setValueAtTime(target, now);
+    return;
+  }
+
+  // Start the ramp from wherever the gain is now
+  gain.gain.setValueAtTime(gain.gain.value, now);
+  gain.gain.linearRampToValueAtTime(target, now + durationSeconds);
+}
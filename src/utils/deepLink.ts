@@ -0,0 +1,158 @@
+import type { DeepLink, Track } from '@/types';
+import {
+  DEFAULT_ALBUM,
+  getAlbumById,
+  getTrackById,
+  getTrackBySlug,
+  getTrackSlug,
+} from '@/data/catalog';
+import { formatTime, parseTime } from './formatTime';
+
+/**
+ * Deep Links
+ *
+ * Shareable player URLs. Accepted forms:
+ * - /track/vice
+ * - /?track=5 (track number on the default release, or `&album=<id>`)
+ * - /?track=foundation-05 or /?track=vice
+ *
+ * Optional query parameters on any form:
+ * - t=1:23 (or plain seconds, tenths allowed: 1:23.5) - start position
+ * - end=1:53 - clip end; playback stops there (needs t)
+ * - v=vocal | instrumental - audio version
+ * - line=12 - jump to a lyric line (1-based)
+ * - note=12 - open the annotation on a lyric line (1-based)
+ */
+
+const TRACK_PATH_PREFIX = '/track/';
+
+// Query parameters owned by deep links (others are left untouched)
+const DEEP_LINK_PARAMS = ['track', 'album', 't', 'end', 'v', 'line', 'note'];
+
+/**
+ * Resolve the `track` query parameter (number, ID or slug)
+ */
+const resolveTrackParam = (value: string, albumId: string | null): Track | undefined => {
+  if (/^\d+$/.test(value)) {
+    const album = (albumId && getAlbumById(albumId)) || DEFAULT_ALBUM;
+    return album.tracks.find((track) => track.trackNumber === parseInt(value, 10));
+  }
+  return getTrackById(value) ?? getTrackBySlug(value);
+};
+
+/**
+ * Round a time down to the precision links keep (tenths of a second)
+ * @param seconds - Time in seconds
+ * @returns Time as it will read back from the link
+ */
+export const toLinkTime = (seconds: number): number => {
+  // The epsilon keeps e.g. 12.7 (126.999... tenths) from dropping a tenth
+  return Math.floor(seconds * 10 + 1e-6) / 10;
+};
+
+/**
+ * Format a `t` / `end` value: "1:23", or "1:23.4" between whole seconds
+ * (so a clip shorter than a second doesn't collapse to an empty range)
+ */
+const formatTimeParam = (seconds: number): string => {
+  const rounded = toLinkTime(seconds);
+  const tenths = Math.round(rounded * 10) % 10;
+  return tenths > 0 ? `${formatTime(rounded)}.${tenths}` : formatTime(rounded);
+};
+
+/**
+ * Parse a `t` value ("1:23", "1:23.4" or "83") into seconds
+ */
+const parseTimeParam = (value: string): number | undefined => {
+  const seconds = value.includes(':') ? parseTime(value) : Number(value);
+  return isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+};
+
+/**
+ * Read a deep link from a URL
+ * @param url - Page URL (usually window.location)
+ * @returns Deep link, or null if the URL doesn't point at a known track
+ */
+export function parseDeepLink(url: URL | Location): DeepLink | null {
+  const params = new URLSearchParams(url.search);
+
+  let track: Track | undefined;
+  if (url.pathname.startsWith(TRACK_PATH_PREFIX)) {
+    const slug = decodeURIComponent(url.pathname.slice(TRACK_PATH_PREFIX.length)).replace(/\/+$/, '');
+    track = getTrackBySlug(slug);
+  } else {
+    const trackParam = params.get('track');
+    track = trackParam ? resolveTrackParam(trackParam, params.get('album')) : undefined;
+  }
+
+  if (!track) return null;
+
+  const link: DeepLink = { trackId: track.id };
+
+  const time = params.get('t');
+  if (time) link.time = parseTimeParam(time);
+
+  // A clip needs a start and must end after it
+  const end = params.get('end');
+  const endTime = end ? parseTimeParam(end) : undefined;
+  if (endTime !== undefined && link.time !== undefined && endTime > link.time) {
+    link.end = endTime;
+  }
+
+  const version = params.get('v');
+  if (version === 'vocal' || version === 'instrumental') link.version = version;
+
+  const line = parseInt(params.get('line') ?? '', 10);
+  if (!isNaN(line) && line > 0) link.line = line;
+
+  const note = parseInt(params.get('note') ?? '', 10);
+  if (!isNaN(note) && note > 0) link.note = note;
+
+  return link;
+}
+
+/**
+ * Build the shareable URL for a player position
+ * Keeps unrelated query parameters and the hash from `base`.
+ * @param link - Track, and optionally time / clip end / version / lyric line / note
+ * @param base - URL to build on (defaults to the current page)
+ * @returns Absolute URL string
+ */
+export function buildDeepLink(link: DeepLink, base: URL | Location = window.location): string {
+  const track = getTrackById(link.trackId);
+  const url = new URL(base.href);
+
+  const params: string[] = [];
+  if (track && getTrackBySlug(getTrackSlug(track))?.id === track.id) {
+    url.pathname = `${TRACK_PATH_PREFIX}${getTrackSlug(track)}`;
+  } else {
+    // Slug taken by an earlier release - fall back to the unique ID
+    url.pathname = '/';
+    params.push(`track=${encodeURIComponent(link.trackId)}`);
+  }
+
+  // Built by hand so the time stays readable (t=1:23, not t=1%3A23)
+  if (link.time !== undefined && (link.time >= 1 || link.end !== undefined)) {
+    params.push(`t=${formatTimeParam(link.time)}`);
+  }
+  if (link.end !== undefined) {
+    params.push(`end=${formatTimeParam(link.end)}`);
+  }
+  if (link.version) {
+    params.push(`v=${link.version}`);
+  }
+  if (link.line !== undefined) {
+    params.push(`line=${link.line}`);
+  }
+  if (link.note !== undefined) {
+    params.push(`note=${link.note}`);
+  }
+
+  const otherParams = new URLSearchParams(url.search);
+  DEEP_LINK_PARAMS.forEach((param) => otherParams.delete(param));
+  const other = otherParams.toString();
+  if (other) params.push(other);
+
+  url.search = params.length > 0 ? `?${params.join('&')}` : '';
+  return url.toString();
+}
@@ -1,53 +1,171 @@
+import type { WaveformWorkerRequest, WaveformWorkerResponse } from '@/workers/waveformWorker';
+import { getCachedWaveform, setCachedWaveform } from './waveformCache';
+import { computePeaks } from './waveformPeaks';
+
+interface PendingJob {
+  resolve: (data: number[]) => void;
+  reject: (error: unknown) => void;
+}
+
+// Page-side decoder for the fallback - an offline context needs no output device or user gesture
+let decodeContext: OfflineAudioContext | null = null;
+
+// Worker that fetches, decodes and downsamples (null once it turned out unusable)
+let waveformWorker: Worker | null | undefined;
+let nextJobId = 0;
+const pendingJobs = new Map<number, PendingJob>();
+
+const createAbortError = () => new DOMException('Waveform generation cancelled', 'AbortError');
+
+const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+const getDecodeContext = (): OfflineAudioContext => {
+  if (!decodeContext) {
+    decodeContext = new OfflineAudioContext(1, 1, 44100);
+  }
+  return decodeContext;
+};
+
+/**
+ * Start the waveform worker on first use
+ * @returns Worker, or null if workers are unavailable
+ */
+function getWaveformWorker(): Worker | null {
+  if (waveformWorker !== undefined) return waveformWorker;
+
+  try {
+    const worker = new Worker(new URL('../workers/waveformWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<WaveformWorkerResponse>) => {
+      const response = event.data;
+      const job = pendingJobs.get(response.id);
+      pendingJobs.delete(response.id);
+      if ('error' in response) {
+        job?.reject(new Error(response.error));
+      } else {
+        job?.resolve(response.data);
+      }
+    };
+
+    worker.onerror = (event) => {
+      // Worker failed to load - later waveforms are generated on the page
+      console.warn('Waveform worker failed:', event.message);
+      waveformWorker = null;
+      worker.terminate();
+      pendingJobs.forEach((job) => job.reject(new Error('Waveform worker failed')));
+      pendingJobs.clear();
+    };
+
+    waveformWorker = worker;
+  } catch (error) {
+    console.warn('Waveform worker unavailable:', error);
+    waveformWorker = null;
+  }
+
+  return waveformWorker;
+}
+
+/**
+ * Fetch, decode and downsample in the worker
+ */
+function generateInWorker(
+  worker: Worker,
+  audioUrl: string,
+  samples: number,
+  signal?: AbortSignal
+): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    const id = nextJobId++;
+
+    const handleAbort = () => {
+      pendingJobs.delete(id);
+      const cancel: WaveformWorkerRequest = { type: 'cancel', id };
+      worker.postMessage(cancel);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    pendingJobs.set(id, {
+      resolve: (data) => {
+        signal?.removeEventListener('abort', handleAbort);
+        resolve(data);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', handleAbort);
+        reject(error);
+      },
+    });
+
+    const request: WaveformWorkerRequest = { type: 'generate', id, audioUrl, samples };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Fetch, decode and downsample on the page (no worker, or the worker's
+ * decoder couldn't handle the file)
+ */
+async function generateOnPage(audioUrl: string, samples: number, signal?: AbortSignal): Promise<number[]> {
+  const response = await fetch(audioUrl, { signal });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const arrayBuffer = await response.arrayBuffer();
+
+  // Decode audio data (can't be interrupted, so check for cancellation after)
+  const audioBuffer = await getDecodeContext().decodeAudioData(arrayBuffer);
+  throwIfAborted(signal);
+
+  return computePeaks(audioBuffer.getChannelData(0), samples);
+}
+
 /**
  * Generate waveform data from audio file
  * 
+ * Results are cached in IndexedDB (utils/waveformCache.ts). Fetching,
+ * decoding and the per-bar math run in a Web Worker; the page only decodes
+ * itself when the worker can't.
+ * 
  * @param audioUrl - URL to audio file
  * @param samples - Number of waveform bars (default 100)
+ * @param signal - Aborts the download and skips the remaining work
  * @returns Promise<number[]> - Array of normalized amplitudes (0-1)
+ * @throws AbortError (DOMException) when cancelled through `signal`
  */
 export async function generateWaveform(
   audioUrl: string,
-  samples: number = 100
+  samples: number = 100,
+  signal?: AbortSignal
 ): Promise<number[]> {
+  const cached = await getCachedWaveform(audioUrl, samples);
+  throwIfAborted(signal);
+  if (cached) return cached;
+
   try {
-    // Fetch audio file
-    const response = await fetch(audioUrl);
-    const arrayBuffer = await response.arrayBuffer();
-
-    // Create audio context
-    const audioContext = new (window.AudioContext || (window as typeof window & { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
-    
-    // Decode audio data
-    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-    
-    // Get raw audio data (use first channel)
-    const rawData = audioBuffer.getChannelData(0);
-    const blockSize = Math.floor(rawData.length / samples);
-    const waveformData: number[] = [];
-
-    // Downsample to desired number of samples
-    for (let i = 0; i < samples; i++) {
-      const start = i * blockSize;
-      let sum = 0;
-
-      // Get average amplitude for this block
-      for (let j = 0; j < blockSize; j++) {
-        sum += Math.abs(rawData[start + j]);
-      }
+    const worker = getWaveformWorker();
+    let waveformData: number[] | null = null;
 
-      const amplitude = sum / blockSize;
-      waveformData.push(amplitude);
+    if (worker) {
+      try {
+        waveformData = await generateInWorker(worker, audioUrl, samples, signal);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn('Waveform worker could not decode, retrying on the page:', error);
+      }
     }
 
-    // Normalize to 0-1 range
-    const max = Math.max(...waveformData);
-    const normalized = waveformData.map(val => val / max);
-
-    // Close audio context to free resources
-    audioContext.close();
+    if (!waveformData) {
+      waveformData = await generateOnPage(audioUrl, samples, signal);
+    }
 
-    return normalized;
+    setCachedWaveform(audioUrl, samples, waveformData);
+    return waveformData;
   } catch (error) {
+    if (isAbortError(error)) throw error;
+
     console.error('Error generating waveform:', error);
     // Return flat line on error
     return new Array(samples).fill(0.5);
@@ -70,4 +188,4 @@ export function generateSampleWaveform(samples: number = 100): number[] {
   }
   
   return waveform;
-}
\ No newline at end of file
+}
@@ -1,9 +1,9 @@
-import type { LyricLine } from '@/types';
+import type { LyricLine, LyricWord } from '@/types';
 
 /**
  * LRC Metadata (optional tags at start of file)
  */
-interface LRCMetadata {
+export interface LRCMetadata {
   artist?: string;  // [ar:Artist Name]
   title?: string;   // [ti:Song Title]
   album?: string;   // [al:Album Name]
@@ -21,6 +21,61 @@ export interface ParsedLRC {
   lines: LyricLine[];
 }
 
+/**
+ * Convert timestamp parts to seconds
+ * Fractions are read as hundredths/thousandths: "5" → 0.5s, "75" → 0.75s
+ */
+function toSeconds(minutes: string, seconds: string, fraction: string): number {
+  // Normalize milliseconds to 3 digits by padding with zeros
+  // This ensures "75" is interpreted as 750ms (0.75s), not 75ms (0.075s)
+  const milliseconds = parseInt(fraction.padEnd(3, '0'), 10);
+  return parseInt(minutes, 10) * 60 + parseInt(seconds, 10) + milliseconds / 1000;
+}
+
+/**
+ * Split Enhanced LRC word tags out of a line's text
+ * 
+ * Example: "<00:12.00>First <00:12.40>line<00:13.10>"
+ * A tag followed by nothing (or only spaces) marks where the previous word ends.
+ * 
+ * @param text - Line text without the [mm:ss.xx] line timestamp
+ * @param lineTime - Line start (used for text before the first tag)
+ * @returns Plain text, plus word timings when the line has tags
+ */
+function parseWordTags(text: string, lineTime: number): { text: string; words?: LyricWord[] } {
+  const tags = [...text.matchAll(/<(\d{2,}):(\d{2})\.(\d{1,3})>/g)];
+  if (tags.length === 0) return { text };
+
+  const words: LyricWord[] = [];
+  let segmentTime = lineTime;
+  let segmentStart = 0;
+
+  const addSegment = (segment: string) => {
+    if (segment.trim()) {
+      words.push({ time: segmentTime, text: segment });
+    } else if (words.length > 0) {
+      words[words.length - 1].end ??= segmentTime;
+    }
+  };
+
+  for (const tag of tags) {
+    addSegment(text.slice(segmentStart, tag.index));
+    segmentTime = toSeconds(tag[1], tag[2], tag[3]);
+    segmentStart = (tag.index ?? 0) + tag[0].length;
+  }
+  addSegment(text.slice(segmentStart));
+
+  if (words.length === 0) return { text: '' };
+
+  words[0].text = words[0].text.trimStart();
+  words[words.length - 1].text = words[words.length - 1].text.trimEnd();
+
+  return {
+    text: words.map((word) => word.text).join('').replace(/\s+/g, ' ').trim(),
+    words,
+  };
+}
+
 /**
  * Parse LRC file content into structured data
  * 
@@ -31,6 +86,13 @@ export interface ParsedLRC {
  * [00:12.00]First line
  * [00:15.50]Second line
  * 
+ * Enhanced LRC word timings are also read:
+ * [00:12.00]<00:12.00>First <00:12.40>line<00:13.10>
+ * 
+ * A timestamp with no text marks where the line above it ends:
+ * [00:15.50]Last line of the verse
+ * [00:18.20]
+ * 
  * @param lrcContent - Raw LRC file content as string
  * @returns Parsed metadata and lyric lines
  */
@@ -49,6 +111,7 @@ export function parseLRC(lrcContent: string): ParsedLRC {
 
   let matchedLines = 0;
   let skippedLines = 0;
+  const lineEnds: number[] = [];
 
   for (const rawLine of rawLines) {
     const trimmed = rawLine.trim();
@@ -57,9 +120,14 @@ export function parseLRC(lrcContent: string): ParsedLRC {
       continue;
     }
     
-    // Skip lines that are only timestamps with no text (malformed LRC)
-    // Example: "[00:10.5]" with no lyrics after it
-    if (/^\[[\d:.]+\]$/.test(trimmed)) continue;
+    // Timestamp with no lyrics after it: the line above ends here
+    // Example: "[00:10.5]"
+    const endMatch = trimmed.match(/^\[(\d{2,}):(\d{2})\.(\d{1,3})\]$/);
+    if (endMatch) {
+      lineEnds.push(toSeconds(endMatch[1], endMatch[2], endMatch[3]));
+      continue;
+    }
+    if (/^\[[\d:.]+\]$/.test(trimmed)) continue; // malformed timestamp
 
     // Check if line contains timestamp [MM:SS.SS]
     // Regular expression for LRC timestamps: [mm:ss.x], [mm:ss.xx], or [mm:ss.xxx]
@@ -105,32 +173,31 @@ export function parseLRC(lrcContent: string): ParsedLRC {
     // Extract all timestamps (some lines have multiple)
     while ((match = timestampRegex.exec(trimmed)) !== null) {
       const [fullMatch, minutes, seconds, millisecondsRaw] = match;
-      
-      // Normalize milliseconds to 3 digits by padding with zeros
-      // Examples: "5" → "500", "75" → "750", "750" → "750"
-      // This ensures "75" is interpreted as 750ms (0.75s), not 75ms (0.075s)
-      let msString = millisecondsRaw;
-      while (msString.length < 3) {
-        msString += '0';
-      }
-      const milliseconds = parseInt(msString, 10);
-      
-      const time = 
-        parseInt(minutes) * 60 + 
-        parseInt(seconds) + 
-        milliseconds / 1000;
-      
-      timestamps.push(time);
+      timestamps.push(toSeconds(minutes, seconds, millisecondsRaw));
       
       // Remove timestamp from text
       text = text.replace(fullMatch, '').trim();
     }
 
+    if (timestamps.length === 0) continue;
+
+    // Enhanced LRC: word timings are absolute, so repeats of the line
+    // (extra timestamps) get them shifted along
+    const { text: lineText, words } = parseWordTags(text, timestamps[0]);
+
     // Add lyric line for each timestamp
     for (const timestamp of timestamps) {
+      const shift = timestamp - timestamps[0];
       lines.push({
         time: timestamp,
-        text: text || '', // Handle empty lines
+        text: lineText || '', // Handle empty lines
+        ...(words && {
+          words: words.map((word) => ({
+            ...word,
+            time: word.time + shift,
+            ...(word.end !== undefined && { end: word.end + shift }),
+          })),
+        }),
       });
       matchedLines++;
     }
@@ -139,11 +206,22 @@ export function parseLRC(lrcContent: string): ParsedLRC {
   // Sort lines by timestamp
   lines.sort((a, b) => a.time - b.time);
 
+  // End markers close the last line that started before them
+  for (const end of lineEnds) {
+    const line = lines[getCurrentLineIndex(lines, end - 0.001)];
+    if (line && line.end === undefined) line.end = end;
+  }
+
   // Apply offset if specified
   if (metadata.offset) {
     const offsetSeconds = metadata.offset / 1000;
     lines.forEach(line => {
       line.time += offsetSeconds;
+      if (line.end !== undefined) line.end += offsetSeconds;
+      line.words?.forEach(word => {
+        word.time += offsetSeconds;
+        if (word.end !== undefined) word.end += offsetSeconds;
+      });
     });
   }
 
@@ -194,45 +272,120 @@ export async function loadLRC(url: string): Promise<ParsedLRC> {
 
 /**
  * Find current lyric line based on playback time
+ * Binary search; a hint (the last result) makes the usual case of playback
+ * moving on to the next line a constant-time check.
  * 
- * @param lines - Array of lyric lines
+ * @param lines - Array of lyric lines (sorted by time)
  * @param currentTime - Current playback time in seconds
+ * @param hint - Index found last time, if any
  * @returns Index of current line, or -1 if none
  */
 export function getCurrentLineIndex(
   lines: LyricLine[],
-  currentTime: number
+  currentTime: number,
+  hint = -1
 ): number {
   if (lines.length === 0) return -1;
 
+  // Still on the hinted line, or just moved on to the next one
+  for (const index of [hint, hint + 1]) {
+    if (
+      index >= 0 &&
+      index < lines.length &&
+      lines[index].time <= currentTime &&
+      (index === lines.length - 1 || lines[index + 1].time > currentTime)
+    ) {
+      return index;
+    }
+  }
+
   // Find last line that started before or at currentTime
-  for (let i = lines.length - 1; i >= 0; i--) {
-    if (lines[i].time <= currentTime) {
-      return i;
+  let low = 0;
+  let high = lines.length - 1;
+  let found = -1; // Before first line
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (lines[mid].time <= currentTime) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
     }
   }
 
-  return -1; // Before first line
+  return found;
 }
 
 /**
  * Get upcoming line based on current time
  * 
- * @param lines - Array of lyric lines
+ * @param lines - Array of lyric lines (sorted by time)
  * @param currentTime - Current playback time in seconds
+ * @param hint - Current line index, if already known
  * @returns Index of next line, or -1 if none
  */
 export function getUpcomingLineIndex(
   lines: LyricLine[],
+  currentTime: number,
+  hint = -1
+): number {
+  const next = getCurrentLineIndex(lines, currentTime, hint) + 1;
+  return next < lines.length ? next : -1; // No upcoming lines
+}
+
+// A gap between lines at least this long is an instrumental break (seconds)
+export const INSTRUMENTAL_BREAK_THRESHOLD = 8;
+
+// How long a line is assumed to be sung when nothing says where it ends:
+// this much per word, but at least MIN_LINE_DURATION (seconds)
+const SECONDS_PER_WORD = 0.6;
+const MIN_LINE_DURATION = 2;
+
+/**
+ * When each line stops being sung
+ * 
+ * From the line's own end (SRT/WebVTT/TTML cues, LRC end markers) or its
+ * last word's end. Otherwise a line runs until the next one starts - unless
+ * that leaves an instrumental break's worth of time, in which case it ends
+ * after an estimate based on its length (as does the last line).
+ * 
+ * @param lines - Array of lyric lines (sorted by time)
+ * @returns End time in seconds for each line
+ */
+export function getLineEnds(lines: LyricLine[]): number[] {
+  return lines.map((line, index) => {
+    const explicitEnd = line.end ?? line.words?.[line.words.length - 1]?.end;
+    if (explicitEnd !== undefined) return explicitEnd;
+
+    const wordCount = line.text.split(/\s+/).filter(Boolean).length;
+    const estimatedEnd = line.time + Math.max(MIN_LINE_DURATION, wordCount * SECONDS_PER_WORD);
+    const next = lines[index + 1];
+    if (!next) return estimatedEnd;
+    return next.time - estimatedEnd >= INSTRUMENTAL_BREAK_THRESHOLD ? estimatedEnd : next.time;
+  });
+}
+
+/**
+ * How much of a word has been sung (Enhanced LRC)
+ * 
+ * @param words - Word timings of the line
+ * @param index - Word index
+ * @param lineEnd - When the line ends (next line's time), if known
+ * @param currentTime - Current playback time in seconds
+ * @returns Progress from 0 (not reached) to 1 (done)
+ */
+export function getWordProgress(
+  words: LyricWord[],
+  index: number,
+  lineEnd: number | undefined,
   currentTime: number
 ): number {
-  for (let i = 0; i < lines.length; i++) {
-    if (lines[i].time > currentTime) {
-      return i;
-    }
-  }
+  const word = words[index];
+  const end = word.end ?? words[index + 1]?.time ?? lineEnd ?? word.time + 1;
 
-  return -1; // No upcoming lines
+  if (currentTime <= word.time) return 0;
+  if (currentTime >= end || end <= word.time) return 1;
+  return (currentTime - word.time) / (end - word.time);
 }
 
 /**
@@ -259,4 +412,41 @@ export function hasTimestamps(lines: LyricLine[]): boolean {
   // Check if at least 50% of lines have non-zero timestamps
   const nonZeroCount = lines.filter(line => line.time > 0).length;
   return nonZeroCount / lines.length >= 0.5;
-}
\ No newline at end of file
+}
+// A translated line further than this from every original line is dropped (seconds)
+const TRANSLATION_TOLERANCE = 1;
+
+/**
+ * Pair translated lines with the original lines they translate
+ * Line-for-line translations pair up by position; otherwise each translated
+ * line goes to the original line starting nearest to it.
+ * 
+ * @param lines - Original lyric lines (sorted by time)
+ * @param translation - Translated lyric lines (sorted by time)
+ * @returns Translation text for each original line (undefined if none)
+ */
+export function alignTranslation(
+  lines: LyricLine[],
+  translation: LyricLine[]
+): (string | undefined)[] {
+  if (translation.length === lines.length) {
+    return translation.map((line) => line.text);
+  }
+
+  const aligned: (string | undefined)[] = Array.from({ length: lines.length }, () => undefined);
+  if (lines.length === 0) return aligned;
+
+  let index = 0;
+  translation.forEach((line) => {
+    while (
+      index + 1 < lines.length &&
+      Math.abs(lines[index + 1].time - line.time) <= Math.abs(lines[index].time - line.time)
+    ) {
+      index++;
+    }
+    if (Math.abs(lines[index].time - line.time) > TRANSLATION_TOLERANCE) return;
+    aligned[index] = aligned[index] ? `${aligned[index]} ${line.text}` : line.text;
+  });
+
+  return aligned;
+}
@@ -0,0 +1,102 @@
+import type { LyricLine } from '@/types';
+import type { LRCMetadata } from './lrcParser';
+
+/**
+ * LRC Writer
+ *
+ * Turns lyric lines back into LRC text (the inverse of parseLRC).
+ * Lines keep the times given - an `offset` tag is written as-is and applied
+ * by the parser when the file is loaded.
+ */
+
+// Tag order used when writing metadata
+const METADATA_TAGS: [keyof LRCMetadata, string][] = [
+  ['artist', 'ar'],
+  ['title', 'ti'],
+  ['album', 'al'],
+  ['author', 'au'],
+  ['length', 'length'],
+  ['by', 'by'],
+  ['offset', 'offset'],
+];
+
+/**
+ * Format seconds as an LRC time (mm:ss.xx, or mm:ss.xxx when the time has
+ * millisecond precision - so files written with milliseconds round-trip)
+ * 
+ * @param seconds - Time in seconds
+ * @param fractionDigits - Force hundredths (2) or thousandths (3)
+ * @returns Time without brackets, e.g. "01:23.45"
+ * 
+ * @example
+ * formatLRCTime(83.45) // "01:23.45"
+ * formatLRCTime(83.456) // "01:23.456"
+ * formatLRCTime(83.456, 2) // "01:23.46"
+ */
+export function formatLRCTime(seconds: number, fractionDigits?: 2 | 3): string {
+  const digits = fractionDigits ?? (Math.round(seconds * 1000) % 10 === 0 ? 2 : 3);
+  const scale = 10 ** digits;
+
+  // Round on whole units so 59.999 becomes 01:00.00, not 00:60.00
+  const units = Math.max(0, Math.round(seconds * scale));
+  const mins = Math.floor(units / (60 * scale));
+  const secs = Math.floor((units % (60 * scale)) / scale);
+  const fraction = units % scale;
+
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${fraction.toString().padStart(digits, '0')}`;
+}
+
+/**
+ * Build LRC file content
+ * 
+ * Lines with word timings are written as Enhanced LRC (`<mm:ss.xx>` tags).
+ * A line that ends before the next one starts is followed by an end marker
+ * (a timestamp with no text).
+ * 
+ * @param lines - Lyric lines (sorted by time on output)
+ * @param metadata - Optional [ar:]/[ti:]/[al:]/[offset:]… tags
+ * @returns LRC text ending with a newline
+ */
+export function buildLRC(lines: LyricLine[], metadata: LRCMetadata = {}): string {
+  const output: string[] = [];
+
+  for (const [key, tag] of METADATA_TAGS) {
+    const value = metadata[key];
+    if (value === undefined || value === '') continue;
+    if (key === 'offset') {
+      if (value === 0) continue;
+      output.push(`[offset:${(value as number) > 0 ? '+' : ''}${value}]`);
+    } else {
+      output.push(`[${tag}:${value}]`);
+    }
+  }
+
+  if (output.length > 0) output.push('');
+
+  const sorted = [...lines].sort((a, b) => a.time - b.time);
+  sorted.forEach((line, index) => {
+    const words = line.words;
+    const text = words && words.length > 0
+      ? words
+          .map((word, index) => {
+            const next = words[index + 1];
+            // Close the word when it ends before the next one starts
+            const endTag =
+              word.end !== undefined && (!next || next.time > word.end)
+                ? `<${formatLRCTime(word.end)}>`
+                : '';
+            return `<${formatLRCTime(word.time)}>${word.text}${endTag}`;
+          })
+          .join('')
+      : line.text;
+
+    output.push(`[${formatLRCTime(line.time)}]${text}`);
+
+    const next = sorted[index + 1];
+    if (line.end !== undefined && (!next || Math.round(next.time * 1000) > Math.round(line.end * 1000))) {
+      output.push(`[${formatLRCTime(line.end)}]`);
+    }
+  });
+
+  return output.join('\n') + '\n';
+}
@@ -0,0 +1,189 @@
+import type { Track, TrackId } from '@/types';
+import { getLyricsFile } from '@/data/catalog';
+import { loadLRC } from './lrcParser';
+
+/**
+ * Lyric Search
+ *
+ * Full-text search over every track's lyrics ("which song has that line").
+ * Matching is forgiving: word order doesn't matter, words may be cut short,
+ * apostrophes and case are ignored, and small typos still match.
+ */
+
+/**
+ * One lyric line in the search index
+ */
+export interface LyricSearchEntry {
+  trackId: TrackId;
+  line: number; // 1-based, same numbering as deep links (?line=)
+  time: number; // seconds
+  text: string;
+  words: { value: string; start: number; end: number }[]; // normalized words and their span in text
+}
+
+export interface LyricSearchResult {
+  entry: LyricSearchEntry;
+  score: number;
+  highlights: [number, number][]; // [start, end) character ranges in entry.text
+}
+
+// Word characters (letters and digits in any script, apostrophes inside words)
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:'[\p{L}\p{N}]+)*/gu;
+
+const normalizeWord = (word: string): string => word.toLowerCase().replace(/'/g, '');
+
+/**
+ * Split text into normalized words with their positions
+ */
+function tokenize(text: string): LyricSearchEntry['words'] {
+  return Array.from(text.matchAll(WORD_PATTERN), (match) => ({
+    value: normalizeWord(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+/**
+ * Edit distance between two words, or Infinity once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return Infinity;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return Infinity;
+    previous = current;
+  }
+  return previous[b.length] <= max ? previous[b.length] : Infinity;
+}
+
+// Typos allowed for a query word of this length
+const allowedTypos = (length: number): number => (length >= 7 ? 2 : length >= 4 ? 1 : 0);
+
+/**
+ * How well a query word matches a lyric word (0 = no match)
+ */
+function scoreWord(term: string, word: string): number {
+  if (word === term) return 3;
+  if (word.startsWith(term)) return 2;
+  if (term.length >= 3 && word.includes(term)) return 1.5;
+
+  const maxTypos = allowedTypos(term.length);
+  if (maxTypos === 0) return 0;
+  // Compare against the word and its beginning (typo in a word cut short)
+  const distance = Math.min(
+    editDistance(term, word, maxTypos),
+    editDistance(term, word.slice(0, term.length), maxTypos) + 0.5
+  );
+  return isFinite(distance) ? 1 / (1 + distance) : 0;
+}
+
+/**
+ * Build the search index from every track with lyrics (original language)
+ * Tracks whose lyrics fail to load are left out.
+ *
+ * @param tracks - Tracks to index
+ * @returns Index entries in track order
+ */
+export async function buildLyricIndex(tracks: Track[]): Promise<LyricSearchEntry[]> {
+  const loaded = await Promise.all(
+    tracks.map(async (track) => {
+      const lyricsFile = getLyricsFile(track);
+      if (!lyricsFile) return [];
+      try {
+        const { lines } = await loadLRC(lyricsFile);
+        return lines.map((line, index) => ({
+          trackId: track.id,
+          line: index + 1,
+          time: line.time,
+          text: line.text,
+          words: tokenize(line.text),
+        }));
+      } catch {
+        return [];
+      }
+    })
+  );
+
+  return loaded.flat().filter((entry) => entry.words.length > 0);
+}
+
+/**
+ * Search the index
+ *
+ * Every query word must match a word of the line. Exact words rank above
+ * prefixes, prefixes above typos, and lines containing the query as a
+ * phrase rank first.
+ *
+ * @param index - Entries from buildLyricIndex
+ * @param query - Search text
+ * @param limit - Maximum number of results
+ * @returns Best matches first, with character ranges to highlight
+ *
+ * @example
+ * searchLyrics(index, 'limbic prision')[0].entry.text
+ * // "Everybody got sins inside, the limbic system a prison,"
+ */
+export function searchLyrics(index: LyricSearchEntry[], query: string, limit = 20): LyricSearchResult[] {
+  const terms = tokenize(query).map((word) => word.value);
+  if (terms.length === 0) return [];
+
+  const phrase = terms.join(' ');
+  const results: LyricSearchResult[] = [];
+
+  for (const entry of index) {
+    let score = 0;
+    const highlights: [number, number][] = [];
+
+    for (const term of terms) {
+      let best = 0;
+      let bestWord: LyricSearchEntry['words'][number] | null = null;
+      for (const word of entry.words) {
+        const wordScore = scoreWord(term, word.value);
+        if (wordScore > best) {
+          best = wordScore;
+          bestWord = word;
+        }
+      }
+      if (!bestWord) {
+        score = 0;
+        break;
+      }
+      score += best;
+      highlights.push([bestWord.start, bestWord.end]);
+    }
+
+    if (score === 0) continue;
+    if (terms.length > 1 && entry.words.map((word) => word.value).join(' ').includes(phrase)) {
+      score += terms.length * 2;
+    }
+
+    results.push({ entry, score, highlights: mergeRanges(highlights) });
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Sort and merge overlapping highlight ranges
+ */
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+  return merged;
+}
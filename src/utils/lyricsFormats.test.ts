@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { SHIPPED_LYRICS, silenceParserLogs } from '@/test/shippedLyrics';
+import type { LyricLine } from '@/types';
+import { detectLyricsFormat, formatLyrics, parseLyrics, type LyricsDocument, type LyricsFormat } from './lyricsFormats';
+
+const TIMED_FORMATS: LyricsFormat[] = ['srt', 'vtt', 'ttml'];
+
+const LRC_TIMESTAMP = /\[\d{2,}:\d{2}\.\d{1,3}\]/g;
+
+// Every format stores milliseconds; parsers may land a float step away from each other
+const ms = (seconds: number) => Math.round(seconds * 1000);
+const optionalMs = (seconds?: number) => (seconds === undefined ? undefined : ms(seconds));
+
+const inMilliseconds = (document: LyricsDocument): LyricsDocument => ({
+  ...document,
+  lines: document.lines.map((line) => ({
+    ...line,
+    time: ms(line.time),
+    end: optionalMs(line.end),
+    words: line.words?.map((word) => ({ ...word, time: ms(word.time), end: optionalMs(word.end) })),
+  })),
+});
+
+/**
+ * Give every word of every line a start time, spread evenly until the next line
+ * (the shipped files only have line timings). One-word lines stay as they
+ * are: a single word at the start of a WebVTT cue is just the cue's text.
+ */
+function withWordTimings(document: LyricsDocument): LyricsDocument {
+  const lines = document.lines.map((line, index): LyricLine => {
+    const texts = line.text.split(' ');
+    if (texts.length < 2) return line;
+    const next = document.lines[index + 1]?.time ?? line.time + texts.length;
+    const step = (next - line.time) / (texts.length + 1);
+    const toMs = (seconds: number) => ms(seconds) / 1000;
+
+    return {
+      ...line,
+      words: texts.map((text, wordIndex) => ({
+        time: toMs(line.time + wordIndex * step),
+        text: wordIndex < texts.length - 1 ? `${text} ` : text,
+        ...(wordIndex === texts.length - 1 && { end: toMs(line.time + texts.length * step) }),
+      })),
+    };
+  });
+  return { ...document, lines };
+}
+
+const startsAndText = (document: LyricsDocument) => document.lines.map(({ time, text }) => ({ time: ms(time), text }));
+
+const wordStarts = (document: LyricsDocument) =>
+  document.lines.map((line) => line.words?.map(({ time, text }) => ({ time: ms(time), text: text.trim() })));
+
+silenceParserLogs();
+
+it('finds the shipped lyrics', () => {
+  expect(SHIPPED_LYRICS.length).toBeGreaterThan(0);
+});
+
+describe.each(SHIPPED_LYRICS)('$name', ({ name, content }) => {
+  const document = () => parseLyrics(content, 'lrc');
+
+  it('is detected as LRC', () => {
+    expect(detectLyricsFormat(content, name)).toBe('lrc');
+    expect(detectLyricsFormat(content)).toBe('lrc');
+  });
+
+  it('round-trips through LRC without losing anything', () => {
+    const lrc = formatLyrics(document(), 'lrc');
+
+    expect(parseLyrics(lrc, 'lrc')).toEqual(document());
+    // Timestamps are written at the precision of the source
+    expect(lrc.match(LRC_TIMESTAMP)?.sort()).toEqual(content.match(LRC_TIMESTAMP)?.sort());
+  });
+
+  it('round-trips through Enhanced LRC with word timings', () => {
+    const timed = withWordTimings(document());
+    const elrc = formatLyrics(timed, 'enhanced-lrc');
+
+    expect(detectLyricsFormat(elrc)).toBe('enhanced-lrc');
+    expect(inMilliseconds(parseLyrics(elrc, 'enhanced-lrc'))).toEqual(inMilliseconds(timed));
+  });
+
+  it.each(TIMED_FORMATS)('round-trips through %s', (format) => {
+    const output = formatLyrics(document(), format);
+    const parsed = parseLyrics(output, format);
+
+    expect(detectLyricsFormat(output)).toBe(format);
+    expect(startsAndText(parsed)).toEqual(startsAndText(document()));
+    // Every line now has an explicit end, so a second pass is identical
+    expect(formatLyrics(parsed, format)).toBe(output);
+  });
+
+  it.each(['vtt', 'ttml'] as LyricsFormat[])('keeps word timings through %s', (format) => {
+    const timed = withWordTimings(document());
+    const parsed = parseLyrics(formatLyrics(timed, format), format);
+
+    expect(wordStarts(parsed)).toEqual(wordStarts(timed));
+  });
+
+  it('round-trips through plain text', () => {
+    const text = formatLyrics(document(), 'text');
+    const parsed = parseLyrics(text, 'text');
+
+    expect(parsed.lines.map((line) => line.text)).toEqual(document().lines.map((line) => line.text));
+    expect(formatLyrics(parsed, 'text')).toBe(text);
+  });
+});
+
+describe('LRC metadata', () => {
+  it('keeps tags and applies the offset to the times', () => {
+    const document = parseLyrics('[ar:PRIMEAPE]\n[ti:VICE]\n[offset:+500]\n[00:10.00]First\n[00:12.345]Second\n', 'lrc');
+
+    expect(document.metadata).toEqual({ artist: 'PRIMEAPE', title: 'VICE' });
+    expect(document.lines.map((line) => ms(line.time))).toEqual([10500, 12845]);
+    expect(formatLyrics(document, 'lrc')).toBe('[ar:PRIMEAPE]\n[ti:VICE]\n\n[00:10.50]First\n[00:12.845]Second\n');
+  });
+});
@@ -0,0 +1,597 @@
+import type { LyricLine, LyricWord } from '@/types';
+import { parseLRC, type ParsedLRC } from './lrcParser';
+import { buildLRC } from './lrcWriter';
+
+/**
+ * Lyrics Formats
+ *
+ * Converts lyrics between LRC, Enhanced LRC, SRT, WebVTT, TTML and plain
+ * text through one model (LyricsDocument): lines sorted by start time, with
+ * optional end times and word timings.
+ *
+ * Times in a document are absolute - an LRC `[offset:]` is applied on parse
+ * and dropped from the metadata. Only LRC keeps every metadata tag; TTML
+ * keeps the title. Plain text has no timing: its lines parse at 0s.
+ *
+ * LRC gives a line's end with an end marker (a timestamp with no text);
+ * lines without one end when the next line starts.
+ */
+
+export type LyricsFormat = 'lrc' | 'enhanced-lrc' | 'srt' | 'vtt' | 'ttml' | 'text';
+
+/**
+ * Lyrics in the intermediate model (same shape as parseLRC's result)
+ */
+export type LyricsDocument = ParsedLRC;
+
+export const LYRICS_FORMATS: Record<LyricsFormat, { label: string; extension: string; mimeType: string }> = {
+  lrc: { label: 'LRC', extension: 'lrc', mimeType: 'text/plain' },
+  'enhanced-lrc': { label: 'Enhanced LRC', extension: 'lrc', mimeType: 'text/plain' },
+  srt: { label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt' },
+  ttml: { label: 'TTML', extension: 'ttml', mimeType: 'application/ttml+xml' },
+  text: { label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+};
+
+// How long the last line lasts when nothing says where it ends (seconds)
+const LAST_LINE_DURATION = 5;
+
+const TTML_NAMESPACE = 'http://www.w3.org/ns/ttml';
+const TTML_METADATA_NAMESPACE = 'http://www.w3.org/ns/ttml#metadata';
+// Frame rate assumed for TTML hh:mm:ss:ff times
+const TTML_FRAME_RATE = 30;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const normalizeNewlines = (content: string): string => content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+/**
+ * Format seconds as hh:mm:ss + separator + mmm (SRT uses ",", WebVTT ".")
+ */
+function formatClockTime(seconds: number, separator: ',' | '.'): string {
+  const milliseconds = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(milliseconds / 3600000);
+  const mins = Math.floor((milliseconds % 3600000) / 60000);
+  const secs = Math.floor((milliseconds % 60000) / 1000);
+  const ms = milliseconds % 1000;
+
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs
+    .toString()
+    .padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
+}
+
+/**
+ * Parse (hh:)mm:ss[,.]fff into seconds
+ */
+function parseClockTime(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[,.](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, hours = '0', minutes, seconds, fraction = '0'] = match;
+  return (
+    parseInt(hours, 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    parseInt(fraction.padEnd(3, '0'), 10) / 1000
+  );
+}
+
+/**
+ * When each line ends: its own end, its last word's end, the next line's
+ * start, or LAST_LINE_DURATION after it starts
+ */
+function getLineEnd(lines: LyricLine[], index: number): number {
+  const line = lines[index];
+  const next = lines[index + 1];
+  const lastWordEnd = line.words?.[line.words.length - 1]?.end;
+  return line.end ?? lastWordEnd ?? next?.time ?? line.time + LAST_LINE_DURATION;
+}
+
+/**
+ * Lines that become subtitle cues (lines without text are skipped)
+ */
+function getCues(document: LyricsDocument): { line: LyricLine; end: number }[] {
+  return document.lines
+    .map((line, index) => ({ line, end: getLineEnd(document.lines, index) }))
+    .filter(({ line }) => line.text.trim() !== '');
+}
+
+/**
+ * Build a line from text split at word timestamps
+ * A segment that is only whitespace marks where the previous word ends
+ * (same convention as Enhanced LRC).
+ */
+function buildLine(time: number, segments: { time: number; text: string }[], end?: number): LyricLine {
+  const words: LyricWord[] = [];
+  for (const segment of segments) {
+    if (segment.text.trim()) {
+      words.push({ time: segment.time, text: segment.text });
+    } else if (words.length > 0) {
+      words[words.length - 1].end ??= segment.time;
+      words[words.length - 1].text += segment.text; // keep the space between words
+    }
+  }
+
+  const text = words.map((word) => word.text).join('').replace(/\s+/g, ' ').trim();
+  const line: LyricLine = { time, text };
+  if (end !== undefined) line.end = end;
+
+  // One untimed segment is just text
+  if (words.length > 1 || (words.length === 1 && (words[0].time !== time || words[0].end !== undefined))) {
+    words[0].text = words[0].text.trimStart();
+    words[words.length - 1].text = words[words.length - 1].text.trimEnd();
+    line.words = words;
+  }
+  return line;
+}
+
+const sortLines = (lines: LyricLine[]): LyricLine[] => [...lines].sort((a, b) => a.time - b.time);
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Work out a lyrics file's format from its name or content
+ *
+ * @param content - File content
+ * @param fileName - Optional file name (extension wins when it's known)
+ * @returns Detected format (plain text when nothing matches)
+ */
+export function detectLyricsFormat(content: string, fileName?: string): LyricsFormat {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  const text = normalizeNewlines(content).trimStart();
+  const isEnhanced = /<\d{2,}:\d{2}\.\d{1,3}>/.test(text);
+
+  switch (extension) {
+    case 'lrc':
+      return isEnhanced ? 'enhanced-lrc' : 'lrc';
+    case 'srt':
+      return 'srt';
+    case 'vtt':
+      return 'vtt';
+    case 'ttml':
+    case 'dfxp':
+    case 'xml':
+      return 'ttml';
+  }
+
+  if (/^WEBVTT\b/.test(text)) return 'vtt';
+  if (/^<(\?xml|tt\b)/.test(text)) return 'ttml';
+  if (/^\d+:\d{2}:\d{2},\d{1,3}\s*-->/m.test(text)) return 'srt';
+  if (/^\[\d{2,}:\d{2}\.\d{1,3}\]/m.test(text)) return isEnhanced ? 'enhanced-lrc' : 'lrc';
+  return 'text';
+}
+
+// ============================================================================
+// LRC
+// ============================================================================
+
+function parseLRCDocument(content: string): LyricsDocument {
+  // parseLRC already applied the offset to the times
+  const { metadata, lines } = parseLRC(content);
+  const withoutOffset = { ...metadata };
+  delete withoutOffset.offset;
+  return { metadata: withoutOffset, lines };
+}
+
+function formatLRCDocument(document: LyricsDocument, enhanced: boolean): string {
+  const lines = enhanced
+    ? document.lines
+    : document.lines.map((line) => ({ time: line.time, text: line.text, end: line.end }));
+  return buildLRC(lines, { ...document.metadata, offset: undefined });
+}
+
+// ============================================================================
+// SRT
+// ============================================================================
+
+/**
+ * Read SRT cues, in file order
+ *
+ * 1
+ * 00:00:12,000 --> 00:00:15,500
+ * First line of lyrics
+ */
+function readSRT(content: string): LyricLine[] {
+  const lines: LyricLine[] = [];
+
+  for (const block of normalizeNewlines(content).split(/\n\s*\n/)) {
+    const blockLines = block.trim().split('\n');
+    // The cue number is optional in practice
+    const timingIndex = blockLines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const [startValue, endValue = ''] = blockLines[timingIndex].split('-->');
+    const time = parseClockTime(startValue);
+    const end = parseClockTime(endValue.trim().split(/\s+/)[0] ?? '');
+    if (time === null) continue;
+
+    const text = blockLines
+      .slice(timingIndex + 1)
+      .join(' ')
+      .replace(/<[^>]+>|\{\\[^}]*\}/g, '') // <i>, <font …>, {\an8}
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (!text) continue;
+
+    lines.push({ time, text, ...(end !== null && { end }) });
+  }
+
+  return lines;
+}
+
+function formatSRT(document: LyricsDocument): string {
+  return getCues(document)
+    .map(({ line, end }, index) =>
+      [index + 1, `${formatClockTime(line.time, ',')} --> ${formatClockTime(end, ',')}`, line.text].join('\n')
+    )
+    .join('\n\n')
+    .concat('\n');
+}
+
+// ============================================================================
+// WEBVTT
+// ============================================================================
+
+const VTT_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  lrm: '',
+  rlm: '',
+};
+
+const unescapeVTT = (text: string): string =>
+  text.replace(/&(amp|lt|gt|quot|apos|nbsp|lrm|rlm);/g, (_match, name: string) => VTT_ENTITIES[name]);
+
+const escapeVTT = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Split cue text at karaoke timestamps: "First <00:00:12.400>line"
+ * Other tags (<v Singer>, <i>, <c.class>…) are dropped.
+ */
+function parseVTTCueText(text: string, start: number, end: number | undefined): LyricLine {
+  const segments: { time: number; text: string }[] = [];
+  let segmentTime = start;
+  let segmentText = '';
+
+  for (const part of text.split(/(<[^>]*>)/)) {
+    if (!part.startsWith('<')) {
+      segmentText += unescapeVTT(part);
+      continue;
+    }
+    const time = parseClockTime(part.slice(1, -1));
+    if (time === null) continue;
+    segments.push({ time: segmentTime, text: segmentText });
+    segmentTime = time;
+    segmentText = '';
+  }
+  segments.push({ time: segmentTime, text: segmentText });
+
+  return buildLine(start, segments, end);
+}
+
+/**
+ * Read WebVTT cues, in file order
+ *
+ * WEBVTT
+ *
+ * 00:00:12.000 --> 00:00:15.500
+ * First <00:00:12.400>line
+ */
+function readVTT(content: string): LyricLine[] {
+  const lines: LyricLine[] = [];
+  const blocks = normalizeNewlines(content).split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const blockLines = block.trim().split('\n');
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(blockLines[0])) continue;
+
+    // Optional cue identifier before the timing line
+    const timingIndex = blockLines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const timing = blockLines[timingIndex].match(/^\s*(\S+)\s+-->\s+(\S+)/);
+    const time = timing ? parseClockTime(timing[1]) : null;
+    const end = timing ? parseClockTime(timing[2]) : null;
+    if (time === null) continue;
+
+    const line = parseVTTCueText(blockLines.slice(timingIndex + 1).join(' '), time, end ?? undefined);
+    if (line.text) lines.push(line);
+  }
+
+  return lines;
+}
+
+function formatVTTCueText(line: LyricLine): string {
+  const words = line.words;
+  if (!words || words.length === 0) return escapeVTT(line.text);
+
+  return words
+    .map((word, index) => {
+      const next = words[index + 1];
+      // Cue start needs no timestamp
+      const startTag = index === 0 && word.time <= line.time ? '' : `<${formatClockTime(word.time, '.')}>`;
+      const endTag =
+        word.end !== undefined && next && next.time > word.end ? `<${formatClockTime(word.end, '.')}> ` : '';
+      return `${startTag}${escapeVTT(endTag ? word.text.trimEnd() : word.text)}${endTag}`;
+    })
+    .join('');
+}
+
+function formatVTT(document: LyricsDocument): string {
+  const cues = getCues(document).map(
+    ({ line, end }) =>
+      `${formatClockTime(line.time, '.')} --> ${formatClockTime(end, '.')}\n${formatVTTCueText(line)}`
+  );
+  return ['WEBVTT', ...cues].join('\n\n').concat('\n');
+}
+
+// ============================================================================
+// TTML
+// ============================================================================
+
+/**
+ * Parse a TTML time expression into seconds
+ * Clock times (hh:mm:ss.fff, hh:mm:ss:ff, and the mm:ss.fff / plain seconds
+ * many lyric providers write) and offsets (12.5s, 1200ms, 2m, 1h).
+ */
+function parseTTMLTime(value: string | null): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  const offset = trimmed.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f)$/);
+  if (offset) {
+    const amount = parseFloat(offset[1]);
+    const unit = offset[2];
+    if (unit === 'h') return amount * 3600;
+    if (unit === 'm') return amount * 60;
+    if (unit === 'ms') return amount / 1000;
+    if (unit === 'f') return amount / TTML_FRAME_RATE;
+    return amount;
+  }
+
+  const frames = trimmed.match(/^(\d+):(\d{2}):(\d{2}):(\d+)$/);
+  if (frames) {
+    const [, hours, minutes, seconds, frame] = frames;
+    return (
+      parseInt(hours, 10) * 3600 +
+      parseInt(minutes, 10) * 60 +
+      parseInt(seconds, 10) +
+      parseInt(frame, 10) / TTML_FRAME_RATE
+    );
+  }
+
+  const clock = trimmed.match(/^(?:(?:(\d+):)?(\d+):)?(\d+(?:\.\d+)?)$/);
+  if (clock) {
+    const [, hours = '0', minutes = '0', seconds] = clock;
+    return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseFloat(seconds);
+  }
+
+  return null;
+}
+
+/**
+ * Begin/end of a timed TTML element (end may be given as a duration)
+ */
+function getTTMLTiming(element: Element): { begin: number | null; end: number | null } {
+  const begin = parseTTMLTime(element.getAttribute('begin'));
+  const end = parseTTMLTime(element.getAttribute('end'));
+  const duration = parseTTMLTime(element.getAttribute('dur'));
+  return { begin, end: end ?? (begin !== null && duration !== null ? begin + duration : null) };
+}
+
+/**
+ * Read one <p>: timed <span>s become words
+ * Word times are expected to be absolute (as lyric providers write them);
+ * spans timed before their paragraph are read as relative to it, as the
+ * TTML spec has it.
+ */
+function readTTMLParagraph(paragraph: Element, begin: number, end: number | null): LyricLine {
+  const segments: { time: number; text: string }[] = [{ time: begin, text: '' }];
+  const addText = (text: string) => {
+    segments[segments.length - 1].text += text;
+  };
+
+  const walk = (node: Node) => {
+    node.childNodes.forEach((child) => {
+      if (child.nodeType === 3) {
+        addText(child.textContent ?? '');
+        return;
+      }
+      if (child.nodeType !== 1) return;
+
+      const element = child as Element;
+      if (element.localName === 'br') {
+        addText(' ');
+        return;
+      }
+
+      const timing = getTTMLTiming(element);
+      const hasChildElements = element.children.length > 0;
+      if (timing.begin === null || hasChildElements) {
+        walk(element);
+        return;
+      }
+
+      const shift = timing.begin < begin ? begin : 0;
+      segments.push({ time: timing.begin + shift, text: element.textContent ?? '' });
+      if (timing.end !== null) {
+        // Whitespace after the word marks where it ends
+        segments.push({ time: timing.end + shift, text: '' });
+      }
+    });
+  };
+  walk(paragraph);
+
+  return buildLine(begin, segments, end ?? undefined);
+}
+
+function parseTTML(content: string): LyricsDocument {
+  const xml = new DOMParser().parseFromString(content, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid TTML: not well-formed XML');
+  }
+
+  const lines: LyricLine[] = [];
+  for (const paragraph of Array.from(xml.getElementsByTagNameNS('*', 'p'))) {
+    const { begin, end } = getTTMLTiming(paragraph);
+    if (begin === null) continue;
+    const line = readTTMLParagraph(paragraph, begin, end);
+    if (line.text) lines.push(line);
+  }
+
+  const title = xml.getElementsByTagNameNS(TTML_METADATA_NAMESPACE, 'title')[0]?.textContent?.trim();
+  return { metadata: title ? { title } : {}, lines };
+}
+
+const escapeXML = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// TTML times are written as hh:mm:ss.fff
+const formatTTMLTime = (seconds: number): string => formatClockTime(seconds, '.');
+
+function formatTTML(document: LyricsDocument): string {
+  const paragraphs = getCues(document).map(({ line, end }) => {
+    const words = line.words;
+    const content =
+      words && words.length > 0
+        ? words
+            .map((word, index) => {
+              const wordEnd = word.end ?? words[index + 1]?.time ?? end;
+              const timing = `begin="${formatTTMLTime(word.time)}" end="${formatTTMLTime(wordEnd)}"`;
+              const span = `<span ${timing}>${escapeXML(word.text.trim())}</span>`;
+              return index < words.length - 1 && /\s$/.test(word.text) ? `${span} ` : span;
+            })
+            .join('')
+        : escapeXML(line.text);
+    return `      <p begin="${formatTTMLTime(line.time)}" end="${formatTTMLTime(end)}">${content}</p>`;
+  });
+
+  const title = document.metadata.title;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="${TTML_NAMESPACE}" xmlns:ttm="${TTML_METADATA_NAMESPACE}">`,
+    ...(title
+      ? ['  <head>', '    <metadata>', `      <ttm:title>${escapeXML(title)}</ttm:title>`, '    </metadata>', '  </head>']
+      : []),
+    '  <body>',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// PLAIN TEXT
+// ============================================================================
+
+function parseText(content: string): LyricsDocument {
+  const lines = normalizeNewlines(content)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((text) => ({ time: 0, text }));
+  return { metadata: {}, lines };
+}
+
+// Lines without text become blank lines between verses
+function formatText(document: LyricsDocument): string {
+  return document.lines
+    .map((line) => line.text.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .concat('\n');
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Read lyrics into the common model without sorting
+ * SRT, WebVTT and TTML cues stay in file order for the validator; LRC comes
+ * back sorted (lines may carry several timestamps).
+ */
+export function readLyrics(content: string, format: LyricsFormat): LyricsDocument {
+  switch (format) {
+    case 'lrc':
+    case 'enhanced-lrc':
+      return parseLRCDocument(content);
+    case 'srt':
+      return { metadata: {}, lines: readSRT(content) };
+    case 'vtt':
+      return { metadata: {}, lines: readVTT(content) };
+    case 'ttml':
+      return parseTTML(content);
+    case 'text':
+      return parseText(content);
+  }
+}
+
+/**
+ * Parse lyrics in any supported format
+ *
+ * @param content - File content
+ * @param format - Source format (detected from the content when omitted)
+ * @returns Document with lines sorted by time
+ * @throws If TTML content isn't well-formed XML
+ *
+ * @example
+ * parseLyrics(srtContent, 'srt').lines[0] // { time: 12, end: 15.5, text: 'First line of lyrics' }
+ */
+export function parseLyrics(content: string, format: LyricsFormat = detectLyricsFormat(content)): LyricsDocument {
+  const document = readLyrics(content, format);
+  return { ...document, lines: format === 'text' ? document.lines : sortLines(document.lines) };
+}
+
+/**
+ * Write a document in any supported format
+ *
+ * Plain LRC drops word timings; formats without word timing ignore them.
+ *
+ * @param document - Lyrics to write
+ * @param format - Target format
+ * @returns File content ending with a newline
+ */
+export function formatLyrics(document: LyricsDocument, format: LyricsFormat): string {
+  switch (format) {
+    case 'lrc':
+      return formatLRCDocument(document, false);
+    case 'enhanced-lrc':
+      return formatLRCDocument(document, true);
+    case 'srt':
+      return formatSRT(document);
+    case 'vtt':
+      return formatVTT(document);
+    case 'ttml':
+      return formatTTML(document);
+    case 'text':
+      return formatText(document);
+  }
+}
+
+/**
+ * Convert lyrics from one format to another
+ *
+ * @param content - Source file content
+ * @param to - Target format
+ * @param from - Source format (detected when omitted)
+ * @returns Converted file content
+ *
+ * @example
+ * convertLyrics(lrcContent, 'vtt') // "WEBVTT\n\n00:00:10.860 --> 00:00:13.320\n…"
+ */
+export function convertLyrics(content: string, to: LyricsFormat, from?: LyricsFormat): string {
+  return formatLyrics(parseLyrics(content, from), to);
+}
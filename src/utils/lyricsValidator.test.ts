@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { SHIPPED_LYRICS, silenceParserLogs } from '@/test/shippedLyrics';
+import { LYRICS_FORMATS, formatLyrics, parseLyrics, type LyricsFormat } from './lyricsFormats';
+import { validateLyrics } from './lyricsValidator';
+
+const FORMATS = Object.keys(LYRICS_FORMATS) as LyricsFormat[];
+
+silenceParserLogs();
+
+describe.each(SHIPPED_LYRICS)('$name', ({ content }) => {
+  it('has clean timings', () => {
+    expect(validateLyrics(content)).toEqual([]);
+  });
+
+  it.each(FORMATS)('stays clean converted to %s', (format) => {
+    const output = formatLyrics(parseLyrics(content, 'lrc'), format);
+    expect(validateLyrics(output, format)).toEqual([]);
+  });
+});
+
+describe('validateLyrics', () => {
+  it('reports LRC lines written out of order', () => {
+    const issues = validateLyrics('[00:12.00]Second\n[00:10.00]First\n');
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ type: 'out-of-order', time: 10, text: 'First' });
+  });
+
+  it('reports lines starting together', () => {
+    const issues = validateLyrics('[00:10.00]One\n[00:10.00]Two\n');
+    expect(issues.map((issue) => issue.type)).toEqual(['overlap']);
+  });
+
+  it('reports SRT cues that overlap or end before they start', () => {
+    const srt = [
+      '1\n00:00:10,000 --> 00:00:13,000\nFirst',
+      '2\n00:00:12,000 --> 00:00:15,000\nSecond',
+      '3\n00:00:20,000 --> 00:00:18,000\nThird',
+    ].join('\n\n');
+    const issues = validateLyrics(srt, 'srt');
+
+    expect(issues.map(({ type, text }) => ({ type, text }))).toEqual([
+      { type: 'overlap', text: 'First' },
+      { type: 'out-of-order', text: 'Third' },
+    ]);
+  });
+
+  it('reports WebVTT cues written out of order', () => {
+    const vtt = 'WEBVTT\n\n00:00:12.000 --> 00:00:14.000\nSecond\n\n00:00:10.000 --> 00:00:12.000\nFirst\n';
+    const issues = validateLyrics(vtt, 'vtt');
+
+    expect(issues.map(({ type, time }) => ({ type, time }))).toEqual([{ type: 'out-of-order', time: 10 }]);
+  });
+
+  it('reports word timings that run backwards or into the next line', () => {
+    const issues = validateLyrics('[00:10.00]<00:10.00>One <00:09.50>two\n[00:11.00]<00:11.00>Three <00:12.50>four\n[00:12.00]Five\n');
+
+    expect(issues.map(({ type, text }) => ({ type, text: text.trim() }))).toEqual([
+      { type: 'out-of-order', text: 'two' },
+      { type: 'overlap', text: 'four' },
+    ]);
+  });
+
+  it('has nothing to check in plain text', () => {
+    expect(validateLyrics('Second\nFirst\n', 'text')).toEqual([]);
+  });
+});
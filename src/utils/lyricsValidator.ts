@@ -0,0 +1,135 @@
+import type { LyricLine } from '@/types';
+import { detectLyricsFormat, readLyrics, type LyricsFormat } from './lyricsFormats';
+import { formatLRCTime } from './lrcWriter';
+
+/**
+ * Timing problem found in a lyrics file
+ */
+export interface LyricsIssue {
+  type: 'out-of-order' | 'overlap';
+  time: number; // seconds, where the problem is
+  text: string; // the line (or word) concerned
+  message: string;
+}
+
+const LRC_LINE_TIME = /^\s*\[(\d{2,}):(\d{2})\.(\d{1,3})\]/;
+
+const describe = (line: { time: number; text: string }): string =>
+  `${formatLRCTime(line.time)} "${line.text.trim() || '(empty)'}"`;
+
+/**
+ * First timestamp of every LRC line, in file order
+ * (parsed LRC is sorted, so the order has to come from the raw text)
+ */
+function readLRCOrder(content: string): { time: number; text: string }[] {
+  const lines: { time: number; text: string }[] = [];
+  for (const rawLine of content.replace(/\r/g, '').split('\n')) {
+    const match = rawLine.match(LRC_LINE_TIME);
+    if (!match) continue;
+    const [tag, minutes, seconds, fraction] = match;
+    lines.push({
+      time: parseInt(minutes, 10) * 60 + parseInt(seconds, 10) + parseInt(fraction.padEnd(3, '0'), 10) / 1000,
+      text: rawLine.slice(tag.length).replace(/<[^>]*>|\[[^\]]*\]/g, ''),
+    });
+  }
+  return lines;
+}
+
+/**
+ * Lines that start before the line written above them
+ */
+function checkOrder(lines: { time: number; text: string }[]): LyricsIssue[] {
+  const issues: LyricsIssue[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].time < lines[i - 1].time) {
+      issues.push({
+        type: 'out-of-order',
+        time: lines[i].time,
+        text: lines[i].text,
+        message: `${describe(lines[i])} comes after ${describe(lines[i - 1])} but starts earlier`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Lines and words that run into each other (lines sorted by time)
+ */
+function checkOverlaps(lines: LyricLine[]): LyricsIssue[] {
+  const issues: LyricsIssue[] = [];
+  const add = (type: LyricsIssue['type'], line: { time: number; text: string }, message: string) =>
+    issues.push({ type, time: line.time, text: line.text, message });
+
+  lines.forEach((line, index) => {
+    const next = lines[index + 1];
+
+    if (line.end !== undefined && line.end < line.time) {
+      add('out-of-order', line, `${describe(line)} ends (${formatLRCTime(line.end)}) before it starts`);
+    }
+    if (next && next.time === line.time) {
+      add('overlap', next, `${describe(next)} starts at the same time as ${describe(line)}`);
+    } else if (next && line.end !== undefined && line.end > next.time) {
+      add(
+        'overlap',
+        line,
+        `${describe(line)} is still showing (until ${formatLRCTime(line.end)}) when ${describe(next)} starts`
+      );
+    }
+
+    const words = line.words ?? [];
+    words.forEach((word, wordIndex) => {
+      const nextWord = words[wordIndex + 1];
+      const wordEnd = word.end ?? word.time;
+
+      if (wordIndex === 0 && word.time < line.time) {
+        add('out-of-order', word, `Word ${describe(word)} starts before its line ${describe(line)}`);
+      }
+      if (word.end !== undefined && word.end < word.time) {
+        add('out-of-order', word, `Word ${describe(word)} ends before it starts`);
+      }
+      if (nextWord && nextWord.time < word.time) {
+        add('out-of-order', nextWord, `Word ${describe(nextWord)} starts before the word before it`);
+      } else if (nextWord && wordEnd > nextWord.time) {
+        add('overlap', word, `Word ${describe(word)} is still sung when ${describe(nextWord)} starts`);
+      }
+      if (next && next.time !== line.time && wordEnd > next.time) {
+        add('overlap', word, `Word ${describe(word)} runs into the next line ${describe(next)}`);
+      }
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Validate lyric timings
+ *
+ * Reports lines written out of time order, lines (or words) that overlap the
+ * next one, and ranges that end before they start. Plain text has no timing
+ * to check.
+ *
+ * @param content - Lyrics file content
+ * @param format - Format (detected from the content when omitted)
+ * @returns Issues sorted by time (empty when the timings are clean)
+ *
+ * @example
+ * validateLyrics('[00:12.00]Second\n[00:10.00]First')
+ * // [{ type: 'out-of-order', time: 10, text: 'First', message: '00:10.00 "First" comes after …' }]
+ */
+export function validateLyrics(
+  content: string,
+  format: LyricsFormat = detectLyricsFormat(content)
+): LyricsIssue[] {
+  if (format === 'text') return [];
+
+  const document = readLyrics(content, format);
+  const isLRC = format === 'lrc' || format === 'enhanced-lrc';
+
+  const issues = [
+    ...checkOrder(isLRC ? readLRCOrder(content) : document.lines),
+    ...checkOverlaps([...document.lines].sort((a, b) => a.time - b.time)),
+  ];
+
+  return issues.sort((a, b) => a.time - b.time);
+}
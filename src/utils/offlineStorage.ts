@@ -0,0 +1,171 @@
+import type { Album } from '@/types';
+
+/**
+ * Offline Storage
+ *
+ * Page-side helpers for the service worker in public/sw.js: registration,
+ * saving a release's MP3s into the audio cache, storage usage and purge.
+ *
+ * Cache names must stay in sync with public/sw.js.
+ */
+
+const AUDIO_CACHE = 'primeape-audio-v1';
+const CONTENT_CACHE = 'primeape-content-v1';
+
+export interface StorageUsage {
+  usage: number; // bytes used by this origin (all storage)
+  quota: number; // bytes available to this origin
+  audioBytes: number; // bytes of saved music
+}
+
+/**
+ * Check whether this browser can save music for offline listening
+ */
+export const isOfflineSupported = (): boolean => {
+  return 'serviceWorker' in navigator && 'caches' in window;
+};
+
+/**
+ * Register the service worker (production builds only)
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.warn('Service worker registration failed:', error);
+    });
+  });
+}
+
+/**
+ * Every MP3 of a release (instrumentals, plus vocals where uploaded)
+ * @param album - Release
+ * @returns File paths
+ */
+export const getAlbumAudioFiles = (album: Album): string[] => {
+  const files = album.tracks.flatMap((track) =>
+    track.hasVocals ? [track.instrumentalFile, track.vocalFile] : [track.instrumentalFile]
+  );
+  return [...new Set(files)];
+};
+
+/**
+ * Count how many of a release's files are already saved
+ * @param album - Release
+ * @returns Number of saved files
+ */
+export async function getSavedFileCount(album: Album): Promise<number> {
+  if (!isOfflineSupported()) return 0;
+
+  const cache = await caches.open(AUDIO_CACHE);
+  const matches = await Promise.all(getAlbumAudioFiles(album).map((file) => cache.match(file)));
+  return matches.filter(Boolean).length;
+}
+
+/**
+ * Download a release's MP3s into the audio cache
+ * Files already saved are skipped, so an interrupted save can be resumed.
+ * @param album - Release to save
+ * @param onProgress - Called after each file with (done, total)
+ * @throws Error listing how many files failed
+ */
+export async function saveAlbumForOffline(
+  album: Album,
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  if (!isOfflineSupported()) {
+    throw new Error('Offline listening is not supported in this browser');
+  }
+
+  // Ask the browser not to evict saved music under storage pressure
+  if (navigator.storage?.persist) {
+    await navigator.storage.persist().catch(() => false);
+  }
+
+  const cache = await caches.open(AUDIO_CACHE);
+  const files = getAlbumAudioFiles(album);
+  let failed = 0;
+
+  // One at a time - these are large files
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    try {
+      if (!(await cache.match(file))) {
+        const response = await fetch(file);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        await cache.put(file, response);
+      }
+    } catch (error) {
+      console.warn(`Failed to save ${file} for offline:`, error);
+      failed++;
+    }
+    onProgress?.(i + 1, files.length);
+  }
+
+  if (failed > 0) {
+    throw new Error(`${failed} of ${files.length} files could not be saved`);
+  }
+}
+
+/**
+ * Remove a release's MP3s from the audio cache
+ * @param album - Release
+ */
+export async function removeAlbumFromOffline(album: Album): Promise<void> {
+  if (!isOfflineSupported()) return;
+
+  const cache = await caches.open(AUDIO_CACHE);
+  await Promise.all(getAlbumAudioFiles(album).map((file) => cache.delete(file)));
+}
+
+/**
+ * Measure storage used by saved music and by the site overall
+ * @returns Usage in bytes
+ */
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+  let audioBytes = 0;
+
+  if (isOfflineSupported()) {
+    const cache = await caches.open(AUDIO_CACHE);
+    const requests = await cache.keys();
+    for (const request of requests) {
+      const response = await cache.match(request);
+      const length = Number(response?.headers.get('Content-Length'));
+      audioBytes += length > 0 ? length : (await response?.blob())?.size ?? 0;
+    }
+  }
+
+  return {
+    usage: estimate.usage ?? 0,
+    quota: estimate.quota ?? 0,
+    audioBytes,
+  };
+}
+
+/**
+ * Delete all saved music, lyrics and artwork (the app shell stays cached)
+ */
+export async function purgeOfflineStorage(): Promise<void> {
+  if (!isOfflineSupported()) return;
+
+  await Promise.all([caches.delete(AUDIO_CACHE), caches.delete(CONTENT_CACHE)]);
+}
+
+/**
+ * Format a byte count for display
+ * @param bytes - Size in bytes
+ * @returns Human readable size (e.g. "84.2 MB")
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,69 @@
+import type { QueueItem, TrackId } from '@/types';
+
+/**
+ * Play Queue Helpers
+ *
+ * Pure operations on the listener's "Up Next" queue. Every function returns
+ * a new array so results can go straight into React state.
+ */
+
+let keyCounter = 0;
+
+/**
+ * Create a queue entry with a unique key
+ *
+ * @param trackId - Track to queue
+ * @returns New queue item
+ */
+export function createQueueItem(trackId: TrackId): QueueItem {
+  keyCounter += 1;
+  return {
+    key: `${trackId}:${Date.now().toString(36)}:${keyCounter}`,
+    trackId,
+  };
+}
+
+/**
+ * Insert a track at the front of the queue ("Play next")
+ */
+export function insertNext(queue: QueueItem[], trackId: TrackId): QueueItem[] {
+  return [createQueueItem(trackId), ...queue];
+}
+
+/**
+ * Append a track to the end of the queue ("Add to queue")
+ */
+export function appendToQueue(queue: QueueItem[], trackId: TrackId): QueueItem[] {
+  return [...queue, createQueueItem(trackId)];
+}
+
+/**
+ * Remove a single entry by key
+ */
+export function removeQueueItem(queue: QueueItem[], key: string): QueueItem[] {
+  return queue.filter((item) => item.key !== key);
+}
+
+/**
+ * Move an entry to a new position
+ *
+ * @param queue - Current queue
+ * @param fromIndex - Index of the entry to move
+ * @param toIndex - Destination index (clamped to the queue bounds)
+ * @returns Reordered queue (same array if nothing moved)
+ */
+export function moveQueueItem(
+  queue: QueueItem[],
+  fromIndex: number,
+  toIndex: number
+): QueueItem[] {
+  if (fromIndex < 0 || fromIndex >= queue.length) return queue;
+
+  const target = Math.max(0, Math.min(queue.length - 1, toIndex));
+  if (target === fromIndex) return queue;
+
+  const reordered = [...queue];
+  const [moved] = reordered.splice(fromIndex, 1);
+  reordered.splice(target, 0, moved);
+  return reordered;
+}
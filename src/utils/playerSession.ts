@@ -0,0 +1,110 @@
+import type { AudioVersion, PlayerSession, TrackId } from '@/types';
+import { getAlbumForTrack, getTrackById } from '@/data/catalog';
+
+/**
+ * Player Session Storage
+ *
+ * Saves where the listener left off (track, position, version, shuffle
+ * order) so a reload can pick up from the same spot.
+ *
+ * Stored as `{ schemaVersion, session }`. When the shape changes, bump
+ * SESSION_SCHEMA_VERSION and add a migration from the previous version;
+ * sessions from an unknown (newer) schema are discarded.
+ */
+
+const STORAGE_KEY = 'primeape_session';
+
+export const SESSION_SCHEMA_VERSION = 1;
+
+interface StoredSession {
+  schemaVersion: number;
+  session: Record<string, unknown>;
+}
+
+/**
+ * Upgrades from schema N to N + 1, keyed by N
+ */
+const MIGRATIONS: Record<number, (session: Record<string, unknown>) => Record<string, unknown>> = {};
+
+const isAudioVersion = (value: unknown): value is AudioVersion =>
+  value === 'vocal' || value === 'instrumental';
+
+const isKnownTrackId = (value: unknown): value is TrackId =>
+  typeof value === 'string' && !!getTrackById(value);
+
+/**
+ * Validate raw session fields against the current catalog
+ * Unknown extra fields are ignored; missing optional ones get defaults.
+ */
+const toPlayerSession = (raw: Record<string, unknown>): PlayerSession | null => {
+  if (!isKnownTrackId(raw.currentTrackId)) return null;
+
+  const trackId = raw.currentTrackId;
+  const currentTime = typeof raw.currentTime === 'number' && raw.currentTime > 0 ? raw.currentTime : 0;
+
+  // A shuffle order is only usable if it is a full permutation of the release
+  const siblings = getAlbumForTrack(trackId)?.tracks.map((track) => track.id) ?? [];
+  const shuffleOrder =
+    Array.isArray(raw.shuffleOrder) &&
+    raw.shuffleOrder.length === siblings.length &&
+    siblings.every((id) => (raw.shuffleOrder as unknown[]).includes(id))
+      ? (raw.shuffleOrder as TrackId[])
+      : [];
+
+  return {
+    currentTrackId: trackId,
+    currentTime,
+    audioVersion: isAudioVersion(raw.audioVersion) ? raw.audioVersion : 'vocal',
+    shuffleOrder,
+    contextAnchorId: isKnownTrackId(raw.contextAnchorId) ? raw.contextAnchorId : trackId,
+    savedAt: typeof raw.savedAt === 'number' ? raw.savedAt : 0,
+  };
+};
+
+/**
+ * Read the saved session, migrating older schemas
+ * @returns Session or null if nothing usable is stored
+ */
+export function loadSession(): PlayerSession | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return null;
+
+    const stored = JSON.parse(saved) as Partial<StoredSession>;
+    if (typeof stored.schemaVersion !== 'number' || !stored.session || typeof stored.session !== 'object') {
+      return null;
+    }
+
+    // Saved by a newer build - don't guess at its shape
+    if (stored.schemaVersion > SESSION_SCHEMA_VERSION) return null;
+
+    let session = stored.session;
+    for (let version = stored.schemaVersion; version < SESSION_SCHEMA_VERSION; version++) {
+      const migrate = MIGRATIONS[version];
+      if (!migrate) return null;
+      session = migrate(session);
+    }
+
+    return toPlayerSession(session);
+  } catch (e) {
+    console.warn('Failed to restore player session from localStorage:', e);
+    return null;
+  }
+}
+
+/**
+ * Save the current session
+ * @param session - Session to store
+ */
+export function saveSession(session: PlayerSession): void {
+  const stored: StoredSession = {
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    session: { ...session },
+  };
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (e) {
+    console.warn('Failed to save player session to localStorage:', e);
+  }
+}
@@ -0,0 +1,184 @@
+import type { AudioVersion, Track } from '@/types';
+import { getTrackByFile, getTrackFile } from '@/data/catalog';
+
+/**
+ * Stem Sync
+ *
+ * Keeps a companion <audio> element (the "stem") playing the other version
+ * of whatever its deck is playing - instrumental under a vocal deck and
+ * vice versa - locked to the deck's position. With both versions running
+ * in parallel, switching or blending them is just a gain change instead of
+ * a reload.
+ *
+ * The deck stays the master: the stem follows its source, play/pause,
+ * seeks, speed and volume, and small drift is corrected by nudging the
+ * stem's speed rather than seeking (which would click).
+ */
+
+export interface StemLink {
+  isReady: () => boolean; // stem is loaded and following the deck
+  dispose: () => void;
+}
+
+// Drift (seconds) below which the stem is left alone
+const DRIFT_TOLERANCE = 0.02;
+
+// Drift (seconds) above which the stem is re-seeked instead of nudged
+const MAX_NUDGE_DRIFT = 0.25;
+
+// How much faster/slower the stem runs while catching up
+const NUDGE_RATE = 0.03;
+
+/**
+ * Find the track and version an <audio> element has loaded
+ *
+ * @param element - Audio element
+ * @returns Track and version, or undefined if nothing from the catalog is loaded
+ */
+export function getLoadedVersion(
+  element: HTMLMediaElement
+): { track: Track; version: AudioVersion } | undefined {
+  const src = element.getAttribute('src');
+  return src ? getTrackByFile(src) : undefined;
+}
+
+/**
+ * Link a stem element to a deck
+ *
+ * Link before the deck loads its first file - the stem follows from the
+ * next load on.
+ *
+ * @param deck - Master <audio> element
+ * @param stem - Companion <audio> element (owned by the link from now on)
+ * @param onReadyChange - Called whenever the stem becomes usable or stops being so
+ * @returns Link with a readiness check and cleanup
+ */
+export function linkStem(
+  deck: HTMLAudioElement,
+  stem: HTMLAudioElement,
+  onReadyChange: () => void
+): StemLink {
+  let isReady = false;
+  let isLoading = false;
+
+  const setReady = (ready: boolean) => {
+    if (ready === isReady) return;
+    isReady = ready;
+    onReadyChange();
+  };
+
+  const align = () => {
+    if (stem.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      stem.currentTime = deck.currentTime;
+    }
+  };
+
+  const startStem = () => {
+    align();
+    stem.play().catch((err: DOMException) => {
+      // Interrupted by a pause or new file is fine; otherwise the deck plays on alone
+      if (err.name !== 'AbortError') setReady(false);
+    });
+  };
+
+  const mirrorVolume = () => {
+    stem.volume = deck.volume;
+    stem.muted = deck.muted;
+  };
+
+  const mirrorRate = () => {
+    stem.playbackRate = deck.playbackRate;
+    stem.preservesPitch = deck.preservesPitch;
+  };
+
+  // Deck started loading a new file: load the other version of that track
+  const handleLoadStart = () => {
+    setReady(false);
+
+    const loaded = getLoadedVersion(deck);
+    const otherFile = loaded?.track.hasVocals
+      ? getTrackFile(loaded.track, loaded.version === 'vocal' ? 'instrumental' : 'vocal')
+      : null;
+
+    if (!otherFile) {
+      isLoading = false;
+      if (stem.getAttribute('src')) {
+        stem.removeAttribute('src');
+        stem.load();
+      }
+      return;
+    }
+
+    // Buffer ahead so a switch never waits on the network
+    isLoading = true;
+    stem.preload = 'auto';
+    stem.src = otherFile;
+    stem.load();
+  };
+
+  // Ready once the stem knows its duration and can be seeked
+  const handleStemLoaded = () => {
+    if (!isLoading) return;
+    isLoading = false;
+    mirrorRate();
+    align();
+    setReady(true);
+    if (!deck.paused) startStem();
+  };
+
+  const handleStemError = () => {
+    isLoading = false;
+    setReady(false);
+  };
+
+  const handlePause = () => stem.pause();
+
+  // Drift correction
+  const handleTimeUpdate = () => {
+    if (!isReady || deck.paused || deck.seeking) return;
+    if (stem.paused) {
+      startStem();
+      return;
+    }
+
+    const drift = deck.currentTime - stem.currentTime;
+    if (Math.abs(drift) < DRIFT_TOLERANCE) {
+      stem.playbackRate = deck.playbackRate;
+    } else if (Math.abs(drift) <= MAX_NUDGE_DRIFT) {
+      stem.playbackRate = deck.playbackRate * (1 + Math.sign(drift) * NUDGE_RATE);
+    } else {
+      stem.playbackRate = deck.playbackRate;
+      align();
+    }
+  };
+
+  mirrorVolume();
+
+  deck.addEventListener('loadstart', handleLoadStart);
+  deck.addEventListener('play', startStem);
+  deck.addEventListener('pause', handlePause);
+  deck.addEventListener('ended', handlePause);
+  deck.addEventListener('seeking', align);
+  deck.addEventListener('ratechange', mirrorRate);
+  deck.addEventListener('volumechange', mirrorVolume);
+  deck.addEventListener('timeupdate', handleTimeUpdate);
+  stem.addEventListener('loadedmetadata', handleStemLoaded);
+  stem.addEventListener('error', handleStemError);
+
+  return {
+    isReady: () => isReady,
+    dispose: () => {
+      deck.removeEventListener('loadstart', handleLoadStart);
+      deck.removeEventListener('play', startStem);
+      deck.removeEventListener('pause', handlePause);
+      deck.removeEventListener('ended', handlePause);
+      deck.removeEventListener('seeking', align);
+      deck.removeEventListener('ratechange', mirrorRate);
+      deck.removeEventListener('volumechange', mirrorVolume);
+      deck.removeEventListener('timeupdate', handleTimeUpdate);
+      stem.removeEventListener('loadedmetadata', handleStemLoaded);
+      stem.removeEventListener('error', handleStemError);
+      stem.pause();
+    },
+  };
+}
@@ -7,42 +7,45 @@
  * Reference: https://schema.org/MusicAlbum
  */
 
-import type { Track } from '@/types';
+import type { Album } from '@/types';
 
 interface StructuredDataConfig {
-  albumName: string;
-  artistName: string;
+  album: Album; // release from the catalog (src/data/catalog.ts)
   releaseDate: string; // ISO 8601 format: YYYY-MM-DD
   genre: string;
   description: string;
-  albumArtworkUrl: string;
   websiteUrl: string;
-  tracks: Track[];
 }
 
+// schema.org production types for each catalog release type
+const ALBUM_RELEASE_TYPES: Record<Album['type'], string> = {
+  album: 'http://schema.org/AlbumRelease',
+  ep: 'http://schema.org/EPRelease',
+  single: 'http://schema.org/SingleRelease',
+};
+
 /**
  * Generate MusicAlbum structured data
  *
- * @param config - Album and track information
+ * @param config - Release and page information
  * @returns JSON-LD script content as string
  */
 export function generateMusicAlbumStructuredData(config: StructuredDataConfig): string {
   const {
-    albumName,
-    artistName,
+    album,
     releaseDate,
     genre,
     description,
-    albumArtworkUrl,
     websiteUrl,
-    tracks
   } = config;
+  const { title: albumName, artist: artistName, tracks } = album;
+  const albumArtworkUrl = new URL(album.artworkUrl, websiteUrl).toString();
 
   // Build track list with schema.org MusicRecording format
-  const trackList = tracks.map((track, index) => ({
+  const trackList = tracks.map((track) => ({
     "@type": "MusicRecording",
     "name": track.title,
-    "position": index + 1,
+    "position": track.trackNumber,
     "duration": formatDurationISO8601(track.duration),
     "byArtist": {
       "@type": "MusicGroup",
@@ -68,6 +71,7 @@ export function generateMusicAlbumStructuredData(config: StructuredDataConfig):
     "numTracks": tracks.length,
     "track": trackList,
     "albumProductionType": "http://schema.org/StudioAlbum",
+    "albumReleaseType": ALBUM_RELEASE_TYPES[album.type],
     "inLanguage": "en-US"
   };
 
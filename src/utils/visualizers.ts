@@ -0,0 +1,203 @@
+import type { VisualizerMode } from '@/types';
+
+/**
+ * Canvas renderers for the Equalizer visualizer modes
+ *
+ * Each renderer draws one frame from the analyser data. They only touch the
+ * canvas they are given, so the same code drives the artwork overlay and the
+ * fullscreen visualizer.
+ */
+
+export interface VisualizerFrame {
+  ctx: CanvasRenderingContext2D;
+  width: number; // CSS pixels
+  height: number; // CSS pixels
+  frequencyData: Uint8Array; // analyser.getByteFrequencyData
+  timeDomainData: Uint8Array; // analyser.getByteTimeDomainData
+  color: string; // hex color (alpha suffixes are appended)
+  innerRadius: number; // radius of the artwork the circular modes wrap around
+}
+
+export const VISUALIZER_MODES: { id: VisualizerMode; label: string }[] = [
+  { id: 'radial', label: 'Radial' },
+  { id: 'circular', label: 'Circular' },
+  { id: 'oscilloscope', label: 'Oscilloscope' },
+  { id: 'spectrogram', label: 'Spectrogram' },
+];
+
+/**
+ * Map a bar position (0-1, bass → highs) to an amplitude (0-1)
+ * Uses the lower half of the spectrum and lifts the quieter highs.
+ */
+const getBandAmplitude = (frequencyData: Uint8Array, position: number): number => {
+  const dataIndex = Math.floor(position * frequencyData.length * 0.5);
+  const amplitude = frequencyData[dataIndex] / 255;
+  const frequencyGain = 1.0 + (position * 2.5); // 1x at bass, 3.5x at highs
+  return Math.min(1.0, amplitude * frequencyGain);
+};
+
+/**
+ * Mirrored position around the circle: bass at the bottom, highs at the top
+ */
+const getMirroredPosition = (normalizedPosition: number): number => {
+  const half = normalizedPosition <= 0.5 ? normalizedPosition * 2 : (1.0 - normalizedPosition) * 2;
+  return Math.pow(half, 1.5); // Emphasize bass
+};
+
+/**
+ * Radial: bars reach inward from the edge of the artwork (the original view)
+ */
+export function drawRadialBars(frame: VisualizerFrame): void {
+  const { ctx, width, height, frequencyData, color } = frame;
+  ctx.clearRect(0, 0, width, height);
+
+  const barCount = 288;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  // Use full diagonal distance for corners to extend properly
+  const maxDimension = Math.sqrt(width * width + height * height) / 2;
+  const outerRadius = maxDimension * 0.98;
+  const maxBarLength = maxDimension * 0.32;
+
+  ctx.lineWidth = Math.max(2.5, (Math.PI * 2 * outerRadius) / barCount * 0.65);
+  ctx.lineCap = 'round';
+
+  for (let i = 0; i < barCount; i++) {
+    // Start at the bottom (90° in canvas Y-down coordinates)
+    const angle = Math.PI / 2 + (i / barCount) * Math.PI * 2;
+    const frequencyPosition = getMirroredPosition(i / barCount);
+    const amplitude = getBandAmplitude(frequencyData, frequencyPosition);
+
+    // Bass can disappear fully when silent, highs stay more visible
+    const minLength = maxBarLength * (0.15 + (frequencyPosition * 0.10));
+    const barLength = minLength + (amplitude * (maxBarLength - minLength));
+
+    const startX = centerX + Math.cos(angle) * outerRadius;
+    const startY = centerY + Math.sin(angle) * outerRadius;
+    const endX = centerX + Math.cos(angle) * (outerRadius - barLength);
+    const endY = centerY + Math.sin(angle) * (outerRadius - barLength);
+
+    const gradient = ctx.createLinearGradient(startX, startY, endX, endY);
+    gradient.addColorStop(0, color + '80'); // More transparent at outer edge
+    gradient.addColorStop(1, color); // Solid near the center
+
+    ctx.strokeStyle = gradient;
+    ctx.beginPath();
+    ctx.moveTo(startX, startY);
+    ctx.lineTo(endX, endY);
+    ctx.stroke();
+  }
+
+  // Subtle outer ring for visual frame
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, outerRadius, 0, Math.PI * 2);
+  ctx.strokeStyle = color + '20';
+  ctx.lineWidth = 1;
+  ctx.stroke();
+}
+
+/**
+ * Circular: spectrum radiating outward from a ring around the artwork
+ */
+export function drawCircularSpectrum(frame: VisualizerFrame): void {
+  const { ctx, width, height, frequencyData, color, innerRadius } = frame;
+  ctx.clearRect(0, 0, width, height);
+
+  const barCount = 180;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const maxBarLength = Math.max(0, Math.min(width, height) / 2 - innerRadius);
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = Math.max(2, (Math.PI * 2 * innerRadius) / barCount * 0.5);
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+
+  for (let i = 0; i < barCount; i++) {
+    const angle = Math.PI / 2 + (i / barCount) * Math.PI * 2;
+    const amplitude = getBandAmplitude(frequencyData, getMirroredPosition(i / barCount));
+    const barLength = 2 + amplitude * maxBarLength;
+
+    ctx.moveTo(centerX + Math.cos(angle) * innerRadius, centerY + Math.sin(angle) * innerRadius);
+    ctx.lineTo(
+      centerX + Math.cos(angle) * (innerRadius + barLength),
+      centerY + Math.sin(angle) * (innerRadius + barLength)
+    );
+  }
+
+  ctx.stroke();
+}
+
+/**
+ * Oscilloscope: the raw waveform from time-domain data
+ */
+export function drawOscilloscope(frame: VisualizerFrame): void {
+  const { ctx, width, height, timeDomainData, color } = frame;
+  ctx.clearRect(0, 0, width, height);
+
+  const centerY = height / 2;
+
+  // Center line
+  ctx.strokeStyle = color + '30';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(0, centerY);
+  ctx.lineTo(width, centerY);
+  ctx.stroke();
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+
+  const step = width / Math.max(1, timeDomainData.length - 1);
+  for (let i = 0; i < timeDomainData.length; i++) {
+    const sample = (timeDomainData[i] - 128) / 128; // -1 to 1
+    const x = i * step;
+    const y = centerY + sample * (height * 0.4);
+    if (i === 0) {
+      ctx.moveTo(x, y);
+    } else {
+      ctx.lineTo(x, y);
+    }
+  }
+
+  ctx.stroke();
+}
+
+/**
+ * Spectrogram: scrolls the existing image left and paints the newest
+ * spectrum as a column on the right (low frequencies at the bottom)
+ *
+ * Unlike the other modes this keeps what is already on the canvas.
+ */
+export function drawSpectrogramColumn(frame: VisualizerFrame, canvas: HTMLCanvasElement): void {
+  const { ctx, width, height, frequencyData, color } = frame;
+  const columnWidth = 2;
+
+  // Shift the history left (drawImage works in device pixels, so reset the transform)
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  const shift = columnWidth * (canvas.width / width);
+  ctx.globalCompositeOperation = 'copy';
+  ctx.drawImage(canvas, -shift, 0);
+  ctx.restore();
+
+  ctx.clearRect(width - columnWidth, 0, columnWidth, height);
+
+  const rows = Math.min(128, Math.floor(height));
+  const rowHeight = height / rows;
+  const usableBins = Math.floor(frequencyData.length * 0.75);
+
+  ctx.fillStyle = color;
+  for (let row = 0; row < rows; row++) {
+    // Log-ish frequency scale so bass gets more room
+    const position = Math.pow(row / rows, 2);
+    const amplitude = frequencyData[Math.floor(position * usableBins)] / 255;
+    if (amplitude <= 0.02) continue;
+
+    ctx.globalAlpha = amplitude;
+    ctx.fillRect(width - columnWidth, height - (row + 1) * rowHeight, columnWidth, rowHeight + 0.5);
+  }
+  ctx.globalAlpha = 1;
+}
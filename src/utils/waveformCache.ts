@@ -0,0 +1,89 @@
+/**
+ * Waveform Cache
+ *
+ * IndexedDB store for waveforms decoded in the browser, keyed by audio URL
+ * and bar count, so switching back to a track doesn't decode it again.
+ * Failures are ignored - the cache is only an optimization.
+ */
+
+const DB_NAME = 'primeape_waveforms';
+const DB_VERSION = 1;
+const STORE_NAME = 'waveforms';
+
+interface CachedWaveform {
+  key: string;
+  data: number[];
+  savedAt: number; // epoch ms
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getCacheKey = (audioUrl: string, samples: number): string => `${audioUrl}|${samples}`;
+
+/**
+ * Open (and create on first use) the cache database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      dbPromise = null; // allow a retry later
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Read a cached waveform
+ * @param audioUrl - Audio file URL
+ * @param samples - Number of bars
+ * @returns Normalized amplitudes, or null if not cached
+ */
+export async function getCachedWaveform(audioUrl: string, samples: number): Promise<number[] | null> {
+  if (typeof indexedDB === 'undefined') return null;
+
+  try {
+    const db = await openDatabase();
+    return await new Promise<number[] | null>((resolve, reject) => {
+      const request = db
+        .transaction(STORE_NAME, 'readonly')
+        .objectStore(STORE_NAME)
+        .get(getCacheKey(audioUrl, samples));
+      request.onsuccess = () => resolve((request.result as CachedWaveform | undefined)?.data ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.warn('Failed to read waveform cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Store a waveform
+ * @param audioUrl - Audio file URL
+ * @param samples - Number of bars
+ * @param data - Normalized amplitudes
+ */
+export async function setCachedWaveform(audioUrl: string, samples: number, data: number[]): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+
+  try {
+    const db = await openDatabase();
+    const entry: CachedWaveform = { key: getCacheKey(audioUrl, samples), data, savedAt: Date.now() };
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).put(entry);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.warn('Failed to save waveform cache:', error);
+  }
+}
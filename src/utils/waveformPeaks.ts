@@ -0,0 +1,116 @@
+/**
+ * Precomputed Waveform Peaks
+ *
+ * Reads the peaks JSON written at build time by scripts/waveformPeaks.ts:
+ *
+ *   /music/vocal/05-VICE-vocal.mp3 -> /waveforms/vocal/05-VICE-vocal.json
+ *
+ * Files hold `{ formatVersion, duration, peaks: { "100": [...], ... } }`.
+ * URL mapping and format must stay in sync with the build plugin.
+ */
+
+const PEAKS_FORMAT_VERSION = 1;
+
+/**
+ * Peaks JSON URL for an audio file
+ * @param audioUrl - MP3 path under /music
+ * @returns Peaks URL, or null for audio outside /music
+ */
+export const getWaveformPeaksUrl = (audioUrl: string): string | null => {
+  const match = /^\/music\/(.+)\.mp3$/i.exec(audioUrl);
+  return match ? `/waveforms/${match[1]}.json` : null;
+};
+
+/**
+ * Downsample decoded audio to bars: average amplitude per block, normalized to 0-1
+ * (same method as the build plugin)
+ * @param rawData - Samples of one channel
+ * @param samples - Number of bars
+ * @returns Normalized amplitudes
+ */
+export function computePeaks(rawData: Float32Array, samples: number): number[] {
+  const blockSize = Math.max(1, Math.floor(rawData.length / samples));
+  const peaks: number[] = [];
+
+  for (let i = 0; i < samples; i++) {
+    const start = i * blockSize;
+    const end = Math.min(rawData.length, start + blockSize);
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      sum += Math.abs(rawData[j]);
+    }
+    peaks.push(end > start ? sum / (end - start) : 0);
+  }
+
+  const max = Math.max(...peaks);
+  return peaks.map((value) => (max > 0 ? value / max : 0));
+}
+
+/**
+ * Resample peaks to a different bar count
+ * Downsampling keeps the loudest value of each group so transients stay visible.
+ * @param peaks - Normalized amplitudes (0-1)
+ * @param samples - Wanted number of bars
+ * @returns Resampled amplitudes
+ */
+export function resamplePeaks(peaks: number[], samples: number): number[] {
+  if (peaks.length === samples || peaks.length === 0) return peaks.slice();
+
+  const result: number[] = [];
+  const ratio = peaks.length / samples;
+
+  for (let i = 0; i < samples; i++) {
+    if (ratio > 1) {
+      const start = Math.floor(i * ratio);
+      const end = Math.max(start + 1, Math.floor((i + 1) * ratio));
+      result.push(Math.max(...peaks.slice(start, end)));
+    } else {
+      // Linear interpolation between neighbouring bars
+      const position = i * ratio;
+      const index = Math.floor(position);
+      const next = Math.min(peaks.length - 1, index + 1);
+      const fraction = position - index;
+      result.push(peaks[index] * (1 - fraction) + peaks[next] * fraction);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Load precomputed peaks for an audio file
+ * Picks the smallest stored resolution that covers `samples` and resamples it.
+ * @param audioUrl - MP3 path under /music
+ * @param samples - Wanted number of bars
+ * @param signal - Cancels the request
+ * @returns Normalized amplitudes, or null when no peaks were generated (or cancelled)
+ */
+export async function loadWaveformPeaks(
+  audioUrl: string,
+  samples: number,
+  signal?: AbortSignal
+): Promise<number[] | null> {
+  const url = getWaveformPeaksUrl(audioUrl);
+  if (!url) return null;
+
+  try {
+    const response = await fetch(url, { signal });
+    if (!response.ok) return null;
+
+    const data = (await response.json()) as { formatVersion?: number; peaks?: Record<number, unknown> } | null;
+    if (data?.formatVersion !== PEAKS_FORMAT_VERSION || !data.peaks) return null;
+
+    const { peaks } = data;
+    const resolutions = Object.keys(peaks)
+      .map(Number)
+      .filter((bars) => Array.isArray(peaks[bars]) && bars > 0)
+      .sort((a, b) => a - b);
+    if (resolutions.length === 0) return null;
+
+    const bars = resolutions.find((resolution) => resolution >= samples) ?? resolutions[resolutions.length - 1];
+    return resamplePeaks(peaks[bars] as number[], samples);
+  } catch {
+    // Missing file answered with the HTML page, network error or cancelled
+    return null;
+  }
+}
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+/**
+ * Waveform peaks generated at build time (scripts/waveformPeaks.ts),
+ * keyed by MP3 path; empty when ffmpeg or the music files are missing
+ */
+declare module 'virtual:waveform-peaks' {
+  const peaksByFile: Record<string, number[]>;
+  export default peaksByFile;
+}
@@ -0,0 +1,95 @@
+import { MPEGDecoder } from 'mpg123-decoder';
+import { computePeaks } from '@/utils/waveformPeaks';
+
+/**
+ * Waveform Worker
+ *
+ * Fetches an MP3, decodes it and downsamples it to waveform bars, all off
+ * the main thread. decodeAudioData only exists on the page, so decoding
+ * uses mpg123 compiled to WebAssembly. The file is decoded in chunks so a
+ * cancelled job stops between chunks instead of finishing the track.
+ *
+ * Jobs that fail here are retried on the page, see utils/generateWaveform.ts.
+ */
+
+export type WaveformWorkerRequest =
+  | { type: 'generate'; id: number; audioUrl: string; samples: number }
+  | { type: 'cancel'; id: number };
+
+export type WaveformWorkerResponse =
+  | { id: number; data: number[] }
+  | { id: number; error: string };
+
+// Compressed bytes handed to the decoder per step
+const DECODE_CHUNK_SIZE = 256 * 1024;
+
+const scope = self as unknown as Worker;
+const activeJobs = new Map<number, AbortController>();
+
+/**
+ * Decode an MP3 to the samples of its first channel
+ */
+async function decodeFirstChannel(mpegData: Uint8Array, signal: AbortSignal): Promise<Float32Array> {
+  const decoder = new MPEGDecoder();
+  const chunks: Float32Array[] = [];
+  let length = 0;
+
+  try {
+    await decoder.ready;
+    for (let offset = 0; offset < mpegData.length; offset += DECODE_CHUNK_SIZE) {
+      if (signal.aborted) throw new Error('cancelled');
+      const { channelData, samplesDecoded } = decoder.decode(mpegData.subarray(offset, offset + DECODE_CHUNK_SIZE));
+      if (samplesDecoded > 0) {
+        // Copy out of the decoder's memory, which the next chunk reuses
+        chunks.push(channelData[0].slice(0, samplesDecoded));
+        length += samplesDecoded;
+      }
+      // Let cancel messages in between chunks
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  } finally {
+    decoder.free();
+  }
+
+  if (length === 0) throw new Error('No audio decoded');
+
+  const samples = new Float32Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    samples.set(chunk, position);
+    position += chunk.length;
+  }
+  return samples;
+}
+
+async function generate(id: number, audioUrl: string, samples: number) {
+  const controller = new AbortController();
+  activeJobs.set(id, controller);
+
+  try {
+    const response = await fetch(audioUrl, { signal: controller.signal });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const mpegData = new Uint8Array(await response.arrayBuffer());
+
+    const rawData = await decodeFirstChannel(mpegData, controller.signal);
+    const result: WaveformWorkerResponse = { id, data: computePeaks(rawData, samples) };
+    scope.postMessage(result);
+  } catch (error) {
+    // Nobody is waiting for a cancelled job
+    if (!controller.signal.aborted) {
+      const result: WaveformWorkerResponse = { id, error: error instanceof Error ? error.message : String(error) };
+      scope.postMessage(result);
+    }
+  } finally {
+    activeJobs.delete(id);
+  }
+}
+
+scope.onmessage = (event: MessageEvent<WaveformWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    activeJobs.get(request.id)?.abort();
+  } else {
+    generate(request.id, request.audioUrl, request.samples);
+  }
+};
@@ -1,10 +1,61 @@
-import { defineConfig } from 'vite';
+/// <reference types="vitest/config" />
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import fs from 'fs';
 import path from 'path';
+import { waveformPeaks } from './scripts/waveformPeaks';
+
+/**
+ * Paths in the STATIC_SHELL list of public/sw.js that don't exist under
+ * public/ ('/' is the built index.html). One missing file fails the whole
+ * precache, and the service worker never installs.
+ */
+function missingShellFiles(publicDir: string): string[] {
+  const source = fs.readFileSync(path.join(publicDir, 'sw.js'), 'utf-8');
+  const list = source.match(/const STATIC_SHELL = \[([^\]]*)\]/);
+  if (!list) return ['STATIC_SHELL list not found in sw.js'];
+
+  return [...list[1].matchAll(/'([^']+)'/g)]
+    .map(([, url]) => url)
+    .filter((url) => url !== '/' && !fs.existsSync(path.join(publicDir, url)));
+}
+
+/**
+ * Writes precache-manifest.json (every emitted build file) so the service
+ * worker in public/sw.js can precache the app shell on install
+ */
+function precacheManifest(): Plugin {
+  let publicDir = '';
+
+  return {
+    name: 'primeape-precache-manifest',
+    apply: 'build',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    buildStart() {
+      const missing = missingShellFiles(publicDir);
+      if (missing.length > 0) {
+        this.error(`public/sw.js precaches files that don't exist: ${missing.join(', ')}`);
+      }
+    },
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle)
+        .filter((fileName) => !fileName.endsWith('.map'))
+        .map((fileName) => `/${fileName}`);
+
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.json',
+        source: JSON.stringify(files),
+      });
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheManifest(), waveformPeaks()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
@@ -25,4 +76,7 @@ export default defineConfig({
     port: 3000,
     open: true,
   },
+  test: {
+    environment: 'jsdom', // DOMParser for TTML
+  },
 });
\ No newline at end of file